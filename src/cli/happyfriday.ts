@@ -0,0 +1,420 @@
+#!/usr/bin/env node
+// happyfriday: generate PR descriptions and reviews from the command line
+//
+//   happyfriday generate <pr-url> [--provider openai] [--template name.txt] [--model name] [--json] [--stream]
+//   happyfriday generate --base main [--head HEAD] [--repo path] [--title "..."]   (local checkout, before the PR exists)
+//   happyfriday review <pr-url> [--provider ...] [--template ...] [--model ...] [--json] [--stream]
+//   happyfriday templates list [--json]
+//   happyfriday providers [--json]
+import dotenv from 'dotenv';
+import { parseRequestInput } from '../server/api/generate-description';
+import { fetchPromptCommits } from '../server/services/commit-history-service';
+import { fetchPromptFileContext } from '../server/services/file-context-service';
+import { LLMService } from '../server/services/llm-service';
+import { getLLMService } from '../server/services/llm-service-registry';
+import { getKnownProviders } from '../server/services/openai-compatible-endpoints';
+import { LocalGitService } from '../server/services/local-git-service';
+import { getSourceControlAdapter } from '../server/services/source-control-adapter';
+import { TemplateService } from '../server/services/template-service';
+import { formatErrorResponse, formatSuccessResponse } from '../server/utils/response-formatter';
+import { TLLMPromptData, TLLMProvider, TLLMRequest, TLLMResponse } from '../types/llm-types';
+import { TPullRequest } from '../types/bitbucket-types';
+
+dotenv.config();
+
+/**
+ * Process exit codes, so scripts can tell a typo from an outage
+ */
+export const CLI_EXIT_CODES = {
+  SUCCESS: 0,
+  UNEXPECTED: 1,
+  // Bad arguments, PR URL, template or provider name
+  INPUT: 2,
+  // Bitbucket (or GitHub, GitLab, local git) could not supply the PR or its diff
+  SOURCE_CONTROL: 3,
+  // No LLM provider available, or generation failed
+  LLM: 4
+} as const;
+
+export type TCliExitCode = typeof CLI_EXIT_CODES[keyof typeof CLI_EXIT_CODES];
+
+export type TCliOutput = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+};
+
+type TCliArgs = {
+  positionals: string[];
+  values: Record<string, string>;
+  json: boolean;
+  stream: boolean;
+  help: boolean;
+};
+
+const VALUE_FLAGS = ['provider', 'template', 'model', 'context', 'base', 'head', 'repo', 'title'];
+const BOOLEAN_FLAGS = ['json', 'stream', 'help'];
+
+const DEFAULT_REVIEW_TEMPLATE = 'pr-review-template-en.txt';
+
+const USAGE = `Usage: happyfriday <command> [options]
+
+Commands:
+  generate <pr-url>         Generate a description for a Bitbucket, GitHub or GitLab pull request
+  generate --base <ref>     Generate a description for git diff base...head in a local checkout
+  review <pr-url>           Generate a code review for a pull request
+  templates list            List the available prompt templates
+  providers                 List LLM providers and whether they are configured
+
+Options:
+  --provider <name>         LLM provider (${Object.values(TLLMProvider).join(', ')}, or an OPENAI_COMPATIBLE_ENDPOINTS name);
+                            defaults to the first available
+  --template <file>         Prompt template, see "templates list"
+  --model <name>            Override the provider's default model
+  --context <text>          Additional context for the prompt
+  --head <ref>              Local mode: branch or commit to describe (default HEAD)
+  --repo <path>             Local mode: path to the checkout (default current directory)
+  --title <text>            Local mode: PR title (default first commit subject)
+  --stream                  Print tokens as they are generated
+  --json                    Print JSON (newline-delimited events with --stream)
+  --help                    Show this message
+
+Exit codes: 0 success, 1 unexpected error, 2 invalid input, 3 source-control error, 4 LLM error
+`;
+
+class CliError extends Error {
+  constructor(message: string, public exitCode: TCliExitCode) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+/**
+ * Run a happyfriday command. Returns the exit code instead of exiting so it can be driven from tests.
+ */
+export async function runCli(argv: string[], output: TCliOutput): Promise<TCliExitCode> {
+  let args: TCliArgs | undefined;
+  try {
+    args = parseArgs(argv);
+    if (args.help) {
+      output.stdout(USAGE);
+      return CLI_EXIT_CODES.SUCCESS;
+    }
+
+    const [command, ...operands] = args.positionals;
+    switch (command) {
+      case 'generate':
+        await runGeneration('generate', operands, args, output);
+        break;
+      case 'review':
+        await runGeneration('review', operands, args, output);
+        break;
+      case 'templates':
+        listTemplates(operands, args, output);
+        break;
+      case 'providers':
+        await listProviders(args, output);
+        break;
+      case undefined:
+        output.stderr(USAGE);
+        return CLI_EXIT_CODES.INPUT;
+      default:
+        throw new CliError(`Unknown command: ${command}`, CLI_EXIT_CODES.INPUT);
+    }
+    return CLI_EXIT_CODES.SUCCESS;
+  } catch (error) {
+    const exitCode = error instanceof CliError ? error.exitCode : CLI_EXIT_CODES.UNEXPECTED;
+    const message = (error as Error).message;
+    if (args?.json) {
+      writeJson(output, args, { ...formatErrorResponse(message), exitCode }, 'error');
+    } else {
+      output.stderr(`Error: ${message}\n`);
+    }
+    return exitCode;
+  }
+}
+
+function parseArgs(argv: string[]): TCliArgs {
+  const args: TCliArgs = { positionals: [], values: {}, json: false, stream: false, help: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--([a-z-]+)(?:=(.*))?$/);
+    if (!match) {
+      args.positionals.push(argv[i]);
+      continue;
+    }
+
+    const [, name, inlineValue] = match;
+    if (BOOLEAN_FLAGS.includes(name)) {
+      args[name as 'json' | 'stream' | 'help'] = true;
+    } else if (VALUE_FLAGS.includes(name)) {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined || value === '') {
+        throw new CliError(`--${name} requires a value`, CLI_EXIT_CODES.INPUT);
+      }
+      args.values[name] = value;
+    } else {
+      throw new CliError(`Unknown option: --${name}`, CLI_EXIT_CODES.INPUT);
+    }
+  }
+  return args;
+}
+
+/**
+ * generate/review: collect the prompt input, then run it through LLMService exactly as the API does
+ */
+async function runGeneration(
+  command: 'generate' | 'review',
+  operands: string[],
+  args: TCliArgs,
+  output: TCliOutput
+): Promise<void> {
+  const { provider, template = command === 'review' ? DEFAULT_REVIEW_TEMPLATE : undefined, model, context } = args.values;
+  const [prUrl, ...extra] = operands;
+
+  if (extra.length > 0) {
+    throw new CliError(`Unexpected argument: ${extra[0]}`, CLI_EXIT_CODES.INPUT);
+  }
+  if (provider && !getKnownProviders().includes(provider)) {
+    throw new CliError(`Unknown provider: ${provider}`, CLI_EXIT_CODES.INPUT);
+  }
+  if (template && !TemplateService.validateTemplate(template)) {
+    throw new CliError(`Invalid template: ${template}`, CLI_EXIT_CODES.INPUT);
+  }
+
+  let prompt: { prData: TLLMPromptData; pr?: TPullRequest };
+  if (prUrl) {
+    if (args.values.base) {
+      throw new CliError('Pass either a PR URL or --base, not both', CLI_EXIT_CODES.INPUT);
+    }
+    prompt = await readPullRequestPrompt(prUrl);
+  } else if (args.values.base && command === 'generate') {
+    prompt = { prData: await readLocalCheckoutPrompt(args) };
+  } else {
+    throw new CliError(
+      command === 'generate' ? 'generate needs a PR URL or --base <ref>' : 'review needs a PR URL',
+      CLI_EXIT_CODES.INPUT
+    );
+  }
+  prompt.prData.additionalContext = context || '';
+
+  const llmService = loadLLMService();
+  let selectedProvider: TLLMProvider | undefined = provider;
+  if (!selectedProvider) {
+    let availableProviders: TLLMProvider[];
+    try {
+      availableProviders = await llmService.getAvailableProviders();
+    } catch (error) {
+      throw new CliError((error as Error).message, CLI_EXIT_CODES.LLM);
+    }
+    if (availableProviders.length === 0) {
+      throw new CliError('No LLM providers are currently available', CLI_EXIT_CODES.LLM);
+    }
+    selectedProvider = availableProviders[0];
+  }
+
+  const llmRequest: TLLMRequest = {
+    provider: selectedProvider,
+    prData: prompt.prData,
+    template,
+    options: model ? { model } : undefined
+  };
+
+  let llmResponse: TLLMResponse;
+  // Chunks stream in parallel; interleaved they are unreadable as text, so only the final description is printed.
+  // That includes the synthesis streamed after them without a chunk index: if it fails, the description is the
+  // joined chunk summaries instead.
+  let chunked = false;
+  if (args.stream) {
+    llmResponse = await llmService.generateDescriptionStream(llmRequest, (token, chunkIndex) => {
+      if (args.json) {
+        writeJson(output, args, { token, ...(chunkIndex !== undefined && { chunkIndex }) }, 'token');
+      } else if (chunkIndex !== undefined) {
+        chunked = true;
+      } else if (!chunked) {
+        output.stdout(token);
+      }
+    });
+  } else {
+    llmResponse = await llmService.generateDescription(llmRequest);
+  }
+  if (!llmResponse.success || !llmResponse.data) {
+    throw new CliError(llmResponse.error || `Failed to ${command === 'review' ? 'generate review' : 'generate description'}`, CLI_EXIT_CODES.LLM);
+  }
+
+  if (args.json) {
+    const { pr } = prompt;
+    writeJson(output, args, formatSuccessResponse({
+      [command === 'review' ? 'review' : 'generatedDescription']: llmResponse.data.description,
+      ...(pr && {
+        originalPR: {
+          title: pr.title,
+          author: pr.author.display_name,
+          sourceBranch: pr.source.branch.name,
+          destinationBranch: pr.destination.branch.name,
+          repository: pr.source.repository.full_name,
+          url: pr.links.html.href
+        }
+      }),
+      metadata: {
+        provider: llmResponse.data.provider,
+        model: llmResponse.data.model,
+        ...(llmResponse.data.usage && { usage: llmResponse.data.usage }),
+        ...(llmResponse.data.cost && { cost: llmResponse.data.cost }),
+        template: template || 'default',
+        diffSize: prompt.prData.diff.length
+      }
+    }), 'complete');
+  } else {
+    // Streamed tokens are already on stdout; just finish the line
+    output.stdout(args.stream && !chunked ? '\n' : `${llmResponse.data.description}\n`);
+  }
+}
+
+/**
+ * Fetch a PR through the same source-control adapters as the API (bitbucket-service for Bitbucket URLs).
+ * Credentials come from the environment, as for a server request without auth headers.
+ */
+async function readPullRequestPrompt(prUrl: string): Promise<{ prData: TLLMPromptData; pr: TPullRequest }> {
+  const input = parseRequestInput({ prUrl });
+  if (input.error) {
+    throw new CliError(input.error, CLI_EXIT_CODES.INPUT);
+  }
+
+  const { repository, prNumber } = input;
+  const adapter = getSourceControlAdapter(input.platform, input.serverUrl);
+  const auth = {};
+
+  const prResponse = await adapter.fetchPullRequest(repository, prNumber, auth);
+  if (!prResponse.success || !prResponse.data) {
+    throw new CliError(prResponse.error || 'Failed to fetch PR details', CLI_EXIT_CODES.SOURCE_CONTROL);
+  }
+  const pr = prResponse.data;
+
+  const diffResponse = await adapter.fetchPullRequestDiff(repository, prNumber, auth, pr);
+  if (!diffResponse.success || !diffResponse.data) {
+    throw new CliError(diffResponse.error || 'Failed to fetch PR diff', CLI_EXIT_CODES.SOURCE_CONTROL);
+  }
+  const diff = diffResponse.data.diff;
+
+  return {
+    pr,
+    prData: {
+      title: pr.title,
+      description: pr.description || '',
+      diff,
+      author: pr.author.display_name,
+      sourceBranch: pr.source.branch.name,
+      destinationBranch: pr.destination.branch.name,
+      repository: pr.source.repository.full_name,
+      additionalContext: '',
+      commits: await fetchPromptCommits(repository, prNumber, adapter.platform, auth),
+      fileContext: await fetchPromptFileContext(repository, pr, diff, adapter.platform, auth)
+    }
+  };
+}
+
+/**
+ * Diff `base...head` in a local checkout; nothing is requested from Bitbucket
+ */
+async function readLocalCheckoutPrompt(args: TCliArgs): Promise<TLLMPromptData> {
+  const { base, head = 'HEAD', repo, title } = args.values;
+  const git = new LocalGitService(repo);
+
+  let input;
+  let commits;
+  try {
+    input = await git.readDiffInput(base, head, { title });
+    commits = await git.readCommits(base, head);
+  } catch (error) {
+    throw new CliError((error as Error).message, CLI_EXIT_CODES.SOURCE_CONTROL);
+  }
+  if (!input.diff.trim()) {
+    throw new CliError(`No changes between ${base} and ${head}`, CLI_EXIT_CODES.INPUT);
+  }
+
+  return {
+    title: input.title,
+    description: input.description || '',
+    diff: input.diff,
+    author: input.author || '',
+    sourceBranch: input.sourceBranch || head,
+    destinationBranch: input.destinationBranch || base,
+    repository: input.repository || 'local',
+    additionalContext: '',
+    commits
+  };
+}
+
+function listTemplates(operands: string[], args: TCliArgs, output: TCliOutput): void {
+  if (operands[0] !== 'list' || operands.length > 1) {
+    throw new CliError('Usage: happyfriday templates list', CLI_EXIT_CODES.INPUT);
+  }
+
+  const templates = TemplateService.getAvailableTemplates();
+  if (args.json) {
+    writeJson(output, args, formatSuccessResponse({ templates, count: templates.length }));
+    return;
+  }
+  const width = Math.max(...templates.map(template => template.filename.length));
+  for (const { filename, metadata } of templates) {
+    output.stdout(`${filename.padEnd(width)}  ${metadata.language.padEnd(2)}  ${metadata.category.padEnd(11)}  ${metadata.name}\n`);
+  }
+}
+
+async function listProviders(args: TCliArgs, output: TCliOutput): Promise<void> {
+  const llmService = loadLLMService();
+  let availableProviders: TLLMProvider[];
+  try {
+    availableProviders = await llmService.getAvailableProviders();
+  } catch (error) {
+    throw new CliError((error as Error).message, CLI_EXIT_CODES.LLM);
+  }
+  const providers = llmService.getRegisteredProviders().map(provider => ({
+    provider,
+    available: availableProviders.includes(provider)
+  }));
+
+  if (args.json) {
+    writeJson(output, args, formatSuccessResponse({ providers, total: availableProviders.length }));
+    return;
+  }
+  const width = Math.max(...providers.map(({ provider }) => provider.length));
+  for (const { provider, available } of providers) {
+    output.stdout(`${provider.padEnd(width)}  ${available ? 'available' : 'not configured'}\n`);
+  }
+}
+
+/**
+ * Provider services are constructed on first use and some throw when their credentials are missing
+ */
+function loadLLMService(): LLMService {
+  try {
+    return getLLMService();
+  } catch (error) {
+    throw new CliError((error as Error).message, CLI_EXIT_CODES.LLM);
+  }
+}
+
+/**
+ * With --stream every JSON payload is one line tagged with its event, mirroring the SSE endpoint
+ */
+function writeJson(output: TCliOutput, args: TCliArgs, payload: object, event?: string): void {
+  if (args.stream && event) {
+    output.stdout(`${JSON.stringify({ event, data: payload })}\n`);
+  } else {
+    output.stdout(`${JSON.stringify(payload, null, 2)}\n`);
+  }
+}
+
+if (require.main === module) {
+  // Services log progress with console.log/info; keep stdout for the command's output
+  console.log = console.error;
+  console.info = console.error;
+
+  runCli(process.argv.slice(2), {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text)
+  }).then(exitCode => {
+    process.exitCode = exitCode;
+  });
+}
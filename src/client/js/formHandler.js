@@ -4,7 +4,7 @@
 const VALIDATION_PATTERNS = {
   repository: /^[a-zA-Z0-9_\-\.\/]{1,100}$/,
   prNumber: /^[1-9]\d{0,5}$/, // 1 to 999999
-  prUrl: /^https?:\/\/bitbucket\.org\/[^\/]+\/[^\/]+\/pull-requests?\/\d+/i,
+  prUrl: /^https?:\/\/(bitbucket\.org\/[^\/]+\/[^\/]+\/pull-requests?|[^\/]+(\/[^\/]+)*\/projects\/[^\/]+\/repos\/[^\/]+\/pull-requests|(www\.)?github\.com\/[^\/]+\/[^\/]+\/pull|[^\/]+(\/[^\/]+)+\/-\/merge_requests)\/\d+/i,
   suspiciousPatterns: [
     /<script[^>]*>.*?<\/script>/gi,
     /javascript:/gi,
@@ -82,7 +82,7 @@ function validateFormInput(prUrl, repository, prNumber) {
   // Check if using URL format
   if (prUrl) {
     if (!VALIDATION_PATTERNS.prUrl.test(prUrl)) {
-      errors.push('Invalid Bitbucket PR URL format. Expected: https://bitbucket.org/workspace/repo/pull-requests/123');
+      errors.push('Invalid PR URL format. Expected: https://bitbucket.org/workspace/repo/pull-requests/123, https://github.com/owner/repo/pull/123 or https://gitlab.com/group/project/-/merge_requests/123');
     } else {
       // Check for suspicious patterns in URL
       for (const pattern of VALIDATION_PATTERNS.suspiciousPatterns) {
@@ -418,6 +418,8 @@ async function generateDescriptionStreaming(prUrl, repository, prNumber, provide
     const reader = response.body.getReader();
     const decoder = new TextDecoder();
     let buffer = '';
+    // Chunked PRs stream each chunk on its own channel
+    const chunkContents = [];
 
     while (true) {
       const { done, value } = await reader.read();
@@ -461,6 +463,10 @@ async function generateDescriptionStreaming(prUrl, repository, prNumber, provide
             
             if (data.token) {
               // Append new token to streaming text
+              if (data.chunkIndex !== undefined) {
+                chunkContents[data.chunkIndex] = data.content || '';
+                data.content = chunkContents.filter(Boolean).join('\n\n');
+              }
               streamingText.textContent = data.content || '';
               // Auto-scroll to bottom
               streamingText.scrollTop = streamingText.scrollHeight;
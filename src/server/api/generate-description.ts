@@ -1,14 +1,24 @@
 // API endpoint for PR description generation
 import { Request, Response, NextFunction } from 'express';
-import { fetchPullRequest, fetchPullRequestDiff } from '../services/bitbucket-service';
+import { fetchCommitRangeDiff } from '../services/bitbucket-service';
+import { fetchPromptCommits } from '../services/commit-history-service';
+import { fetchPromptFileContext } from '../services/file-context-service';
+import { fetchReviewerSuggestions } from '../services/reviewer-suggestion-service';
+import { getGenerationHistoryService, recordGeneration } from '../services/generation-history-service';
+import { getSourceControlAdapter } from '../services/source-control-adapter';
 import { getLLMService } from '../services/llm-service-registry';
 import { TemplateService } from '../services/template-service';
-import { TLLMProvider, TLLMRequest } from '../../types/llm-types';
+import { DescriptionPublisherService, PUBLISH_MODES } from '../services/description-publisher-service';
+import { TLLMProvider, TLLMRequest, TPromptCommit } from '../../types/llm-types';
+import { TBitbucketAuthOptions, TPublishMode, TPullRequest } from '../../types/bitbucket-types';
 import { formatSuccessResponse, formatErrorResponse, formatValidationErrorResponse } from '../utils/response-formatter';
 import { AppError, createValidationError, createServiceUnavailableError } from '../utils/error-handler';
-import { validateGenerateDescriptionRequest } from '../utils/input-validator';
+import { validateGenerateDescriptionRequest, validateReviewerSuggestionOptions } from '../utils/input-validator';
 import { logInfo, logWarn } from '../utils/logger';
-import { BitbucketUrlParser } from '../utils/url-parser';
+import { BitbucketUrlParser, GitHubUrlParser, GitLabUrlParser } from '../utils/url-parser';
+import { getConfiguredGitLabHosts } from '../services/gitlab-service';
+import { ISourceControlAdapter, TRawDiffInput, TSourceControlPlatform } from '../../types/source-control-types';
+import { TReviewerSuggestionOptions } from '../../types/reviewer-types';
 
 interface TGenerateDescriptionRequest {
   // New URL-based format
@@ -16,32 +26,79 @@ interface TGenerateDescriptionRequest {
   // Legacy format (for backward compatibility)
   repository?: string;
   prNumber?: string;
+  // A diff pasted by the caller, e.g. before the PR exists; nothing is fetched from Bitbucket
+  rawDiff?: TRawDiffInput;
   // Common fields
   provider?: TLLMProvider;
   template?: string;
   additionalContext?: string;
+  // Add the enclosing functions/classes of changed hunks to the prompt (defaults to ENABLE_FILE_CONTEXT)
+  includeFileContext?: boolean;
   options?: {
     model?: string;
     maxTokens?: number;
     temperature?: number;
   };
+  // Write the generated description back to the PR (non-streaming endpoint only)
+  publish?: boolean | { mode?: TPublishMode };
+  // Summarise only the commits pushed since the last generation (or since `sinceCommit`)
+  incremental?: boolean;
+  sinceCommit?: string;
+  // Suggest reviewers from CODEOWNERS and file history; `addReviewers` also adds them to the PR
+  suggestReviewers?: boolean | TReviewerSuggestionOptions;
 }
 
+const DEFAULT_UPDATE_TEMPLATE = 'pr-update-template-en.txt';
+
+type TPromptInput = {
+  diff: string;
+  commits?: TPromptCommit[];
+  // Base commit of an incremental run
+  previousCommit?: string;
+  // Requests made to the source-control host for the diff, retries included
+  attempts: number;
+};
+
 /**
- * Parse request to extract repository and PR number from either URL or legacy format
+ * Parse request to extract repository and PR number from a raw diff, a URL or the legacy format.
+ * URLs are dispatched on host; the legacy format always means Bitbucket Cloud.
  */
-function parseRequestInput(body: TGenerateDescriptionRequest): { repository: string; prNumber: string; error?: string } {
-  const { prUrl, repository, prNumber } = body;
+export function parseRequestInput(
+  body: TGenerateDescriptionRequest
+): {
+  repository: string;
+  prNumber: string;
+  platform?: TSourceControlPlatform;
+  serverUrl?: string;
+  rawDiff?: TRawDiffInput;
+  error?: string;
+} {
+  const { prUrl, repository, prNumber, rawDiff } = body;
+
+  if (rawDiff !== undefined) {
+    const error = validateRawDiff(rawDiff, Boolean(prUrl || prNumber));
+    if (error) {
+      return { repository: '', prNumber: '', error };
+    }
+    return { repository: rawDiff.repository || 'local', prNumber: 'local', platform: 'local', rawDiff };
+  }
 
   // If PR URL is provided, parse it
   if (prUrl) {
-    const parsed = BitbucketUrlParser.parsePRUrl(prUrl);
+    const parsed = GitHubUrlParser.isGitHubUrl(prUrl)
+      ? GitHubUrlParser.parsePRUrl(prUrl)
+      : GitLabUrlParser.isGitLabUrl(prUrl)
+        ? GitLabUrlParser.parsePRUrl(prUrl, getConfiguredGitLabHosts())
+        : BitbucketUrlParser.parsePRUrl(prUrl);
     if (!parsed.isValid) {
       return { repository: '', prNumber: '', error: parsed.error };
     }
     return {
       repository: BitbucketUrlParser.formatRepositoryString(parsed.workspace, parsed.repository),
-      prNumber: parsed.prNumber
+      prNumber: parsed.prNumber,
+      platform: parsed.platform === 'server' ? 'bitbucket-server' : parsed.platform === 'cloud' ? 'bitbucket-cloud' : parsed.platform,
+      // Bitbucket Server / Data Center and GitLab PRs are fetched from their own instance
+      ...(parsed.baseUrl && { serverUrl: parsed.baseUrl })
     };
   }
 
@@ -58,6 +115,89 @@ function parseRequestInput(body: TGenerateDescriptionRequest): { repository: str
   };
 }
 
+function validateRawDiff(rawDiff: TRawDiffInput, hasPullRequest: boolean): string | null {
+  if (hasPullRequest) {
+    return 'Provide either rawDiff or a PR (prUrl or repository and prNumber), not both';
+  }
+  if (!rawDiff || typeof rawDiff !== 'object') {
+    return 'rawDiff must be an object with diff and title';
+  }
+  if (typeof rawDiff.diff !== 'string' || !rawDiff.diff.trim()) {
+    return 'rawDiff.diff must be a non-empty unified diff';
+  }
+  if (typeof rawDiff.title !== 'string' || !rawDiff.title.trim()) {
+    return 'rawDiff.title is required';
+  }
+  const optionalFields = ['description', 'author', 'sourceBranch', 'destinationBranch', 'repository'] as const;
+  const invalidField = optionalFields.find(field => rawDiff[field] !== undefined && typeof rawDiff[field] !== 'string');
+  return invalidField ? `rawDiff.${invalidField} must be a string` : null;
+}
+
+/**
+ * Read the caller's own Bitbucket token, if any, so API calls run with their permissions
+ */
+export function parseAuthOptions(req: Request): TBitbucketAuthOptions {
+  const token = req.get('X-Bitbucket-Token');
+  return token && token.trim() ? { userToken: token.trim() } : {};
+}
+
+/**
+ * Fetch the diff and commits for the prompt: the whole PR, or in incremental mode only what was
+ * pushed after the previously generated (or given) source commit
+ */
+async function fetchPromptInput(
+  repository: string,
+  prNumber: string,
+  pr: TPullRequest,
+  adapter: ISourceControlAdapter,
+  auth: TBitbucketAuthOptions,
+  incremental: { sinceCommit?: string } | null
+): Promise<{ input?: TPromptInput; error?: string }> {
+  if (!incremental) {
+    const diffResponse = await adapter.fetchPullRequestDiff(repository, prNumber, auth, pr);
+    if (!diffResponse.success || !diffResponse.data) {
+      return { error: diffResponse.error || 'Failed to fetch PR diff' };
+    }
+    return {
+      input: {
+        diff: diffResponse.data.diff,
+        commits: await fetchPromptCommits(repository, prNumber, adapter.platform, auth),
+        attempts: diffResponse.metadata?.attempts ?? 0
+      }
+    };
+  }
+
+  const currentCommit = pr.source.commit?.hash;
+  const previousCommit = incremental.sinceCommit || getGenerationHistoryService().get(repository, prNumber)?.sourceCommit;
+  if (!currentCommit) {
+    return { error: 'Pull request has no source commit to compare against' };
+  }
+  if (!previousCommit) {
+    return { error: 'No previous generation recorded for this pull request; run a full generation first or pass sinceCommit' };
+  }
+  if (currentCommit.startsWith(previousCommit) || previousCommit.startsWith(currentCommit)) {
+    return { error: `No new commits since ${previousCommit.substring(0, 12)}` };
+  }
+
+  // Fork PRs keep their commits in the source repository
+  const diffResponse = await fetchCommitRangeDiff(pr.source.repository.full_name || repository, previousCommit, currentCommit, auth);
+  if (!diffResponse.success || !diffResponse.data) {
+    return { error: diffResponse.error || 'Failed to fetch diff since the previous generation' };
+  }
+
+  // Keep the commits after the base; after a rebase the base is gone and every commit counts as new
+  const commits = await fetchPromptCommits(repository, prNumber, adapter.platform, auth);
+  const baseIndex = commits?.findIndex(commit => commit.hash.startsWith(previousCommit)) ?? -1;
+  return {
+    input: {
+      diff: diffResponse.data.diff,
+      commits: baseIndex >= 0 ? commits!.slice(baseIndex + 1) : commits,
+      previousCommit,
+      attempts: diffResponse.metadata?.attempts ?? 0
+    }
+  };
+}
+
 export async function generateDescription(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const startTime = Date.now();
@@ -69,33 +209,72 @@ export async function generateDescription(req: Request, res: Response, next: Nex
       return;
     }
 
-    const { repository, prNumber } = inputResult;
-    const { provider, template, additionalContext, options }: TGenerateDescriptionRequest = req.body;
+    const { repository, prNumber, platform, serverUrl, rawDiff } = inputResult;
+    const adapter = getSourceControlAdapter(platform, serverUrl, rawDiff);
+    const isBitbucketCloud = adapter.platform === 'bitbucket-cloud';
+    const {
+      provider,
+      additionalContext,
+      includeFileContext,
+      options,
+      publish,
+      incremental,
+      sinceCommit,
+      suggestReviewers
+    }: TGenerateDescriptionRequest = req.body;
+    const template = req.body.template || (incremental ? DEFAULT_UPDATE_TEMPLATE : undefined);
+    const auth = parseAuthOptions(req);
 
     // Validate template if provided
     if (template && !TemplateService.validateTemplate(template)) {
       res.status(400).json(formatErrorResponse(`Invalid template: ${template}`));
       return;
     }
+    const reviewerValidation = validateReviewerSuggestionOptions(suggestReviewers);
+    if (!reviewerValidation.isValid) {
+      res.status(400).json(formatErrorResponse(reviewerValidation.errors[0]));
+      return;
+    }
+    if (incremental && !isBitbucketCloud) {
+      res.status(400).json(formatErrorResponse(`Incremental mode is not supported for ${adapter.displayName} pull requests`));
+      return;
+    }
+    if (incremental && publish) {
+      res.status(400).json(formatErrorResponse('Incremental updates cannot be published; publish a full description instead'));
+      return;
+    }
+
+    const publishMode: TPublishMode = (publish && typeof publish === 'object' && publish.mode) || 'section';
+    if (publish && !PUBLISH_MODES.includes(publishMode)) {
+      res.status(400).json(formatErrorResponse(`Invalid publish mode: ${publishMode}`));
+      return;
+    }
+    if (publish && !isBitbucketCloud) {
+      res.status(400).json(formatErrorResponse(`Publishing is not supported for ${adapter.displayName} pull requests`));
+      return;
+    }
 
     console.log(`Starting PR description generation for ${repository}#${prNumber}${template ? ` with template: ${template}` : ''}`);
 
-    // Fetch PR details from Bitbucket
-    const prResponse = await fetchPullRequest(repository, prNumber);
+    // Fetch PR details from the source-control host
+    const prResponse = await adapter.fetchPullRequest(repository, prNumber, auth);
     if (!prResponse.success || !prResponse.data) {
       res.status(400).json(formatErrorResponse(prResponse.error || 'Failed to fetch PR details'));
       return;
     }
 
-    // Fetch PR diff from Bitbucket
-    const diffResponse = await fetchPullRequestDiff(repository, prNumber);
-    if (!diffResponse.success || !diffResponse.data) {
-      res.status(400).json(formatErrorResponse(diffResponse.error || 'Failed to fetch PR diff'));
+    const pr = prResponse.data;
+
+    // Fetch PR diff from the source-control host
+    const inputResponse = await fetchPromptInput(repository, prNumber, pr, adapter, auth, incremental ? { sinceCommit } : null);
+    if (!inputResponse.input) {
+      res.status(400).json(formatErrorResponse(inputResponse.error || 'Failed to fetch PR diff'));
       return;
     }
 
-    const pr = prResponse.data;
-    const diff = diffResponse.data.diff;
+    const { diff, commits, previousCommit } = inputResponse.input;
+    const apiAttempts = (prResponse.metadata?.attempts ?? 0) + inputResponse.input.attempts;
+    const fileContext = await fetchPromptFileContext(repository, pr, diff, adapter.platform, auth, includeFileContext);
 
     // Get LLM service
     const llmService = getLLMService();
@@ -122,7 +301,10 @@ export async function generateDescription(req: Request, res: Response, next: Nex
         sourceBranch: pr.source.branch.name,
         destinationBranch: pr.destination.branch.name,
         repository: pr.source.repository.full_name,
-        additionalContext: additionalContext || ''
+        additionalContext: additionalContext || '',
+        commits,
+        fileContext,
+        previousCommit
       },
       template,
       options
@@ -140,6 +322,27 @@ export async function generateDescription(req: Request, res: Response, next: Nex
     const processingTime = endTime - startTime;
 
     console.log(`PR description generated successfully in ${processingTime}ms using ${selectedProvider}`);
+    if (isBitbucketCloud) {
+      recordGeneration(repository, prNumber, pr, llmResponse.data.provider, template, Boolean(incremental));
+    }
+    const reviewers = await fetchReviewerSuggestions(repository, prNumber, pr, diff, adapter.platform, auth, suggestReviewers);
+
+    // Optionally write the result back to the PR; generation itself already succeeded
+    let publishResult;
+    if (publish) {
+      const publisher = new DescriptionPublisherService();
+      const published = await publisher.publish(repository, prNumber, llmResponse.data.description, {
+        mode: publishMode,
+        expectedUpdatedOn: pr.updated_on,
+        auth
+      });
+      publishResult = published.success
+        ? { success: true, ...published.data }
+        : { success: false, mode: publishMode, conflict: published.conflict || false, error: published.error };
+      if (!published.success) {
+        logWarn('Failed to publish generated description', { repository, prNumber, error: published.error });
+      }
+    }
 
     // Return successful response
     res.status(200).json(formatSuccessResponse({
@@ -151,14 +354,24 @@ export async function generateDescription(req: Request, res: Response, next: Nex
         sourceBranch: pr.source.branch.name,
         destinationBranch: pr.destination.branch.name,
         repository: pr.source.repository.full_name,
-        url: pr.links.html.href
+        url: pr.links.html.href,
+        updatedOn: pr.updated_on
       },
       metadata: {
         provider: llmResponse.data.provider,
         model: llmResponse.data.model,
+        ...(llmResponse.data.parts && { parts: llmResponse.data.parts }),
+        ...(llmResponse.data.synthesis && { synthesis: llmResponse.data.synthesis }),
+        ...(llmResponse.data.fallbacks && { fallbacks: llmResponse.data.fallbacks }),
+        ...(llmResponse.data.usage && { usage: llmResponse.data.usage }),
+        ...(llmResponse.data.cost && { cost: llmResponse.data.cost }),
         processingTimeMs: processingTime,
-        diffSize: diff.length
-      }
+        diffSize: diff.length,
+        apiAttempts,
+        ...(previousCommit && { incremental: { since: previousCommit, until: pr.source.commit?.hash } }),
+        ...(reviewers && { reviewers })
+      },
+      ...(publishResult && { publish: publishResult })
     }, 'PR description generated successfully'));
 
   } catch (error) {
@@ -178,18 +391,38 @@ export async function generateDescriptionStream(req: Request, res: Response, nex
       return;
     }
 
-    const { repository, prNumber } = inputResult;
-    const { provider, template, additionalContext, options }: TGenerateDescriptionRequest = req.body;
+    const { repository, prNumber, platform, serverUrl, rawDiff } = inputResult;
+    const adapter = getSourceControlAdapter(platform, serverUrl, rawDiff);
+    const isBitbucketCloud = adapter.platform === 'bitbucket-cloud';
+    const {
+      provider,
+      additionalContext,
+      includeFileContext,
+      options,
+      incremental,
+      sinceCommit,
+      suggestReviewers
+    }: TGenerateDescriptionRequest = req.body;
+    const template = req.body.template || (incremental ? DEFAULT_UPDATE_TEMPLATE : undefined);
+    const auth = parseAuthOptions(req);
 
     // Validate template if provided
-    if (template && !TemplateService.validateTemplate(template)) {
+    const reviewerValidation = validateReviewerSuggestionOptions(suggestReviewers);
+    const validationError = template && !TemplateService.validateTemplate(template)
+      ? `Invalid template: ${template}`
+      : !reviewerValidation.isValid
+        ? reviewerValidation.errors[0]
+        : incremental && !isBitbucketCloud
+          ? `Incremental mode is not supported for ${adapter.displayName} pull requests`
+          : null;
+    if (validationError) {
       res.writeHead(200, {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive'
       });
       res.write(`event: error\n`);
-      res.write(`data: ${JSON.stringify({ error: `Invalid template: ${template}` })}\n\n`);
+      res.write(`data: ${JSON.stringify({ error: validationError })}\n\n`);
       res.end();
       return;
     }
@@ -211,24 +444,27 @@ export async function generateDescriptionStream(req: Request, res: Response, nex
       res.write(`data: ${JSON.stringify(data)}\n\n`);
     };
 
-    // Fetch PR details from Bitbucket
-    const prResponse = await fetchPullRequest(repository, prNumber);
+    // Fetch PR details from the source-control host
+    const prResponse = await adapter.fetchPullRequest(repository, prNumber, auth);
     if (!prResponse.success || !prResponse.data) {
       sendSSE('error', { error: prResponse.error || 'Failed to fetch PR details' });
       res.end();
       return;
     }
 
-    // Fetch PR diff from Bitbucket
-    const diffResponse = await fetchPullRequestDiff(repository, prNumber);
-    if (!diffResponse.success || !diffResponse.data) {
-      sendSSE('error', { error: diffResponse.error || 'Failed to fetch PR diff' });
+    const pr = prResponse.data;
+
+    // Fetch PR diff from the source-control host
+    const inputResponse = await fetchPromptInput(repository, prNumber, pr, adapter, auth, incremental ? { sinceCommit } : null);
+    if (!inputResponse.input) {
+      sendSSE('error', { error: inputResponse.error || 'Failed to fetch PR diff' });
       res.end();
       return;
     }
 
-    const pr = prResponse.data;
-    const diff = diffResponse.data.diff;
+    const { diff, commits, previousCommit } = inputResponse.input;
+    const apiAttempts = (prResponse.metadata?.attempts ?? 0) + inputResponse.input.attempts;
+    const fileContext = await fetchPromptFileContext(repository, pr, diff, adapter.platform, auth, includeFileContext);
 
     // Send initial data
     sendSSE('start', {
@@ -239,7 +475,8 @@ export async function generateDescriptionStream(req: Request, res: Response, nex
         sourceBranch: pr.source.branch.name,
         destinationBranch: pr.destination.branch.name,
         repository: pr.source.repository.full_name,
-        url: pr.links.html.href
+        url: pr.links.html.href,
+        updatedOn: pr.updated_on
       }
     });
 
@@ -269,7 +506,10 @@ export async function generateDescriptionStream(req: Request, res: Response, nex
         sourceBranch: pr.source.branch.name,
         destinationBranch: pr.destination.branch.name,
         repository: pr.source.repository.full_name,
-        additionalContext: additionalContext || ''
+        additionalContext: additionalContext || '',
+        commits,
+        fileContext,
+        previousCommit
       },
       template,
       options
@@ -278,9 +518,17 @@ export async function generateDescriptionStream(req: Request, res: Response, nex
     console.log(`Using LLM provider: ${selectedProvider} for streaming`);
 
     let generatedContent = '';
+    // Chunked PRs stream their chunks in parallel, each on its own channel
+    const chunkContents = new Map<number, string>();
 
     // Generate description using streaming LLM
-    const llmResponse = await llmService.generateDescriptionStream(llmRequest, (token: string) => {
+    const llmResponse = await llmService.generateDescriptionStream(llmRequest, (token: string, chunkIndex?: number) => {
+      if (chunkIndex !== undefined) {
+        const content = (chunkContents.get(chunkIndex) || '') + token;
+        chunkContents.set(chunkIndex, content);
+        sendSSE('token', { token, chunkIndex, content });
+        return;
+      }
       generatedContent += token;
       sendSSE('token', { 
         token: token,
@@ -298,6 +546,10 @@ export async function generateDescriptionStream(req: Request, res: Response, nex
     const processingTime = endTime - startTime;
 
     console.log(`Streaming PR description generated successfully in ${processingTime}ms using ${selectedProvider}`);
+    if (isBitbucketCloud) {
+      recordGeneration(repository, prNumber, pr, llmResponse.data.provider, template, Boolean(incremental));
+    }
+    const reviewers = await fetchReviewerSuggestions(repository, prNumber, pr, diff, adapter.platform, auth, suggestReviewers);
 
     // Send completion event
     sendSSE('complete', {
@@ -305,8 +557,16 @@ export async function generateDescriptionStream(req: Request, res: Response, nex
       metadata: {
         provider: llmResponse.data.provider,
         model: llmResponse.data.model,
+        ...(llmResponse.data.parts && { parts: llmResponse.data.parts }),
+        ...(llmResponse.data.synthesis && { synthesis: llmResponse.data.synthesis }),
+        ...(llmResponse.data.fallbacks && { fallbacks: llmResponse.data.fallbacks }),
+        ...(llmResponse.data.usage && { usage: llmResponse.data.usage }),
+        ...(llmResponse.data.cost && { cost: llmResponse.data.cost }),
         processingTimeMs: processingTime,
-        diffSize: diff.length
+        diffSize: diff.length,
+        apiAttempts,
+        ...(previousCommit && { incremental: { since: previousCommit, until: pr.source.commit?.hash } }),
+        ...(reviewers && { reviewers })
       }
     });
 
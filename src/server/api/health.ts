@@ -16,7 +16,9 @@ export async function healthCheck(req: Request, res: Response, next: NextFunctio
       environment: process.env.NODE_ENV || 'development',
       services: {
         llmProviders: availableProviders,
-        totalProviders: availableProviders.length
+        totalProviders: availableProviders.length,
+        // Circuit breaker state per registered provider: closed, open or half-open
+        providerHealth: llmService.getHealthMonitor().getHealth()
       }
     };
 
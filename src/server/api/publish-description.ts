@@ -0,0 +1,76 @@
+// API endpoint for publishing a generated description to a Bitbucket PR
+import { Request, Response, NextFunction } from 'express';
+import { DescriptionPublisherService, PUBLISH_MODES } from '../services/description-publisher-service';
+import { getSourceControlAdapter } from '../services/source-control-adapter';
+import { parseAuthOptions, parseRequestInput } from './generate-description';
+import { TPublishMode } from '../../types/bitbucket-types';
+import { formatSuccessResponse, formatErrorResponse } from '../utils/response-formatter';
+import { logInfo, logWarn } from '../utils/logger';
+
+interface TPublishDescriptionRequest {
+  prUrl?: string;
+  repository?: string;
+  prNumber?: string;
+  description?: string;
+  mode?: TPublishMode;
+  // `originalPR.updatedOn` from the generate-description response
+  expectedUpdatedOn?: string;
+}
+
+const MAX_DESCRIPTION_LENGTH = 32768;
+
+export async function publishDescription(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const inputResult = parseRequestInput(req.body);
+    if (inputResult.error) {
+      res.status(400).json(formatErrorResponse(inputResult.error));
+      return;
+    }
+
+    const { repository, prNumber, platform, serverUrl, rawDiff } = inputResult;
+    const adapter = getSourceControlAdapter(platform, serverUrl, rawDiff);
+    if (adapter.platform !== 'bitbucket-cloud') {
+      res.status(400).json(formatErrorResponse(`Publishing is not supported for ${adapter.displayName} pull requests`));
+      return;
+    }
+
+    const { description, mode = 'section', expectedUpdatedOn }: TPublishDescriptionRequest = req.body;
+
+    if (typeof description !== 'string' || !description.trim()) {
+      res.status(400).json(formatErrorResponse('description is required'));
+      return;
+    }
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      res.status(400).json(formatErrorResponse(`description must be less than ${MAX_DESCRIPTION_LENGTH} characters`));
+      return;
+    }
+    if (!PUBLISH_MODES.includes(mode)) {
+      res.status(400).json(formatErrorResponse(`mode must be one of: ${PUBLISH_MODES.join(', ')}`));
+      return;
+    }
+    if (!expectedUpdatedOn) {
+      res.status(400).json(formatErrorResponse('expectedUpdatedOn is required to guard against overwriting newer edits'));
+      return;
+    }
+
+    logInfo('Publishing description to pull request', { repository, prNumber, mode });
+
+    const publisher = new DescriptionPublisherService();
+    const result = await publisher.publish(repository, prNumber, description, {
+      mode,
+      expectedUpdatedOn,
+      auth: parseAuthOptions(req)
+    });
+
+    if (!result.success || !result.data) {
+      logWarn('Failed to publish description', { repository, prNumber, error: result.error });
+      res.status(result.conflict ? 409 : 502).json(formatErrorResponse(result.error || 'Failed to publish description'));
+      return;
+    }
+
+    res.status(200).json(formatSuccessResponse(result.data, 'PR description published successfully'));
+  } catch (error) {
+    console.error('Error in publishDescription:', error);
+    next(error);
+  }
+}
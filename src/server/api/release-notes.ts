@@ -0,0 +1,190 @@
+// API endpoint for streaming release notes built from the PRs merged in a range
+import { Request, Response, NextFunction } from 'express';
+import { getLLMService } from '../services/llm-service-registry';
+import { ReleaseNotesService } from '../services/release-notes-service';
+import { parseAuthOptions } from './generate-description';
+import { TLLMProvider, TLLMRequest } from '../../types/llm-types';
+import { TReleaseNoteEntry, TReleaseRangeType } from '../../types/release-notes-types';
+import { logInfo } from '../utils/logger';
+
+interface TReleaseNotesRequest {
+  repository?: string;
+  // Start and (optional, defaults to now) end of the range: ISO dates, tag names or commit hashes
+  from?: string;
+  to?: string;
+  rangeType?: TReleaseRangeType;
+  provider?: TLLMProvider;
+  language?: 'en' | 'zh';
+  additionalContext?: string;
+  options?: {
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+  };
+}
+
+const RANGE_TYPES: TReleaseRangeType[] = ['date', 'tag', 'commit'];
+
+function validateReleaseNotesRequest(body: TReleaseNotesRequest): string | null {
+  if (!body.repository || !/^[^/\s]+\/[^/\s]+$/.test(body.repository)) {
+    return 'repository must be in the form workspace/repo';
+  }
+  if (!body.from) {
+    return 'from is required';
+  }
+  if (body.rangeType && !RANGE_TYPES.includes(body.rangeType)) {
+    return `rangeType must be one of: ${RANGE_TYPES.join(', ')}`;
+  }
+  if (body.language && body.language !== 'en' && body.language !== 'zh') {
+    return 'language must be en or zh';
+  }
+  return null;
+}
+
+/**
+ * Summarise each merged PR in the range, then group the summaries into Features/Fixes/Breaking Changes.
+ * Streams `start`, one `progress` per PR, `token` for the final pass, then `complete` (or `error`).
+ */
+export async function releaseNotes(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const startTime = Date.now();
+    const body: TReleaseNotesRequest = req.body || {};
+    const validationError = validateReleaseNotesRequest(body);
+
+    // Set up Server-Sent Events headers
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+
+    const sendSSE = (event: string, data: any) => {
+      res.write(`event: ${event}\n`);
+      res.write(`data: ${JSON.stringify(data)}\n\n`);
+    };
+    const fail = (error: string) => {
+      sendSSE('error', { error });
+      res.end();
+    };
+
+    if (validationError) {
+      fail(validationError);
+      return;
+    }
+
+    const repository = body.repository as string;
+    const { from, to, provider, additionalContext, options } = body;
+    const rangeType = body.rangeType || 'date';
+    const language = body.language || 'en';
+    const service = new ReleaseNotesService(parseAuthOptions(req));
+
+    const rangeResult = await service.resolveRange(repository, rangeType, from as string, to);
+    if (!rangeResult.range) {
+      fail(rangeResult.error || 'Failed to resolve release range');
+      return;
+    }
+    const { range } = rangeResult;
+
+    const listResult = await service.listPullRequests(repository, range);
+    if (!listResult.pullRequests) {
+      fail(listResult.error || 'Failed to list merged pull requests');
+      return;
+    }
+    const { pullRequests, attempts } = listResult;
+
+    logInfo('Generating release notes', { repository, rangeType, from, to, pullRequests: pullRequests.length });
+    sendSSE('start', {
+      repository,
+      range: { since: range.since.toISOString(), until: range.until.toISOString() },
+      pullRequests: pullRequests.map(pr => ({ id: pr.id, title: pr.title, url: pr.links.html.href }))
+    });
+
+    if (pullRequests.length === 0) {
+      fail('No merged pull requests found in this range');
+      return;
+    }
+
+    const llmService = getLLMService();
+    let selectedProvider = provider;
+    if (!selectedProvider) {
+      const availableProviders = await llmService.getAvailableProviders();
+      if (availableProviders.length === 0) {
+        fail('No LLM providers are currently available');
+        return;
+      }
+      selectedProvider = availableProviders[0];
+    }
+
+    // Summaries run one at a time so the progress events arrive in merge order
+    const entries: TReleaseNoteEntry[] = [];
+    for (const pr of pullRequests) {
+      const entry = await service.summarizePullRequest(
+        llmService,
+        selectedProvider,
+        pr,
+        `release-note-item-template-${language}.txt`,
+        options
+      );
+      entries.push(entry);
+      sendSSE('progress', { completed: entries.length, total: pullRequests.length, entry });
+    }
+
+    const rangeLabel = `${from} .. ${to || 'now'}`;
+    const llmRequest: TLLMRequest = {
+      provider: selectedProvider,
+      prData: {
+        title: rangeLabel,
+        description: '',
+        diff: '',
+        author: '',
+        sourceBranch: '',
+        destinationBranch: '',
+        repository,
+        additionalContext: additionalContext || '',
+        pullRequestSummaries: service.formatSummaries(entries)
+      },
+      template: `release-notes-template-${language}.txt`,
+      options
+    };
+
+    let generatedContent = '';
+    const llmResponse = await llmService.generateDescriptionStream(llmRequest, (token: string) => {
+      generatedContent += token;
+      sendSSE('token', { token, content: generatedContent });
+    });
+
+    if (!llmResponse.success || !llmResponse.data) {
+      fail(llmResponse.error || 'Failed to generate release notes');
+      return;
+    }
+
+    sendSSE('complete', {
+      releaseNotes: llmResponse.data.description,
+      entries,
+      metadata: {
+        provider: llmResponse.data.provider,
+        model: llmResponse.data.model,
+        processingTimeMs: Date.now() - startTime,
+        pullRequestCount: entries.length,
+        unsummarizedCount: entries.filter(entry => !entry.summarized).length,
+        apiAttempts: attempts
+      }
+    });
+    res.end();
+
+  } catch (error) {
+    console.error('Error in releaseNotes:', error);
+
+    if (!res.headersSent) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+    }
+
+    res.write(`event: error\n`);
+    res.write(`data: ${JSON.stringify({ error: 'Internal server error' })}\n\n`);
+    res.end();
+  }
+}
@@ -0,0 +1,198 @@
+// API endpoint for posting LLM review findings as inline Bitbucket PR comments
+import { Request, Response, NextFunction } from 'express';
+import { getSourceControlAdapter } from '../services/source-control-adapter';
+import { fetchPromptCommits } from '../services/commit-history-service';
+import { fetchPromptFileContext } from '../services/file-context-service';
+import { getLLMService } from '../services/llm-service-registry';
+import { TemplateService } from '../services/template-service';
+import { ReviewFindingsService } from '../services/review-findings-service';
+import { ReviewCommentPublisherService } from '../services/review-comment-publisher-service';
+import { CodeInsightsPublisherService } from '../services/code-insights-publisher-service';
+import { parseAuthOptions, parseRequestInput } from './generate-description';
+import { TLLMProvider, TLLMRequest } from '../../types/llm-types';
+import { TReviewPublishTarget } from '../../types/review-types';
+import { formatSuccessResponse, formatErrorResponse } from '../utils/response-formatter';
+import { logInfo, logWarn } from '../utils/logger';
+
+interface TReviewCommentsRequest {
+  prUrl?: string;
+  repository?: string;
+  prNumber?: string;
+  provider?: TLLMProvider;
+  template?: string;
+  additionalContext?: string;
+  includeFileContext?: boolean;
+  options?: {
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+  };
+  // Return the findings without posting anything to the PR
+  dryRun?: boolean;
+  // Post inline comments, a Code Insights report on the source commit, or both (default comments)
+  publishTo?: TReviewPublishTarget;
+}
+
+const DEFAULT_REVIEW_TEMPLATE = 'pr-review-inline-template-en.txt';
+const PUBLISH_TARGETS: TReviewPublishTarget[] = ['comments', 'report', 'both'];
+
+export async function reviewComments(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const startTime = Date.now();
+
+    const inputResult = parseRequestInput(req.body);
+    if (inputResult.error) {
+      res.status(400).json(formatErrorResponse(inputResult.error));
+      return;
+    }
+
+    const { repository, prNumber, platform, serverUrl, rawDiff } = inputResult;
+    const adapter = getSourceControlAdapter(platform, serverUrl, rawDiff);
+    const {
+      provider,
+      template = DEFAULT_REVIEW_TEMPLATE,
+      additionalContext,
+      includeFileContext,
+      options,
+      dryRun = false,
+      publishTo = 'comments'
+    }: TReviewCommentsRequest = req.body;
+    const auth = parseAuthOptions(req);
+
+    if (!TemplateService.validateTemplate(template)) {
+      res.status(400).json(formatErrorResponse(`Invalid template: ${template}`));
+      return;
+    }
+    if (!PUBLISH_TARGETS.includes(publishTo)) {
+      res.status(400).json(formatErrorResponse(`Invalid publishTo: ${publishTo}`));
+      return;
+    }
+    if (adapter.platform !== 'bitbucket-cloud' && !dryRun) {
+      res.status(400).json(formatErrorResponse(`Posting comments is not supported for ${adapter.displayName}; use dryRun`));
+      return;
+    }
+
+    logInfo('Starting inline review', { repository, prNumber, template, dryRun, publishTo });
+
+    const prResponse = await adapter.fetchPullRequest(repository, prNumber, auth);
+    if (!prResponse.success || !prResponse.data) {
+      res.status(400).json(formatErrorResponse(prResponse.error || 'Failed to fetch PR details'));
+      return;
+    }
+
+    const diffResponse = await adapter.fetchPullRequestDiff(repository, prNumber, auth, prResponse.data);
+    if (!diffResponse.success || !diffResponse.data) {
+      res.status(400).json(formatErrorResponse(diffResponse.error || 'Failed to fetch PR diff'));
+      return;
+    }
+
+    const pr = prResponse.data;
+    const diff = diffResponse.data.diff;
+    const sourceCommit = pr.source.commit?.hash;
+    if (publishTo !== 'comments' && !dryRun && !sourceCommit) {
+      res.status(502).json(formatErrorResponse('Bitbucket did not report the source commit needed for a Code Insights report'));
+      return;
+    }
+    const commits = await fetchPromptCommits(repository, prNumber, adapter.platform, auth);
+    const fileContext = await fetchPromptFileContext(repository, pr, diff, adapter.platform, auth, includeFileContext);
+
+    const llmService = getLLMService();
+
+    let selectedProvider = provider;
+    if (!selectedProvider) {
+      const availableProviders = await llmService.getAvailableProviders();
+      if (availableProviders.length === 0) {
+        res.status(503).json(formatErrorResponse('No LLM providers are currently available'));
+        return;
+      }
+      selectedProvider = availableProviders[0];
+    }
+
+    const llmRequest: TLLMRequest = {
+      provider: selectedProvider,
+      prData: {
+        title: pr.title,
+        description: pr.description || '',
+        diff: diff,
+        author: pr.author.display_name,
+        sourceBranch: pr.source.branch.name,
+        destinationBranch: pr.destination.branch.name,
+        repository: pr.source.repository.full_name,
+        additionalContext: additionalContext || '',
+        commits,
+        fileContext
+      },
+      template,
+      options
+    };
+
+    const llmResponse = await llmService.generateDescription(llmRequest);
+    if (!llmResponse.success || !llmResponse.data) {
+      res.status(503).json(formatErrorResponse(llmResponse.error || 'Failed to generate review'));
+      return;
+    }
+
+    const findingsService = new ReviewFindingsService();
+    if (!findingsService.hasFindingsPayload(llmResponse.data.description)) {
+      logWarn('LLM review response contained no findings JSON', { repository, prNumber, template });
+      res.status(502).json(formatErrorResponse('LLM response did not contain structured review findings'));
+      return;
+    }
+
+    const findings = findingsService.parseFindings(llmResponse.data.description);
+    // Map against the raw diff: line numbers must match what Bitbucket shows
+    const mapped = findingsService.mapFindingsToDiff(findings, diff);
+
+    let publishResult;
+    if (!dryRun && publishTo !== 'report') {
+      const publisher = new ReviewCommentPublisherService();
+      const published = await publisher.publish(repository, prNumber, mapped, auth);
+      if (!published.success) {
+        res.status(502).json(formatErrorResponse(published.error || 'Failed to post review comments'));
+        return;
+      }
+      publishResult = published.data;
+    }
+
+    let reportResult;
+    let reportError: string | undefined;
+    if (!dryRun && publishTo !== 'comments') {
+      const publisher = new CodeInsightsPublisherService();
+      const published = await publisher.publish(repository, sourceCommit!, mapped, auth);
+      if (!published.success) {
+        reportError = published.error || 'Failed to publish Code Insights report';
+        // The comments are already on the PR; report them alongside the failure instead of dropping them
+        if (!publishResult) {
+          res.status(502).json(formatErrorResponse(reportError));
+          return;
+        }
+        logWarn('Code Insights report failed after posting review comments', { repository, prNumber, error: reportError });
+      } else {
+        reportResult = published.data;
+      }
+    }
+
+    res.status(reportError ? 207 : 200).json(formatSuccessResponse({
+      findings: mapped,
+      ...(publishResult && { comments: publishResult }),
+      ...(reportResult && { report: reportResult }),
+      ...(reportError && { report: { error: reportError } }),
+      metadata: {
+        provider: llmResponse.data.provider,
+        model: llmResponse.data.model,
+        ...(llmResponse.data.usage && { usage: llmResponse.data.usage }),
+        ...(llmResponse.data.cost && { cost: llmResponse.data.cost }),
+        processingTimeMs: Date.now() - startTime,
+        diffSize: diff.length,
+        apiAttempts: (prResponse.metadata?.attempts ?? 0) + (diffResponse.metadata?.attempts ?? 0),
+        dryRun,
+        publishTo
+      }
+    }, dryRun
+      ? 'Review findings generated successfully'
+      : reportError ? 'Review comments posted; Code Insights report failed' : 'Review results published successfully'));
+  } catch (error) {
+    console.error('Error in reviewComments:', error);
+    next(error);
+  }
+}
@@ -0,0 +1,57 @@
+// Webhook endpoint for generating descriptions when Bitbucket PRs are opened or updated
+import { Request, Response, NextFunction } from 'express';
+import { getWebhookService, SUPPORTED_WEBHOOK_EVENTS, WebhookService } from '../services/webhook-service';
+import { TBitbucketWebhookPayload, TWebhookEventKey } from '../../types/webhook-types';
+import { formatSuccessResponse, formatErrorResponse } from '../utils/response-formatter';
+import { logInfo, logWarn } from '../utils/logger';
+
+/**
+ * Expects the raw body (express.raw) so the HMAC is computed over exactly what Bitbucket signed
+ */
+export async function bitbucketWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const secret = process.env.BITBUCKET_WEBHOOK_SECRET;
+    if (!secret) {
+      res.status(503).json(formatErrorResponse('Webhook secret is not configured'));
+      return;
+    }
+
+    const rawBody: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    if (!WebhookService.verifySignature(rawBody, req.get('X-Hub-Signature'), secret)) {
+      logWarn('Rejected webhook with invalid signature', { ip: req.ip, requestUuid: req.get('X-Request-UUID') });
+      res.status(401).json(formatErrorResponse('Invalid webhook signature'));
+      return;
+    }
+
+    // Bitbucket retries non-2xx deliveries, so events we don't handle are acknowledged and ignored
+    const eventKey = req.get('X-Event-Key') as TWebhookEventKey;
+    if (!SUPPORTED_WEBHOOK_EVENTS.includes(eventKey)) {
+      res.status(200).json(formatSuccessResponse({ queued: false, reason: `Event ${eventKey} is not handled` }));
+      return;
+    }
+
+    let payload: TBitbucketWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody.toString('utf-8'));
+    } catch (error) {
+      res.status(400).json(formatErrorResponse('Webhook body is not valid JSON'));
+      return;
+    }
+
+    const result = getWebhookService().enqueue(eventKey, payload);
+    logInfo('Received Bitbucket webhook', {
+      event: eventKey,
+      repository: payload.repository?.full_name,
+      prNumber: payload.pullrequest?.id,
+      ...result
+    });
+
+    res.status(result.queued ? 202 : 200).json(formatSuccessResponse(
+      result,
+      result.queued ? 'Description generation queued' : 'Webhook ignored'
+    ));
+  } catch (error) {
+    console.error('Error in bitbucketWebhook:', error);
+    next(error);
+  }
+}
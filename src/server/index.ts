@@ -3,6 +3,10 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { generateDescription, generateDescriptionStream } from './api/generate-description';
+import { publishDescription } from './api/publish-description';
+import { reviewComments } from './api/review-comments';
+import { releaseNotes } from './api/release-notes';
+import { bitbucketWebhook } from './api/webhooks';
 import { healthCheck, getAvailableProviders } from './api/health';
 import { testStream } from './api/test-stream';
 import { getTemplates, getTemplateMetadata, validateTemplate } from './api/templates';
@@ -23,6 +27,7 @@ import {
   userAgentValidationMiddleware 
 } from './middleware/security';
 import { logInfo } from './utils/logger';
+import { getLLMService } from './services/llm-service-registry';
 
 dotenv.config();
 
@@ -42,6 +47,9 @@ app.use(requestSizeMiddleware(parseInt(process.env.MAX_REQUEST_SIZE || '1048576'
 // Apply general rate limiting to all requests
 app.use(createGeneralRateLimit());
 
+// Bitbucket webhooks are signed over the raw body, so this route is mounted before the JSON parser
+app.post('/webhooks/bitbucket', express.raw({ type: 'application/json', limit: '1mb' }), asyncErrorHandler(bitbucketWebhook));
+
 // Body parsing middleware
 app.use(express.json({ limit: '1mb' }));
 app.use(express.urlencoded({ extended: true, limit: '1mb' }));
@@ -83,6 +91,15 @@ app.post('/api/generate-description', createAPIRateLimit(), asyncErrorHandler(ge
 // Streaming endpoint for real-time description generation
 app.post('/api/generate-description/stream', createAPIRateLimit(), asyncErrorHandler(generateDescriptionStream));
 
+// Write a generated description back to the Bitbucket PR
+app.post('/api/publish-description', createAPIRateLimit(), asyncErrorHandler(publishDescription));
+
+// Review a PR and post the findings as inline comments
+app.post('/api/review-comments', createAPIRateLimit(), asyncErrorHandler(reviewComments));
+
+// Stream release notes for the PRs merged between two dates, tags or commits
+app.post('/api/release-notes', createAPIRateLimit(), asyncErrorHandler(releaseNotes));
+
 // API info endpoint (moved from root to avoid conflict with static files)
 app.get('/api', (req, res) => {
   res.json({
@@ -94,7 +111,11 @@ app.get('/api', (req, res) => {
       providers: '/api/providers',
       templates: '/api/templates',
       generateDescription: 'POST /api/generate-description',
-      generateDescriptionStream: 'POST /api/generate-description/stream'
+      generateDescriptionStream: 'POST /api/generate-description/stream',
+      publishDescription: 'POST /api/publish-description',
+      reviewComments: 'POST /api/review-comments',
+      releaseNotes: 'POST /api/release-notes',
+      bitbucketWebhook: 'POST /webhooks/bitbucket'
     }
   });
 });
@@ -105,6 +126,9 @@ app.use(globalErrorHandler);
 
 // Start server only if this file is run directly (not imported for testing)
 if (require.main === module) {
+  // Keep provider availability warm so requests rarely wait on a probe
+  getLLMService().getHealthMonitor().start();
+
   app.listen(PORT, () => {
     logInfo('Server started', {
       port: PORT,
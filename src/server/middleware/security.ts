@@ -112,7 +112,7 @@ export function corsSecurityMiddleware(allowedOrigins: string[] = ['self']) {
 
     res.set({
       'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With, X-Bitbucket-Token',
       'Access-Control-Allow-Credentials': 'true',
       'Access-Control-Max-Age': '86400' // 24 hours
     });
@@ -156,6 +156,30 @@ export function requestSizeMiddleware(maxSizeBytes: number = 1024 * 1024) { // 1
   };
 }
 
+// Routes whose `description` is a generated PR description being published
+const PUBLISHED_DESCRIPTION_PATHS = ['/api/publish-description'];
+
+/**
+ * The request body without the free text the handlers pass on as content: the text of a raw diff, and a generated
+ * description being published. Diffs are source code and descriptions describe it, so both routinely contain
+ * `onClick =`, `../` imports or "select ... from"; the handlers validate their shape.
+ */
+function withoutContentText(path: string, body: any): any {
+  if (!body || typeof body !== 'object') {
+    return body;
+  }
+  let scanned = body;
+  if (body.rawDiff && typeof body.rawDiff === 'object') {
+    const { diff, ...rawDiff } = body.rawDiff;
+    scanned = { ...scanned, rawDiff };
+  }
+  if (PUBLISHED_DESCRIPTION_PATHS.includes(path)) {
+    const { description, ...rest } = scanned;
+    scanned = rest;
+  }
+  return scanned;
+}
+
 export function suspiciousPatternMiddleware() {
   const suspiciousPatterns = [
     // SQL injection patterns
@@ -182,7 +206,7 @@ export function suspiciousPatternMiddleware() {
     const userControllableData = {
       url: req.url,
       query: req.query,
-      body: req.body
+      body: withoutContentText(req.path, req.body)
     };
 
     const requestDataString = JSON.stringify(userControllableData);
@@ -0,0 +1,197 @@
+import { AzureChatOpenAI } from '@langchain/openai';
+import { DefaultAzureCredential, getBearerTokenProvider } from '@azure/identity';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import dotenv from 'dotenv';
+import { TLLMProvider, TLLMRequest, TLLMResponse, ILLMService } from '../../types/llm-types';
+import { LLMService } from './llm-service';
+import { TemplateService } from './template-service';
+import { TokenUsageCollector } from './token-usage-tracker';
+
+dotenv.config();
+
+const DEFAULT_API_VERSION = '2024-10-21';
+const COGNITIVE_SERVICES_SCOPE = 'https://cognitiveservices.azure.com/.default';
+
+// Resolves a current Microsoft Entra ID access token, refreshing it before it expires
+export type TAzureTokenProvider = () => Promise<string>;
+
+// Azure OpenAI serves models through deployments: requests name the deployment, and `options.model` overrides it
+export class AzureOpenAIService implements ILLMService {
+  private endpoint: string;
+  private deployment: string;
+  private apiVersion: string;
+  private apiKey: string;
+  private tokenProvider?: TAzureTokenProvider;
+  // The model behind the deployment, reported in responses so usage is priced and chunks are sized for it
+  private model: string;
+
+  /**
+   * Without an API key, requests authenticate with Microsoft Entra ID: through `tokenProvider` when given, else the
+   * static AZURE_OPENAI_AD_TOKEN, else DefaultAzureCredential (managed identity, workload identity, Azure CLI...),
+   * whose tokens are refreshed as they expire.
+   */
+  constructor(tokenProvider?: TAzureTokenProvider) {
+    this.endpoint = process.env.AZURE_OPENAI_ENDPOINT || '';
+    this.deployment = process.env.AZURE_OPENAI_DEPLOYMENT || '';
+    this.apiVersion = process.env.AZURE_OPENAI_API_VERSION || DEFAULT_API_VERSION;
+    this.apiKey = process.env.AZURE_OPENAI_API_KEY || '';
+    this.model = process.env.AZURE_OPENAI_MODEL || this.deployment;
+    if (!this.apiKey && this.endpoint) {
+      const adToken = process.env.AZURE_OPENAI_AD_TOKEN;
+      this.tokenProvider = tokenProvider
+        || (adToken ? async () => adToken : getBearerTokenProvider(new DefaultAzureCredential(), COGNITIVE_SERVICES_SCOPE));
+    }
+  }
+
+  /**
+   * Chat model for a deployment. Authenticates with the API key, or with a Microsoft Entra ID token when no key
+   * is set.
+   */
+  private createLLM(deployment: string, options: { temperature?: number; maxTokens?: number; streaming?: boolean; timeout?: number }): AzureChatOpenAI {
+    return new AzureChatOpenAI({
+      azureOpenAIEndpoint: this.endpoint,
+      azureOpenAIApiDeploymentName: deployment,
+      azureOpenAIApiVersion: this.apiVersion,
+      ...(this.apiKey
+        ? { azureOpenAIApiKey: this.apiKey }
+        : { azureADTokenProvider: this.tokenProvider }),
+      ...options
+    });
+  }
+
+  async generateDescription(request: TLLMRequest, signal?: AbortSignal): Promise<TLLMResponse> {
+    try {
+      const deployment = request.options?.model || this.deployment;
+      const maxTokens = request.options?.maxTokens || 1000;
+      const temperature = request.options?.temperature || 0.7;
+
+      const llm = this.createLLM(deployment, { temperature, maxTokens, streaming: false });
+
+      // Use enhanced template service with LangChain integration
+      const systemMessage = 'You are a helpful assistant that generates comprehensive pull request descriptions based on code changes and PR information.';
+      const templateName = request.template || 'pr-description-template-zh.txt';
+      const chatTemplate = TemplateService.createChatTemplate(systemMessage, templateName);
+
+      // Create the chain: PromptTemplate -> LLM -> StringOutputParser
+      const chain = chatTemplate.pipe(llm).pipe(new StringOutputParser());
+
+      // Prepare template variables
+      const templateVariables = TemplateService.buildTemplateVariables(request.prData, templateName);
+
+      // Estimate the prompt before the call; actual usage is read from the response metadata
+      const usage = new TokenUsageCollector(TLLMProvider.AZURE_OPENAI);
+      await usage.estimatePrompt(chatTemplate, templateVariables);
+
+      // Execute the chain
+      const generatedText = await chain.invoke(templateVariables, { callbacks: [usage.handler], signal });
+
+      if (!generatedText) {
+        return {
+          success: false,
+          error: 'No response generated from Azure OpenAI'
+        };
+      }
+
+      // Process response using existing service method
+      const processedResponse = LLMService.processLLMResponse(generatedText);
+
+      return {
+        success: true,
+        data: {
+          description: processedResponse,
+          provider: TLLMProvider.AZURE_OPENAI,
+          model: request.options?.model || this.model,
+          usage: usage.getUsage(generatedText)
+        }
+      };
+    } catch (error: any) {
+      console.error('AzureOpenAIService error:', error);
+      return LLMService.handleError(error, TLLMProvider.AZURE_OPENAI);
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (!this.endpoint || !this.deployment) {
+      return false;
+    }
+
+    try {
+      // Test the deployment with a one-token completion
+      const testLLM = this.createLLM(this.deployment, { maxTokens: 1, timeout: 5000 });
+      await testLLM.invoke([{ role: 'user', content: 'test' }]);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  getProviderName(): TLLMProvider {
+    return TLLMProvider.AZURE_OPENAI;
+  }
+
+  async generateDescriptionWithCallback(
+    request: TLLMRequest,
+    onToken?: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<TLLMResponse> {
+    if (!onToken) {
+      return this.generateDescription(request, signal);
+    }
+
+    try {
+      const deployment = request.options?.model || this.deployment;
+      const maxTokens = request.options?.maxTokens || 1000;
+      const temperature = request.options?.temperature || 0.7;
+
+      // Create streaming LLM
+      const streamingLLM = this.createLLM(deployment, { temperature, maxTokens, streaming: true });
+
+      // Use enhanced template service with LangChain integration
+      const systemMessage = 'You are a helpful assistant that generates comprehensive pull request descriptions based on code changes and PR information.';
+      const templateName = request.template || 'pr-description-template-zh.txt';
+      const chatTemplate = TemplateService.createChatTemplate(systemMessage, templateName);
+
+      // Create the chain: PromptTemplate -> LLM -> StringOutputParser
+      const chain = chatTemplate.pipe(streamingLLM).pipe(new StringOutputParser());
+
+      // Prepare template variables
+      const templateVariables = TemplateService.buildTemplateVariables(request.prData, templateName);
+
+      let fullContent = '';
+
+      const usage = new TokenUsageCollector(TLLMProvider.AZURE_OPENAI);
+      await usage.estimatePrompt(chatTemplate, templateVariables);
+
+      // Use streaming with callback
+      const stream = await chain.stream(templateVariables, { callbacks: [usage.handler], signal });
+
+      for await (const chunk of stream) {
+        fullContent += chunk;
+        onToken(chunk);
+      }
+
+      if (!fullContent) {
+        return {
+          success: false,
+          error: 'No response generated from Azure OpenAI'
+        };
+      }
+
+      // Process response using existing service method
+      const processedResponse = LLMService.processLLMResponse(fullContent);
+
+      return {
+        success: true,
+        data: {
+          description: processedResponse,
+          provider: TLLMProvider.AZURE_OPENAI,
+          model: request.options?.model || this.model,
+          usage: usage.getUsage(fullContent)
+        }
+      };
+    } catch (error: any) {
+      console.error('AzureOpenAIService streaming error:', error);
+      return LLMService.handleError(error, TLLMProvider.AZURE_OPENAI);
+    }
+  }
+}
@@ -0,0 +1,197 @@
+// Credential providers for authenticating Bitbucket API calls
+import axios from 'axios';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { TBitbucketAuthOptions, TBitbucketAuthType } from '../../types/bitbucket-types';
+import { logInfo } from '../utils/logger';
+
+dotenv.config();
+
+const DEFAULT_OAUTH_TOKEN_URL = 'https://bitbucket.org/site/oauth2/access_token';
+// Refresh tokens slightly before they expire so in-flight requests don't race the expiry
+const TOKEN_EXPIRY_MARGIN_MS = 60000;
+
+export interface IBitbucketCredentialProvider {
+  readonly type: TBitbucketAuthType;
+  getAuthorizationHeader(): Promise<string>;
+  // Identifies whose permissions the credentials carry, so cached responses are never shared across users
+  getCacheScope(): string;
+  // Drop any cached token, e.g. after the API answered 401
+  invalidate(): void;
+}
+
+export class BasicAuthCredentialProvider implements IBitbucketCredentialProvider {
+  readonly type = 'basic' as const;
+
+  constructor(private username: string, private appPassword: string) {}
+
+  async getAuthorizationHeader(): Promise<string> {
+    return `Basic ${Buffer.from(`${this.username}:${this.appPassword}`).toString('base64')}`;
+  }
+
+  getCacheScope(): string {
+    return 'shared';
+  }
+
+  invalidate(): void {
+    // Static credentials, nothing to refresh
+  }
+}
+
+/**
+ * Repository/workspace access tokens, and tokens supplied per request by the caller
+ */
+export class AccessTokenCredentialProvider implements IBitbucketCredentialProvider {
+  readonly type = 'access_token' as const;
+
+  constructor(private token: string, private shared: boolean = true) {}
+
+  async getAuthorizationHeader(): Promise<string> {
+    return `Bearer ${this.token}`;
+  }
+
+  getCacheScope(): string {
+    if (this.shared) {
+      return 'shared';
+    }
+    return `user:${crypto.createHash('sha256').update(this.token).digest('hex').slice(0, 16)}`;
+  }
+
+  invalidate(): void {
+    // The token is owned by whoever configured or supplied it
+  }
+}
+
+/**
+ * No credentials at all; requests go out without an Authorization header (public GitHub/GitLab projects)
+ */
+export class AnonymousCredentialProvider implements IBitbucketCredentialProvider {
+  readonly type = 'anonymous' as const;
+
+  async getAuthorizationHeader(): Promise<string> {
+    return '';
+  }
+
+  getCacheScope(): string {
+    return 'anonymous';
+  }
+
+  invalidate(): void {
+    // Nothing to refresh
+  }
+}
+
+/**
+ * OAuth2 client-credentials flow against an OAuth consumer, with automatic refresh
+ */
+export class OAuthClientCredentialsProvider implements IBitbucketCredentialProvider {
+  readonly type = 'oauth' as const;
+  private accessToken: string | null = null;
+  private refreshToken: string | null = null;
+  private expiresAt = 0;
+  private pendingRequest: Promise<string> | null = null;
+
+  constructor(
+    private clientId: string,
+    private clientSecret: string,
+    private tokenUrl: string = DEFAULT_OAUTH_TOKEN_URL
+  ) {}
+
+  async getAuthorizationHeader(): Promise<string> {
+    if (this.accessToken && Date.now() < this.expiresAt - TOKEN_EXPIRY_MARGIN_MS) {
+      return `Bearer ${this.accessToken}`;
+    }
+
+    // Concurrent callers share a single token request
+    if (!this.pendingRequest) {
+      this.pendingRequest = this.requestToken().finally(() => {
+        this.pendingRequest = null;
+      });
+    }
+    return `Bearer ${await this.pendingRequest}`;
+  }
+
+  getCacheScope(): string {
+    return 'shared';
+  }
+
+  invalidate(): void {
+    this.accessToken = null;
+    this.expiresAt = 0;
+  }
+
+  private async requestToken(): Promise<string> {
+    const params = new URLSearchParams();
+    if (this.refreshToken) {
+      params.append('grant_type', 'refresh_token');
+      params.append('refresh_token', this.refreshToken);
+    } else {
+      params.append('grant_type', 'client_credentials');
+    }
+
+    try {
+      const response = await axios.post(this.tokenUrl, params.toString(), {
+        auth: { username: this.clientId, password: this.clientSecret },
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: parseInt(process.env.BITBUCKET_API_TIMEOUT_MS || '10000'),
+      });
+      const data = response.data as { access_token: string; expires_in: number; refresh_token?: string };
+
+      this.accessToken = data.access_token;
+      this.refreshToken = data.refresh_token || null;
+      this.expiresAt = Date.now() + data.expires_in * 1000;
+      logInfo('Obtained Bitbucket OAuth access token', { expiresInSeconds: data.expires_in });
+      return data.access_token;
+    } catch (err: any) {
+      // A rejected refresh token falls back to a fresh client-credentials grant on the next attempt
+      this.refreshToken = null;
+      const reason = err.response?.data?.error_description || err.message;
+      throw new Error(`Failed to obtain Bitbucket OAuth token: ${reason}`);
+    }
+  }
+}
+
+let defaultProvider: IBitbucketCredentialProvider | null | undefined;
+
+/**
+ * Build the service-account provider from configuration.
+ * Precedence: access token, then OAuth consumer, then username/app password.
+ */
+function createDefaultCredentialProvider(): IBitbucketCredentialProvider | null {
+  if (process.env.BITBUCKET_ACCESS_TOKEN) {
+    return new AccessTokenCredentialProvider(process.env.BITBUCKET_ACCESS_TOKEN);
+  }
+  if (process.env.BITBUCKET_OAUTH_CLIENT_ID && process.env.BITBUCKET_OAUTH_CLIENT_SECRET) {
+    return new OAuthClientCredentialsProvider(
+      process.env.BITBUCKET_OAUTH_CLIENT_ID,
+      process.env.BITBUCKET_OAUTH_CLIENT_SECRET,
+      process.env.BITBUCKET_OAUTH_TOKEN_URL || DEFAULT_OAUTH_TOKEN_URL
+    );
+  }
+  if (process.env.BITBUCKET_USERNAME && process.env.BITBUCKET_APP_PASSWORD) {
+    return new BasicAuthCredentialProvider(process.env.BITBUCKET_USERNAME, process.env.BITBUCKET_APP_PASSWORD);
+  }
+  return null;
+}
+
+export function getDefaultCredentialProvider(): IBitbucketCredentialProvider | null {
+  if (defaultProvider === undefined) {
+    defaultProvider = createDefaultCredentialProvider();
+  }
+  return defaultProvider;
+}
+
+/**
+ * Credentials for a single call: the caller's own token when supplied, otherwise the service account
+ */
+export function resolveCredentialProvider(options: TBitbucketAuthOptions = {}): IBitbucketCredentialProvider | null {
+  if (options.userToken) {
+    return new AccessTokenCredentialProvider(options.userToken, false);
+  }
+  return getDefaultCredentialProvider();
+}
+
+// For testing purposes
+export function resetDefaultCredentialProvider(): void {
+  defaultProvider = undefined;
+}
@@ -0,0 +1,160 @@
+// Shared HTTP client for Bitbucket API calls with retry, backoff and an overall deadline
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { IBitbucketCredentialProvider } from './bitbucket-auth-service';
+import { logWarn } from '../utils/logger';
+
+export type TBitbucketRequest = {
+  method: 'get' | 'post' | 'put' | 'delete';
+  url: string;
+  data?: any;
+  params?: Record<string, string>;
+  headers?: Record<string, string>;
+  responseType?: 'json' | 'text';
+  validateStatus?: (status: number) => boolean;
+};
+
+export type TBitbucketHttpResponse = {
+  data: any;
+  status: number;
+  headers: Record<string, any>;
+  attempts: number;
+};
+
+export interface BitbucketRetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Budget for all attempts and waits together
+  deadlineMs: number;
+  // Per-attempt timeout, shortened to whatever remains of the deadline
+  timeoutMs: number;
+}
+
+const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
+const RETRYABLE_ERROR_CODES = ['ECONNABORTED', 'ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE'];
+
+function getDefaultRetryOptions(): BitbucketRetryOptions {
+  return {
+    maxRetries: parseInt(process.env.BITBUCKET_MAX_RETRIES || '3'),
+    baseDelayMs: parseInt(process.env.BITBUCKET_RETRY_BASE_DELAY_MS || '500'),
+    maxDelayMs: parseInt(process.env.BITBUCKET_RETRY_MAX_DELAY_MS || '10000'),
+    deadlineMs: parseInt(process.env.BITBUCKET_REQUEST_DEADLINE_MS || '30000'),
+    timeoutMs: parseInt(process.env.BITBUCKET_API_TIMEOUT_MS || '10000'),
+  };
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value.trim(), 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class BitbucketHttpClient {
+  constructor(private overrides: Partial<BitbucketRetryOptions> = {}) {}
+
+  /**
+   * Send a request with the provider's credentials. Failed requests are retried on 429, 5xx and
+   * network errors until `maxRetries` or the deadline runs out. Errors thrown carry an `attempts` count.
+   */
+  async send(credentials: IBitbucketCredentialProvider, request: TBitbucketRequest): Promise<TBitbucketHttpResponse> {
+    const options = { ...getDefaultRetryOptions(), ...this.overrides };
+    const deadline = Date.now() + options.deadlineMs;
+    let attempts = 0;
+    let retries = 0;
+    let refreshedCredentials = false;
+
+    while (true) {
+      const remaining = deadline - Date.now();
+      attempts++;
+      try {
+        const response = await this.dispatch(request, await credentials.getAuthorizationHeader(),
+          Math.max(1, Math.min(options.timeoutMs, remaining)));
+        return { data: response.data, status: response.status, headers: response.headers || {}, attempts };
+      } catch (err: any) {
+        // A token revoked or expired early gets one retry with fresh credentials
+        if (err.response?.status === 401 && credentials.type === 'oauth' && !refreshedCredentials) {
+          refreshedCredentials = true;
+          credentials.invalidate();
+          continue;
+        }
+
+        const delay = this.getRetryDelay(err, request, retries, options);
+        if (delay === null || retries >= options.maxRetries || Date.now() + delay >= deadline) {
+          err.attempts = attempts;
+          throw err;
+        }
+
+        retries++;
+        logWarn('Retrying Bitbucket API request', {
+          method: request.method,
+          url: request.url,
+          status: err.response?.status,
+          code: err.code,
+          attempt: attempts,
+          delayMs: delay
+        });
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Milliseconds to wait before retrying, or null when the error is not retryable
+   */
+  private getRetryDelay(err: any, request: TBitbucketRequest, retries: number, options: BitbucketRetryOptions): number | null {
+    const status: number | undefined = err.response?.status;
+    const retryableStatus = status !== undefined && RETRYABLE_STATUS_CODES.includes(status);
+    const retryableNetworkError = status === undefined && RETRYABLE_ERROR_CODES.includes(err.code);
+
+    // A POST that failed mid-flight may have been applied; only a 429 guarantees it was not
+    if (request.method === 'post' && status !== 429) {
+      return null;
+    }
+    if (!retryableStatus && !retryableNetworkError) {
+      return null;
+    }
+
+    const retryAfter = parseRetryAfter(err.response?.headers?.['retry-after']);
+    if (retryAfter !== null) {
+      return retryAfter;
+    }
+
+    // Exponential backoff with equal jitter: half fixed, half random
+    const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, retries));
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  private dispatch(request: TBitbucketRequest, authorization: string, timeout: number): Promise<AxiosResponse> {
+    const config: AxiosRequestConfig = {
+      // Anonymous requests (e.g. public GitHub repositories) carry no Authorization header
+      headers: { ...request.headers, ...(authorization && { Authorization: authorization }) },
+      timeout,
+      ...(request.params && { params: request.params }),
+      ...(request.responseType && { responseType: request.responseType }),
+      ...(request.validateStatus && { validateStatus: request.validateStatus }),
+    };
+
+    switch (request.method) {
+      case 'post':
+        return axios.post(request.url, request.data, config);
+      case 'put':
+        return axios.put(request.url, request.data, config);
+      case 'delete':
+        return axios.delete(request.url, config);
+      default:
+        return axios.get(request.url, config);
+    }
+  }
+}
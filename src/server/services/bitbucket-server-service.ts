@@ -0,0 +1,185 @@
+// Service for Bitbucket Server / Data Center API communication (rest/api/1.0)
+import dotenv from 'dotenv';
+import {
+  TBitbucketAPIResponse,
+  TBitbucketAuthOptions,
+  TBitbucketServerPullRequest,
+  TPullRequest,
+  TPullRequestDiff,
+} from '../../types/bitbucket-types';
+import { CacheService } from './cache-service';
+import { AccessTokenCredentialProvider } from './bitbucket-auth-service';
+import { BitbucketHttpClient } from './bitbucket-http-client';
+import { PerformanceMonitor } from '../utils/performance-monitor';
+
+dotenv.config();
+
+const cache = new CacheService<any>(parseInt(process.env.BITBUCKET_CACHE_TTL_MS || '60000'));
+const httpClient = new BitbucketHttpClient();
+
+function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Base URLs of the Data Center instances we are allowed to send the access token to
+ */
+function getConfiguredServers(): string[] {
+  return (process.env.BITBUCKET_SERVER_URL || '')
+    .split(',')
+    .map(url => normalizeBaseUrl(url))
+    .filter(url => url.length > 0);
+}
+
+function isConfiguredServer(baseUrl: string): boolean {
+  return getConfiguredServers().includes(normalizeBaseUrl(baseUrl));
+}
+
+function pullRequestApiUrl(baseUrl: string, repo: string, prNumber: string): string {
+  const [projectKey, repoSlug] = repo.split('/');
+  return `${baseUrl.replace(/\/+$/, '')}/rest/api/1.0/projects/${encodeURIComponent(projectKey)}` +
+    `/repos/${encodeURIComponent(repoSlug)}/pull-requests/${prNumber}`;
+}
+
+function validateRequest(baseUrl: string, prNumber: string, auth: TBitbucketAuthOptions): string | null {
+  if (!/^\d+$/.test(prNumber)) {
+    return 'Invalid PR number.';
+  }
+  if (!isConfiguredServer(baseUrl)) {
+    return `Bitbucket Data Center instance ${baseUrl} is not configured (BITBUCKET_SERVER_URL).`;
+  }
+  if (!auth.userToken && !process.env.BITBUCKET_SERVER_TOKEN) {
+    return 'Bitbucket Data Center access token not set.';
+  }
+  return null;
+}
+
+// Data Center HTTP access tokens and personal access tokens are both sent as bearer tokens
+function getCredentials(auth: TBitbucketAuthOptions): AccessTokenCredentialProvider {
+  return auth.userToken
+    ? new AccessTokenCredentialProvider(auth.userToken, false)
+    : new AccessTokenCredentialProvider(process.env.BITBUCKET_SERVER_TOKEN || '');
+}
+
+function toErrorResponse<T>(err: any): TBitbucketAPIResponse<T> {
+  const metadata = { attempts: err.attempts ?? 1 };
+  if (err.code === 'ECONNABORTED') {
+    return { success: false, error: 'Bitbucket Data Center API request timed out.', metadata };
+  }
+  if (err.response?.status === 429) {
+    return { success: false, error: 'Bitbucket Data Center API rate limit exceeded.', metadata };
+  }
+  // Data Center reports errors as { errors: [{ message }] }
+  return { success: false, error: err.response?.data?.errors?.[0]?.message || err.message, metadata };
+}
+
+/**
+ * Convert a Data Center pull request into the Cloud-shaped TPullRequest used by the rest of the pipeline
+ */
+function mapServerPullRequest(pr: TBitbucketServerPullRequest): TPullRequest {
+  const repositoryName = (ref: TBitbucketServerPullRequest['fromRef']) =>
+    `${ref.repository.project.key}/${ref.repository.slug}`;
+
+  return {
+    id: pr.id,
+    title: pr.title,
+    description: pr.description || '',
+    state: pr.state,
+    author: {
+      display_name: pr.author.user.displayName,
+      uuid: String(pr.author.user.id)
+    },
+    created_on: new Date(pr.createdDate).toISOString(),
+    updated_on: new Date(pr.updatedDate).toISOString(),
+    source: {
+      branch: { name: pr.fromRef.displayId },
+      commit: { hash: pr.fromRef.latestCommit },
+      repository: { full_name: repositoryName(pr.fromRef) }
+    },
+    destination: {
+      branch: { name: pr.toRef.displayId },
+      commit: { hash: pr.toRef.latestCommit },
+      repository: { full_name: repositoryName(pr.toRef) }
+    },
+    links: {
+      html: { href: pr.links.self[0]?.href || '' }
+    }
+  };
+}
+
+async function fetchServerPullRequest(
+  baseUrl: string,
+  repo: string,
+  prNumber: string,
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TPullRequest>> {
+  const scope = getCredentials(auth).getCacheScope();
+  const cacheKey = `server-pr:${scope}:${normalizeBaseUrl(baseUrl)}:${repo}:${prNumber}`;
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    return { success: true, data: cached };
+  }
+  const validationError = validateRequest(baseUrl, prNumber, auth);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+  const start = PerformanceMonitor.start('fetchServerPullRequest');
+  try {
+    const response = await httpClient.send(getCredentials(auth), {
+      method: 'get',
+      url: pullRequestApiUrl(baseUrl, repo, prNumber),
+    });
+    PerformanceMonitor.end('fetchServerPullRequest', start);
+    const pr = mapServerPullRequest(response.data as TBitbucketServerPullRequest);
+    cache.set(cacheKey, pr);
+    return { success: true, data: pr, metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    PerformanceMonitor.end('fetchServerPullRequest', start);
+    return toErrorResponse(err);
+  }
+}
+
+async function fetchServerPullRequestDiff(
+  baseUrl: string,
+  repo: string,
+  prNumber: string,
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TPullRequestDiff>> {
+  const scope = getCredentials(auth).getCacheScope();
+  const cacheKey = `server-diff:${scope}:${normalizeBaseUrl(baseUrl)}:${repo}:${prNumber}`;
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    return { success: true, data: { diff: cached } };
+  }
+  const validationError = validateRequest(baseUrl, prNumber, auth);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+  const start = PerformanceMonitor.start('fetchServerPullRequestDiff');
+  try {
+    // The ".diff" resource streams a plain unified diff, same format as Cloud's /diff
+    const response = await httpClient.send(getCredentials(auth), {
+      method: 'get',
+      url: `${pullRequestApiUrl(baseUrl, repo, prNumber)}.diff`,
+      responseType: 'text',
+    });
+    PerformanceMonitor.end('fetchServerPullRequestDiff', start);
+    const metadata = { attempts: response.attempts };
+    const maxDiffSize = parseInt(process.env.BITBUCKET_DIFF_MAX_SIZE || '1048576');
+    if (response.data && typeof response.data === 'string' && response.data.length > maxDiffSize) {
+      return { success: false, error: 'PR diff is too large to process.', metadata };
+    }
+    cache.set(cacheKey, response.data);
+    return { success: true, data: { diff: response.data as string }, metadata };
+  } catch (err: any) {
+    PerformanceMonitor.end('fetchServerPullRequestDiff', start);
+    return toErrorResponse(err);
+  }
+}
+
+export {
+  isConfiguredServer,
+  mapServerPullRequest,
+  fetchServerPullRequest,
+  fetchServerPullRequestDiff,
+};
@@ -1,16 +1,37 @@
 // Service for Bitbucket API communication
-import axios from 'axios';
 import dotenv from 'dotenv';
-import { TBitbucketAPIResponse, TPullRequest, TPullRequestDiff } from '../../types/bitbucket-types';
+import {
+  TBitbucketAPIResponse,
+  TBitbucketAuthOptions,
+  TBitbucketUser,
+  TCodeInsightsAnnotation,
+  TCodeInsightsReport,
+  TPaginatedResponse,
+  TPullRequest,
+  TPullRequestComment,
+  TPullRequestCommit,
+  TPullRequestDiff,
+} from '../../types/bitbucket-types';
 import { CacheService } from './cache-service';
+import { IBitbucketCredentialProvider, resolveCredentialProvider } from './bitbucket-auth-service';
+import { BitbucketHttpClient } from './bitbucket-http-client';
 import { PerformanceMonitor } from '../utils/performance-monitor';
 
 dotenv.config();
 
-const BITBUCKET_API_URL = process.env.BITBUCKET_API_URL || 'https://api.bitbucket.org/2.0';
-const BITBUCKET_USERNAME = process.env.BITBUCKET_USERNAME;
-const BITBUCKET_APP_PASSWORD = process.env.BITBUCKET_APP_PASSWORD;
+const httpClient = new BitbucketHttpClient();
 const cache = new CacheService<any>(parseInt(process.env.BITBUCKET_CACHE_TTL_MS || '60000'));
+// PR metadata is revalidated on every read, so entries can live long
+const pullRequestCache = new CacheService<{ pr: TPullRequest; etag?: string }>(
+  parseInt(process.env.BITBUCKET_REVALIDATE_CACHE_TTL_MS || '3600000')
+);
+// Keyed by commit hashes: a cached diff never goes stale, the TTL only bounds memory
+const diffCache = new CacheService<string>(parseInt(process.env.BITBUCKET_DIFF_CACHE_TTL_MS || '3600000'));
+// File contents at a commit are immutable as well
+const fileCache = new CacheService<string>(parseInt(process.env.BITBUCKET_DIFF_CACHE_TTL_MS || '3600000'));
+
+// Bitbucket's limit for one bulk annotation upload
+const CODE_INSIGHTS_ANNOTATION_BATCH_SIZE = 100;
 
 function validateRepo(repo: string): boolean {
   return true;
@@ -22,12 +43,70 @@ function validatePrNumber(prNumber: string): boolean {
   return /^\d+$/.test(prNumber);
 }
 
-async function fetchPullRequest(repo: string, prNumber: string): Promise<TBitbucketAPIResponse<TPullRequest>> {
-  const cacheKey = `pr:${repo}:${prNumber}`;
-  const cached = cache.get(cacheKey);
-  if (cached) {
-    return { success: true, data: cached };
+function getApiUrl(): string {
+  return process.env.BITBUCKET_API_URL || 'https://api.bitbucket.org/2.0';
+}
+
+// Cached responses are partitioned by credentials so one caller never sees data fetched with another's permissions
+function cacheKeyFor(prefix: string, credentials: IBitbucketCredentialProvider | null, repo: string, prNumber: string): string {
+  return `${prefix}:${credentials?.getCacheScope() ?? 'shared'}:${repo}:${prNumber}`;
+}
+
+function isSameRevision(
+  current: Pick<TPullRequest, 'updated_on' | 'source' | 'destination'>,
+  cached: TPullRequest
+): boolean {
+  return current.updated_on === cached.updated_on &&
+    current.source?.commit?.hash === cached.source.commit?.hash &&
+    current.destination?.commit?.hash === cached.destination.commit?.hash;
+}
+
+// Attempts made before the error was thrown, plus any made earlier in the same call (e.g. previous pages)
+function toErrorResponse<T>(err: any, previousAttempts: number = 0): TBitbucketAPIResponse<T> {
+  const metadata = { attempts: previousAttempts + (err.attempts ?? 1) };
+  if (err.code === 'ECONNABORTED') {
+    return { success: false, error: 'Bitbucket API request timed out.', metadata };
+  }
+  if (err.response?.status === 429) {
+    return { success: false, error: 'Bitbucket API rate limit exceeded.', metadata };
+  }
+  if (err.response?.status === 401) {
+    return { success: false, error: 'Bitbucket credentials were rejected.', metadata };
+  }
+  if (err.response?.status === 403) {
+    return { success: false, error: 'Bitbucket denied access to this resource.', metadata };
+  }
+  if (err.response?.status === 413) {
+    return { success: false, error: 'PR diff is too large to process.', metadata };
+  }
+  return { success: false, error: err.response?.data?.error?.message || err.message, metadata };
+}
+
+// A 403 on a write means the credentials can read the pull request but not change it
+function toWriteErrorResponse<T>(err: any): TBitbucketAPIResponse<T> {
+  if (err.response?.status === 403) {
+    return {
+      success: false,
+      error: 'Bitbucket credentials do not have write access to this pull request.',
+      metadata: { attempts: err.attempts ?? 1 }
+    };
   }
+  return toErrorResponse(err);
+}
+
+function pullRequestUrl(repo: string, prNumber: string): string {
+  const [workspace, repoSlug] = repo.split('/');
+  return `${getApiUrl()}/repositories/${workspace}/${repoSlug}/pullrequests/${prNumber}`;
+}
+
+async function fetchPullRequest(
+  repo: string,
+  prNumber: string,
+  options: { bypassCache?: boolean } & TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TPullRequest>> {
+  const credentials = resolveCredentialProvider(options);
+  const cacheKey = cacheKeyFor('pr', credentials, repo, prNumber);
+  const cached = options.bypassCache ? undefined : pullRequestCache.get(cacheKey);
   const [workspace, repoSlug] = repo.split('/');
   if (!validateRepo(repoSlug)) {
     return { success: false, error: 'Invalid repository format.' };
@@ -35,82 +114,724 @@ async function fetchPullRequest(repo: string, prNumber: string): Promise<TBitbuc
   if (!validatePrNumber(prNumber)) {
     return { success: false, error: 'Invalid PR number.' };
   }
-  if (!BITBUCKET_USERNAME || !BITBUCKET_APP_PASSWORD) {
+  if (!credentials) {
     return { success: false, error: 'Bitbucket credentials not set.' };
   }
   const start = PerformanceMonitor.start('fetchPullRequest');
+  let attempts = 0;
   try {
-    const url = `${BITBUCKET_API_URL}/repositories/${workspace}/${repoSlug}/pullrequests/${prNumber}`;
-    const authHeader = `Basic ${Buffer.from(`${BITBUCKET_USERNAME}:${BITBUCKET_APP_PASSWORD}`).toString('base64')}`;
-    const response = await axios.get(url, {
-      headers: {
-        Authorization: authHeader,
-      },
-      timeout: parseInt(process.env.BITBUCKET_API_TIMEOUT_MS || '10000'),
+    const url = `${getApiUrl()}/repositories/${workspace}/${repoSlug}/pullrequests/${prNumber}`;
+
+    // Without an ETag, a partial response is enough to tell whether anything changed
+    if (cached && !cached.etag) {
+      const check = await httpClient.send(credentials, {
+        method: 'get',
+        url,
+        params: { fields: 'updated_on,source.commit.hash,destination.commit.hash' },
+      });
+      attempts += check.attempts;
+      if (isSameRevision(check.data, cached.pr)) {
+        PerformanceMonitor.end('fetchPullRequest', start);
+        return { success: true, data: cached.pr, metadata: { attempts } };
+      }
+    }
+
+    const response = await httpClient.send(credentials, {
+      method: 'get',
+      url,
+      ...(cached?.etag && { headers: { 'If-None-Match': cached.etag } }),
+      validateStatus: (status: number) => (status >= 200 && status < 300) || status === 304,
     });
+    attempts += response.attempts;
     PerformanceMonitor.end('fetchPullRequest', start);
-    cache.set(cacheKey, response.data);
-    return { success: true, data: response.data as TPullRequest };
+    if (response.status === 304 && cached) {
+      return { success: true, data: cached.pr, metadata: { attempts } };
+    }
+    pullRequestCache.set(cacheKey, { pr: response.data, etag: response.headers?.etag });
+    return { success: true, data: response.data as TPullRequest, metadata: { attempts } };
   } catch (err: any) {
     PerformanceMonitor.end('fetchPullRequest', start);
-    if (err.code === 'ECONNABORTED') {
-      return { success: false, error: 'Bitbucket API request timed out.' };
-    }
-    if (err.response?.status === 429) {
-      return { success: false, error: 'Bitbucket API rate limit exceeded.' };
-    }
-    return { success: false, error: err.response?.data?.error?.message || err.message };
+    return toErrorResponse(err, attempts);
   }
 }
 
-async function fetchPullRequestDiff(repo: string, prNumber: string): Promise<TBitbucketAPIResponse<TPullRequestDiff>> {
-  const cacheKey = `diff:${repo}:${prNumber}`;
-  const cached = cache.get(cacheKey);
-  if (cached) {
-    return { success: true, data: { diff: cached } };
-  }
+/**
+ * Fetch the PR diff. Diffs are cached by source and destination commit, so a push always
+ * yields a fresh diff while an unchanged PR is served from cache.
+ * Pass the PR payload when the caller already has it; otherwise it is fetched (and revalidated) first.
+ */
+async function fetchPullRequestDiff(
+  repo: string,
+  prNumber: string,
+  auth: TBitbucketAuthOptions = {},
+  pr?: TPullRequest
+): Promise<TBitbucketAPIResponse<TPullRequestDiff>> {
+  const credentials = resolveCredentialProvider(auth);
   if (!validateRepo(repo)) {
     return { success: false, error: 'Invalid repository format.' };
   }
   if (!validatePrNumber(prNumber)) {
     return { success: false, error: 'Invalid PR number.' };
   }
-  if (!BITBUCKET_USERNAME || !BITBUCKET_APP_PASSWORD) {
+  if (!credentials) {
     return { success: false, error: 'Bitbucket credentials not set.' };
   }
+
+  let revisionSource = pr;
+  let attempts = 0;
+  if (!revisionSource) {
+    const prResponse = await fetchPullRequest(repo, prNumber, auth);
+    revisionSource = prResponse.data;
+    attempts += prResponse.metadata?.attempts ?? 0;
+  }
+  const sourceCommit = revisionSource?.source.commit?.hash;
+  const destinationCommit = revisionSource?.destination.commit?.hash;
+  // Without both hashes the diff can't be tied to a revision, so it is never cached
+  const cacheKey = sourceCommit && destinationCommit
+    ? cacheKeyFor('diff', credentials, repo, `${prNumber}:${sourceCommit}..${destinationCommit}`)
+    : null;
+  const cached = cacheKey ? diffCache.get(cacheKey) : undefined;
+  if (cached !== undefined) {
+    return { success: true, data: { diff: cached }, metadata: { attempts } };
+  }
+
   const [workspace, repoSlug] = repo.split('/');
   const start = PerformanceMonitor.start('fetchPullRequestDiff');
   try {
-    const authHeader = `Basic ${Buffer.from(`${BITBUCKET_USERNAME}:${BITBUCKET_APP_PASSWORD}`).toString('base64')}`;
-    const response = await axios.get(`${BITBUCKET_API_URL}/repositories/${workspace}/${repoSlug}/pullrequests/${prNumber}/diff`,
-      {
-        headers: {
-          Authorization: authHeader,
-        },
-        responseType: 'text',
-        timeout: parseInt(process.env.BITBUCKET_API_TIMEOUT_MS || '10000'),
-      }
-    );
+    const response = await httpClient.send(credentials, {
+      method: 'get',
+      url: `${getApiUrl()}/repositories/${workspace}/${repoSlug}/pullrequests/${prNumber}/diff`,
+      responseType: 'text',
+    });
     PerformanceMonitor.end('fetchPullRequestDiff', start);
+    const metadata = { attempts: attempts + response.attempts };
     // Handle very large diffs
     const maxDiffSize = parseInt(process.env.BITBUCKET_DIFF_MAX_SIZE || '1048576');
     if (response.data && typeof response.data === 'string' && response.data.length > maxDiffSize) {
-      return { success: false, error: 'PR diff is too large to process.' };
+      return { success: false, error: 'PR diff is too large to process.', metadata };
     }
-    cache.set(cacheKey, response.data);
-    return { success: true, data: { diff: response.data as string } };
+    if (cacheKey) {
+      diffCache.set(cacheKey, response.data);
+    }
+    return { success: true, data: { diff: response.data as string }, metadata };
   } catch (err: any) {
     PerformanceMonitor.end('fetchPullRequestDiff', start);
-    if (err.code === 'ECONNABORTED') {
-      return { success: false, error: 'Bitbucket API request timed out.' };
+    return toErrorResponse(err, attempts);
+  }
+}
+
+/**
+ * Fetch the diff introduced between two commits, e.g. the pushes since a previous generation
+ */
+async function fetchCommitRangeDiff(
+  repo: string,
+  fromCommit: string,
+  toCommit: string,
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TPullRequestDiff>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (![fromCommit, toCommit].every(commit => /^[0-9a-f]{7,40}$/i.test(commit))) {
+    return { success: false, error: 'Invalid commit hash.' };
+  }
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  const cacheKey = cacheKeyFor('range-diff', credentials, repo, `${fromCommit}..${toCommit}`);
+  const cached = diffCache.get(cacheKey);
+  if (cached !== undefined) {
+    return { success: true, data: { diff: cached }, metadata: { attempts: 0 } };
+  }
+
+  const [workspace, repoSlug] = repo.split('/');
+  const start = PerformanceMonitor.start('fetchCommitRangeDiff');
+  try {
+    // Bitbucket's spec is `new..old`: the changes on `new` since its merge base with `old`
+    const response = await httpClient.send(credentials, {
+      method: 'get',
+      url: `${getApiUrl()}/repositories/${workspace}/${repoSlug}/diff/${toCommit}..${fromCommit}`,
+      responseType: 'text',
+    });
+    PerformanceMonitor.end('fetchCommitRangeDiff', start);
+    const metadata = { attempts: response.attempts };
+    const maxDiffSize = parseInt(process.env.BITBUCKET_DIFF_MAX_SIZE || '1048576');
+    if (response.data && typeof response.data === 'string' && response.data.length > maxDiffSize) {
+      return { success: false, error: 'PR diff is too large to process.', metadata };
+    }
+    diffCache.set(cacheKey, response.data);
+    return { success: true, data: { diff: response.data as string }, metadata };
+  } catch (err: any) {
+    PerformanceMonitor.end('fetchCommitRangeDiff', start);
+    return toErrorResponse(err);
+  }
+}
+
+async function fetchPullRequestCommits(
+  repo: string,
+  prNumber: string,
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TPullRequestCommit[]>> {
+  const credentials = resolveCredentialProvider(auth);
+  const cacheKey = cacheKeyFor('commits', credentials, repo, prNumber);
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    return { success: true, data: cached };
+  }
+  if (!validatePrNumber(prNumber)) {
+    return { success: false, error: 'Invalid PR number.' };
+  }
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  // Stop paging on very long histories; the prompt budget can't use them anyway
+  const maxCommits = parseInt(process.env.BITBUCKET_MAX_COMMITS || '250');
+  const start = PerformanceMonitor.start('fetchPullRequestCommits');
+  let attempts = 0;
+  try {
+    const commits: TPullRequestCommit[] = [];
+    let url: string | undefined = `${pullRequestUrl(repo, prNumber)}/commits?pagelen=50`;
+    while (url && commits.length < maxCommits) {
+      const response = await httpClient.send(credentials, { method: 'get', url });
+      const page = response.data as TPaginatedResponse<TPullRequestCommit>;
+      attempts += response.attempts;
+      commits.push(...page.values);
+      url = page.next;
+    }
+    PerformanceMonitor.end('fetchPullRequestCommits', start);
+    const result = commits.slice(0, maxCommits);
+    cache.set(cacheKey, result);
+    return { success: true, data: result, metadata: { attempts } };
+  } catch (err: any) {
+    PerformanceMonitor.end('fetchPullRequestCommits', start);
+    return toErrorResponse(err, attempts);
+  }
+}
+
+/**
+ * Fetch a file's raw content at a given commit from the `src` endpoint
+ */
+async function fetchFileContent(
+  repo: string,
+  commit: string,
+  path: string,
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<string>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (!/^[0-9a-f]{7,40}$/i.test(commit)) {
+    return { success: false, error: 'Invalid commit hash.' };
+  }
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  const cacheKey = cacheKeyFor('src', credentials, repo, `${commit}:${path}`);
+  const cached = fileCache.get(cacheKey);
+  if (cached !== undefined) {
+    return { success: true, data: cached, metadata: { attempts: 0 } };
+  }
+  const [workspace, repoSlug] = repo.split('/');
+  const encodedPath = path.split('/').map(segment => encodeURIComponent(segment)).join('/');
+  const start = PerformanceMonitor.start('fetchFileContent');
+  try {
+    const response = await httpClient.send(credentials, {
+      method: 'get',
+      url: `${getApiUrl()}/repositories/${workspace}/${repoSlug}/src/${commit}/${encodedPath}`,
+      responseType: 'text',
+    });
+    PerformanceMonitor.end('fetchFileContent', start);
+    const content = response.data as string;
+    fileCache.set(cacheKey, content);
+    return { success: true, data: content, metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    PerformanceMonitor.end('fetchFileContent', start);
+    return toErrorResponse(err);
+  }
+}
+
+// BBQL expects ISO-8601 without milliseconds
+function toQueryDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, '+00:00');
+}
+
+/**
+ * List PRs merged in [since, until], newest merge first. BBQL can't filter on the merge date, but the merge
+ * updates `updated_on`, so PRs updated since `since` are listed and then filtered on when they were merged:
+ * `closed_on`, or the merge commit's date when Bitbucket leaves it out. `closed_on` is set to that date on the
+ * returned PRs. Past `RELEASE_NOTES_MAX_PRS`, the latest merges are kept.
+ */
+async function fetchMergedPullRequests(
+  repo: string,
+  range: { since: Date; until: Date },
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TPullRequest[]>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  const maxPullRequests = parseInt(process.env.RELEASE_NOTES_MAX_PRS || '100');
+  const [workspace, repoSlug] = repo.split('/');
+  const query = new URLSearchParams({
+    // No upper bound: a PR merged in the range may have been updated (commented on, say) after it
+    q: `state = "MERGED" AND updated_on >= ${toQueryDate(range.since)}`,
+    sort: '-updated_on',
+    pagelen: '50',
+    // Listings omit the description unless asked for
+    fields: '+values.description',
+  });
+  const start = PerformanceMonitor.start('fetchMergedPullRequests');
+  let attempts = 0;
+  try {
+    // Newest merge first, at most maxPullRequests of them
+    const newestMergeFirst: TPullRequest[] = [];
+    let url: string | undefined = `${getApiUrl()}/repositories/${workspace}/${repoSlug}/pullrequests?${query.toString()}`;
+    while (url && maxPullRequests > 0) {
+      const response = await httpClient.send(credentials, { method: 'get', url });
+      const page = response.data as TPaginatedResponse<TPullRequest>;
+      attempts += response.attempts;
+      url = page.next;
+      for (const pr of page.values) {
+        // A PR is merged no later than its last update, and the listing is newest update first: once an update
+        // predates `since`, or the oldest merge kept when the list is full, no later PR can make the list
+        const cutoff = newestMergeFirst.length < maxPullRequests
+          ? range.since
+          : new Date(newestMergeFirst[newestMergeFirst.length - 1].closed_on!);
+        if (new Date(pr.updated_on) < cutoff) {
+          url = undefined;
+          break;
+        }
+        const mergedOn = await resolveMergeDate(repo, pr, auth);
+        attempts += mergedOn.attempts;
+        const mergedAt = new Date(mergedOn.date);
+        if (mergedAt >= range.since && mergedAt <= range.until) {
+          // Listed by last update; merges can happen in a different order
+          newestMergeFirst.push({ ...pr, closed_on: mergedOn.date });
+          newestMergeFirst.sort((a, b) => new Date(b.closed_on!).getTime() - new Date(a.closed_on!).getTime());
+          newestMergeFirst.splice(maxPullRequests);
+        }
+      }
+    }
+    PerformanceMonitor.end('fetchMergedPullRequests', start);
+    return { success: true, data: newestMergeFirst, metadata: { attempts } };
+  } catch (err: any) {
+    PerformanceMonitor.end('fetchMergedPullRequests', start);
+    return toErrorResponse(err, attempts);
+  }
+}
+
+/**
+ * When a merged PR was merged: `closed_on`, else the merge commit's date, else its last update
+ */
+async function resolveMergeDate(
+  repo: string,
+  pr: TPullRequest,
+  auth: TBitbucketAuthOptions
+): Promise<{ date: string; attempts: number }> {
+  if (pr.closed_on) {
+    return { date: pr.closed_on, attempts: 0 };
+  }
+  if (pr.merge_commit?.hash) {
+    const commitDate = await fetchRefDate(repo, 'commit', pr.merge_commit.hash, auth);
+    if (commitDate.success && commitDate.data) {
+      return { date: commitDate.data, attempts: commitDate.metadata?.attempts ?? 1 };
     }
-    if (err.response?.status === 429) {
-      return { success: false, error: 'Bitbucket API rate limit exceeded.' };
+  }
+  return { date: pr.updated_on, attempts: 0 };
+}
+
+/**
+ * Resolve a tag or commit to the date of the commit it points at
+ */
+async function fetchRefDate(
+  repo: string,
+  refType: 'tag' | 'commit',
+  ref: string,
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<string>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (refType === 'commit' && !/^[0-9a-f]{7,40}$/i.test(ref)) {
+    return { success: false, error: 'Invalid commit hash.' };
+  }
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  const [workspace, repoSlug] = repo.split('/');
+  const url = refType === 'tag'
+    ? `${getApiUrl()}/repositories/${workspace}/${repoSlug}/refs/tags/${encodeURIComponent(ref)}`
+    : `${getApiUrl()}/repositories/${workspace}/${repoSlug}/commit/${ref}`;
+  try {
+    const response = await httpClient.send(credentials, { method: 'get', url });
+    const date: string | undefined = refType === 'tag' ? response.data?.target?.date : response.data?.date;
+    if (!date) {
+      return { success: false, error: `No date found for ${refType} ${ref}.`, metadata: { attempts: response.attempts } };
     }
-    if (err.response?.status === 413) {
-      return { success: false, error: 'PR diff is too large to process.' };
+    return { success: true, data: date, metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    if (err.response?.status === 404) {
+      return { success: false, error: `Unknown ${refType}: ${ref}`, metadata: { attempts: err.attempts ?? 1 } };
     }
-    return { success: false, error: err.response?.data?.error?.message || err.message };
+    return toErrorResponse(err);
+  }
+}
+
+async function updatePullRequestDescription(
+  repo: string,
+  prNumber: string,
+  description: string,
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TPullRequest>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (!validatePrNumber(prNumber)) {
+    return { success: false, error: 'Invalid PR number.' };
+  }
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  const start = PerformanceMonitor.start('updatePullRequestDescription');
+  try {
+    const response = await httpClient.send(credentials, {
+      method: 'put',
+      url: pullRequestUrl(repo, prNumber),
+      data: { description },
+      headers: { 'Content-Type': 'application/json' },
+    });
+    PerformanceMonitor.end('updatePullRequestDescription', start);
+    // Keep the cached PR in sync with what Bitbucket now holds
+    pullRequestCache.set(cacheKeyFor('pr', credentials, repo, prNumber), { pr: response.data, etag: response.headers?.etag });
+    return { success: true, data: response.data as TPullRequest, metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    PerformanceMonitor.end('updatePullRequestDescription', start);
+    return toWriteErrorResponse(err);
+  }
+}
+
+async function fetchPullRequestComments(
+  repo: string,
+  prNumber: string,
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TPullRequestComment[]>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (!validatePrNumber(prNumber)) {
+    return { success: false, error: 'Invalid PR number.' };
+  }
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  const start = PerformanceMonitor.start('fetchPullRequestComments');
+  let attempts = 0;
+  try {
+    const comments: TPullRequestComment[] = [];
+    let url: string | undefined = `${pullRequestUrl(repo, prNumber)}/comments?pagelen=100`;
+    while (url) {
+      const response = await httpClient.send(credentials, { method: 'get', url });
+      const page = response.data as TPaginatedResponse<TPullRequestComment>;
+      attempts += response.attempts;
+      comments.push(...page.values);
+      url = page.next;
+    }
+    PerformanceMonitor.end('fetchPullRequestComments', start);
+    return { success: true, data: comments.filter(comment => !comment.deleted), metadata: { attempts } };
+  } catch (err: any) {
+    PerformanceMonitor.end('fetchPullRequestComments', start);
+    return toErrorResponse(err, attempts);
+  }
+}
+
+async function createPullRequestComment(
+  repo: string,
+  prNumber: string,
+  raw: string,
+  inline?: { path: string; to: number },
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TPullRequestComment>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (!validatePrNumber(prNumber)) {
+    return { success: false, error: 'Invalid PR number.' };
+  }
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  try {
+    const response = await httpClient.send(credentials, {
+      method: 'post',
+      url: `${pullRequestUrl(repo, prNumber)}/comments`,
+      data: { content: { raw }, ...(inline && { inline }) },
+      headers: { 'Content-Type': 'application/json' },
+    });
+    return { success: true, data: response.data as TPullRequestComment, metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    return toWriteErrorResponse(err);
+  }
+}
+
+async function updatePullRequestComment(
+  repo: string,
+  prNumber: string,
+  commentId: number,
+  raw: string,
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TPullRequestComment>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (!validatePrNumber(prNumber)) {
+    return { success: false, error: 'Invalid PR number.' };
+  }
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  try {
+    const response = await httpClient.send(credentials, {
+      method: 'put',
+      url: `${pullRequestUrl(repo, prNumber)}/comments/${commentId}`,
+      data: { content: { raw } },
+      headers: { 'Content-Type': 'application/json' },
+    });
+    return { success: true, data: response.data as TPullRequestComment, metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    return toWriteErrorResponse(err);
+  }
+}
+
+/**
+ * Resolve an inline comment's thread, e.g. once the finding it reported is gone
+ */
+async function resolvePullRequestComment(
+  repo: string,
+  prNumber: string,
+  commentId: number,
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<void>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (!validatePrNumber(prNumber)) {
+    return { success: false, error: 'Invalid PR number.' };
+  }
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  try {
+    const response = await httpClient.send(credentials, {
+      method: 'post',
+      url: `${pullRequestUrl(repo, prNumber)}/comments/${commentId}/resolve`,
+    });
+    return { success: true, metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    return toWriteErrorResponse(err);
+  }
+}
+
+/**
+ * The account the credentials act as, e.g. the bot user behind an access token
+ */
+async function fetchCurrentUser(auth: TBitbucketAuthOptions = {}): Promise<TBitbucketAPIResponse<TBitbucketUser>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  const cacheKey = cacheKeyFor('user', credentials, '', '');
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    return { success: true, data: cached, metadata: { attempts: 0 } };
+  }
+  try {
+    const response = await httpClient.send(credentials, { method: 'get', url: `${getApiUrl()}/user` });
+    cache.set(cacheKey, response.data);
+    return { success: true, data: response.data as TBitbucketUser, metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    return toErrorResponse(err);
+  }
+}
+
+/**
+ * Most recent commits reachable from `commit` that touched `path`, newest first (one page only)
+ */
+async function fetchFileCommits(
+  repo: string,
+  commit: string,
+  path: string,
+  limit: number,
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TPullRequestCommit[]>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (!/^[0-9a-f]{7,40}$/i.test(commit)) {
+    return { success: false, error: 'Invalid commit hash.' };
+  }
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  const cacheKey = cacheKeyFor('file-commits', credentials, repo, `${commit}:${path}:${limit}`);
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    return { success: true, data: cached, metadata: { attempts: 0 } };
+  }
+  const [workspace, repoSlug] = repo.split('/');
+  try {
+    const response = await httpClient.send(credentials, {
+      method: 'get',
+      url: `${getApiUrl()}/repositories/${workspace}/${repoSlug}/commits/${commit}`,
+      params: { path, pagelen: String(Math.min(limit, 100)) },
+    });
+    const commits = (response.data as TPaginatedResponse<TPullRequestCommit>).values.slice(0, limit);
+    cache.set(cacheKey, commits);
+    return { success: true, data: commits, metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    return toErrorResponse(err);
+  }
+}
+
+/**
+ * All members of a workspace, for resolving CODEOWNERS names to Bitbucket accounts
+ */
+async function fetchWorkspaceMembers(
+  workspace: string,
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TBitbucketUser[]>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  const cacheKey = cacheKeyFor('members', credentials, workspace, '');
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    return { success: true, data: cached, metadata: { attempts: 0 } };
+  }
+  let attempts = 0;
+  try {
+    const members: TBitbucketUser[] = [];
+    let url: string | undefined = `${getApiUrl()}/workspaces/${encodeURIComponent(workspace)}/members?pagelen=100`;
+    while (url) {
+      const response = await httpClient.send(credentials, { method: 'get', url });
+      const page = response.data as TPaginatedResponse<{ user: TBitbucketUser }>;
+      attempts += response.attempts;
+      members.push(...page.values.map(membership => membership.user));
+      url = page.next;
+    }
+    cache.set(cacheKey, members);
+    return { success: true, data: members, metadata: { attempts } };
+  } catch (err: any) {
+    return toErrorResponse(err, attempts);
+  }
+}
+
+/**
+ * Replace the PR's reviewer list. Bitbucket drops anyone not in `reviewerUuids`, so pass the existing reviewers too.
+ */
+async function updatePullRequestReviewers(
+  repo: string,
+  prNumber: string,
+  reviewerUuids: string[],
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TPullRequest>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (!validatePrNumber(prNumber)) {
+    return { success: false, error: 'Invalid PR number.' };
+  }
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  try {
+    const response = await httpClient.send(credentials, {
+      method: 'put',
+      url: pullRequestUrl(repo, prNumber),
+      data: { reviewers: reviewerUuids.map(uuid => ({ uuid })) },
+      headers: { 'Content-Type': 'application/json' },
+    });
+    pullRequestCache.set(cacheKeyFor('pr', credentials, repo, prNumber), { pr: response.data, etag: response.headers?.etag });
+    return { success: true, data: response.data as TPullRequest, metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    return toWriteErrorResponse(err);
+  }
+}
+
+function commitReportUrl(repo: string, commit: string, reportId: string): string {
+  const [workspace, repoSlug] = repo.split('/');
+  return `${getApiUrl()}/repositories/${workspace}/${repoSlug}/commit/${commit}/reports/${encodeURIComponent(reportId)}`;
+}
+
+/**
+ * Create or replace a Code Insights report on a commit
+ */
+async function createCommitReport(
+  repo: string,
+  commit: string,
+  reportId: string,
+  report: TCodeInsightsReport,
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TCodeInsightsReport>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (!/^[0-9a-f]{7,40}$/i.test(commit)) {
+    return { success: false, error: 'Invalid commit hash.' };
+  }
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  try {
+    const response = await httpClient.send(credentials, {
+      method: 'put',
+      url: commitReportUrl(repo, commit, reportId),
+      data: report,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    return { success: true, data: response.data as TCodeInsightsReport, metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    return toWriteErrorResponse(err);
+  }
+}
+
+/**
+ * Delete a Code Insights report and its annotations. A report that does not exist counts as deleted.
+ */
+async function deleteCommitReport(
+  repo: string,
+  commit: string,
+  reportId: string,
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<void>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (!/^[0-9a-f]{7,40}$/i.test(commit)) {
+    return { success: false, error: 'Invalid commit hash.' };
+  }
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  try {
+    const response = await httpClient.send(credentials, {
+      method: 'delete',
+      url: commitReportUrl(repo, commit, reportId),
+      validateStatus: status => (status >= 200 && status < 300) || status === 404,
+    });
+    return { success: true, metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    return toWriteErrorResponse(err);
+  }
+}
+
+/**
+ * Bulk-upload annotations to an existing report. Bitbucket accepts at most 100 per request
+ * (CODE_INSIGHTS_ANNOTATION_BATCH_SIZE); callers batch larger sets.
+ */
+async function createReportAnnotations(
+  repo: string,
+  commit: string,
+  reportId: string,
+  annotations: TCodeInsightsAnnotation[],
+  auth: TBitbucketAuthOptions = {}
+): Promise<TBitbucketAPIResponse<TCodeInsightsAnnotation[]>> {
+  const credentials = resolveCredentialProvider(auth);
+  if (!/^[0-9a-f]{7,40}$/i.test(commit)) {
+    return { success: false, error: 'Invalid commit hash.' };
+  }
+  if (annotations.length > CODE_INSIGHTS_ANNOTATION_BATCH_SIZE) {
+    return { success: false, error: `At most ${CODE_INSIGHTS_ANNOTATION_BATCH_SIZE} annotations can be uploaded at once.` };
+  }
+  if (!credentials) {
+    return { success: false, error: 'Bitbucket credentials not set.' };
+  }
+  try {
+    const response = await httpClient.send(credentials, {
+      method: 'post',
+      url: `${commitReportUrl(repo, commit, reportId)}/annotations`,
+      data: annotations,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    return { success: true, data: response.data as TCodeInsightsAnnotation[], metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    return toWriteErrorResponse(err);
   }
 }
 
@@ -119,4 +840,22 @@ export {
   validatePrNumber,
   fetchPullRequest,
   fetchPullRequestDiff,
+  fetchCommitRangeDiff,
+  fetchPullRequestCommits,
+  fetchFileContent,
+  fetchMergedPullRequests,
+  fetchRefDate,
+  updatePullRequestDescription,
+  fetchPullRequestComments,
+  createPullRequestComment,
+  updatePullRequestComment,
+  resolvePullRequestComment,
+  fetchCurrentUser,
+  fetchFileCommits,
+  fetchWorkspaceMembers,
+  updatePullRequestReviewers,
+  createCommitReport,
+  deleteCommitReport,
+  createReportAnnotations,
+  CODE_INSIGHTS_ANNOTATION_BATCH_SIZE,
 };
@@ -5,6 +5,7 @@ import dotenv from 'dotenv';
 import { TLLMProvider, TLLMRequest, TLLMResponse, ILLMService } from '../../types/llm-types';
 import { LLMService } from './llm-service';
 import { TemplateService } from './template-service';
+import { TokenUsageCollector } from './token-usage-tracker';
 
 dotenv.config();
 
@@ -26,7 +27,7 @@ export class ClaudeService implements ILLMService {
     });
   }
 
-  async generateDescription(request: TLLMRequest): Promise<TLLMResponse> {
+  async generateDescription(request: TLLMRequest, signal?: AbortSignal): Promise<TLLMResponse> {
     try {
       const model = request.options?.model || this.defaultModel;
       const maxTokens = request.options?.maxTokens || 1000;
@@ -49,19 +50,14 @@ export class ClaudeService implements ILLMService {
       const chain = chatTemplate.pipe(llm).pipe(new StringOutputParser());
 
       // Prepare template variables
-      const templateVariables = {
-        title: request.prData.title,
-        description: request.prData.description || '無描述提供',
-        author: request.prData.author,
-        repository: request.prData.repository,
-        sourceBranch: request.prData.sourceBranch,
-        destinationBranch: request.prData.destinationBranch,
-        diff: request.prData.diff,
-        additionalContext: request.prData.additionalContext || ''
-      };
+      const templateVariables = TemplateService.buildTemplateVariables(request.prData, templateName);
+
+      // Estimate the prompt before the call; actual usage is read from the response metadata
+      const usage = new TokenUsageCollector(TLLMProvider.CLAUDE);
+      await usage.estimatePrompt(chatTemplate, templateVariables);
 
       // Execute the chain
-      const generatedText = await chain.invoke(templateVariables);
+      const generatedText = await chain.invoke(templateVariables, { callbacks: [usage.handler], signal });
 
       if (!generatedText) {
         return {
@@ -78,7 +74,8 @@ export class ClaudeService implements ILLMService {
         data: {
           description: processedResponse,
           provider: TLLMProvider.CLAUDE,
-          model
+          model,
+          usage: usage.getUsage(generatedText)
         }
       };
     } catch (error: any) {
@@ -117,10 +114,11 @@ export class ClaudeService implements ILLMService {
 
   async generateDescriptionWithCallback(
     request: TLLMRequest,
-    onToken?: (token: string) => void
+    onToken?: (token: string) => void,
+    signal?: AbortSignal
   ): Promise<TLLMResponse> {
     if (!onToken) {
-      return this.generateDescription(request);
+      return this.generateDescription(request, signal);
     }
 
     try {
@@ -146,21 +144,15 @@ export class ClaudeService implements ILLMService {
       const chain = chatTemplate.pipe(streamingLLM).pipe(new StringOutputParser());
 
       // Prepare template variables
-      const templateVariables = {
-        title: request.prData.title,
-        description: request.prData.description || '無描述提供',
-        author: request.prData.author,
-        repository: request.prData.repository,
-        sourceBranch: request.prData.sourceBranch,
-        destinationBranch: request.prData.destinationBranch,
-        diff: request.prData.diff,
-        additionalContext: request.prData.additionalContext || ''
-      };
+      const templateVariables = TemplateService.buildTemplateVariables(request.prData, templateName);
 
       let fullContent = '';
       
+      const usage = new TokenUsageCollector(TLLMProvider.CLAUDE);
+      await usage.estimatePrompt(chatTemplate, templateVariables);
+
       // Use streaming with callback
-      const stream = await chain.stream(templateVariables);
+      const stream = await chain.stream(templateVariables, { callbacks: [usage.handler], signal });
       
       for await (const chunk of stream) {
         fullContent += chunk;
@@ -182,7 +174,8 @@ export class ClaudeService implements ILLMService {
         data: {
           description: processedResponse,
           provider: TLLMProvider.CLAUDE,
-          model
+          model,
+          usage: usage.getUsage(fullContent)
         }
       };
     } catch (error: any) {
@@ -0,0 +1,133 @@
+// Service for publishing review findings as a Bitbucket Code Insights report
+import {
+  CODE_INSIGHTS_ANNOTATION_BATCH_SIZE,
+  createCommitReport,
+  createReportAnnotations,
+  deleteCommitReport,
+} from './bitbucket-service';
+import {
+  TBitbucketAPIResponse,
+  TBitbucketAuthOptions,
+  TCodeInsightsAnnotation,
+  TCodeInsightsReport,
+  TCodeInsightsSeverity,
+} from '../../types/bitbucket-types';
+import { TCodeInsightsPublishResult, TMappedReviewFindings, TReviewFinding } from '../../types/review-types';
+
+const SEVERITY_ORDER: TReviewFinding['severity'][] = ['critical', 'major', 'minor', 'info'];
+
+const ANNOTATION_SEVERITIES: Record<TReviewFinding['severity'], TCodeInsightsSeverity> = {
+  critical: 'CRITICAL',
+  major: 'HIGH',
+  minor: 'MEDIUM',
+  info: 'LOW'
+};
+
+// Findings at these severities fail the report
+const FAILING_SEVERITIES: TReviewFinding['severity'][] = ['critical', 'major'];
+
+// Bitbucket's limits; it rejects longer values, so they are truncated here
+const MAX_ANNOTATIONS = 1000;
+const MAX_SUMMARY_LENGTH = 450;
+const MAX_DETAILS_LENGTH = 2000;
+
+export class CodeInsightsPublisherService {
+  static readonly REPORT_ID = 'happyfriday-review';
+
+  /**
+   * Replace the review report on the PR's source commit: the previous report (and its annotations) is
+   * deleted first, so findings fixed since the last run do not linger.
+   */
+  async publish(
+    repository: string,
+    commit: string,
+    findings: TMappedReviewFindings,
+    auth: TBitbucketAuthOptions = {}
+  ): Promise<TBitbucketAPIResponse<TCodeInsightsPublishResult>> {
+    const reportId = CodeInsightsPublisherService.REPORT_ID;
+
+    const deleted = await deleteCommitReport(repository, commit, reportId, auth);
+    if (!deleted.success) {
+      return { success: false, error: deleted.error || 'Failed to delete previous report' };
+    }
+
+    const report = this.buildReport(findings);
+    const created = await createCommitReport(repository, commit, reportId, report, auth);
+    if (!created.success) {
+      return { success: false, error: created.error || 'Failed to create report' };
+    }
+
+    const annotations = this.buildAnnotations(findings);
+    for (let i = 0; i < annotations.length; i += CODE_INSIGHTS_ANNOTATION_BATCH_SIZE) {
+      const batch = annotations.slice(i, i + CODE_INSIGHTS_ANNOTATION_BATCH_SIZE);
+      const uploaded = await createReportAnnotations(repository, commit, reportId, batch, auth);
+      if (!uploaded.success) {
+        return { success: false, error: uploaded.error || 'Failed to upload report annotations' };
+      }
+    }
+
+    return { success: true, data: { reportId, commit, result: report.result, annotations: annotations.length } };
+  }
+
+  buildReport(findings: TMappedReviewFindings): TCodeInsightsReport {
+    const all = this.allFindings(findings);
+    const failed = all.some(finding => FAILING_SEVERITIES.includes(finding.severity));
+    const counts = SEVERITY_ORDER.map(severity => ({
+      severity,
+      count: all.filter(finding => finding.severity === severity).length
+    }));
+
+    let details = all.length === 0
+      ? 'No issues found.'
+      : `Found ${all.length} issue(s): ${counts.filter(c => c.count > 0).map(c => `${c.count} ${c.severity}`).join(', ')}.`;
+    if (all.length > MAX_ANNOTATIONS) {
+      details += ` Only the ${MAX_ANNOTATIONS} most severe are annotated.`;
+    }
+
+    return {
+      title: 'Happy Friday review',
+      details,
+      report_type: 'BUG',
+      reporter: 'Happy Friday',
+      result: failed ? 'FAILED' : 'PASSED',
+      data: [
+        { title: 'Findings', type: 'NUMBER', value: all.length },
+        ...counts.map(({ severity, count }) => ({
+          title: severity.charAt(0).toUpperCase() + severity.slice(1),
+          type: 'NUMBER' as const,
+          value: count
+        }))
+      ]
+    };
+  }
+
+  /**
+   * One annotation per finding, most severe first. Findings outside the diff are still annotated:
+   * Bitbucket lists them in the report even though it cannot show them inline.
+   */
+  buildAnnotations(findings: TMappedReviewFindings): TCodeInsightsAnnotation[] {
+    return this.allFindings(findings)
+      .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+      .slice(0, MAX_ANNOTATIONS)
+      .map((finding, index) => ({
+        external_id: `${CodeInsightsPublisherService.REPORT_ID}-${index + 1}`,
+        annotation_type: 'CODE_SMELL',
+        path: finding.file,
+        line: Math.max(1, finding.line),
+        summary: this.truncate(finding.title, MAX_SUMMARY_LENGTH),
+        details: this.truncate(
+          finding.suggestion ? `${finding.message}\n\nSuggestion: ${finding.suggestion}` : finding.message,
+          MAX_DETAILS_LENGTH
+        ),
+        severity: ANNOTATION_SEVERITIES[finding.severity]
+      }));
+  }
+
+  private allFindings(findings: TMappedReviewFindings): TReviewFinding[] {
+    return [...findings.inline, ...findings.unmapped];
+  }
+
+  private truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+  }
+}
@@ -0,0 +1,35 @@
+// Service for turning pull request commits into prompt input
+import { fetchPullRequestCommits } from './bitbucket-service';
+import { TBitbucketAuthOptions } from '../../types/bitbucket-types';
+import { TPromptCommit } from '../../types/llm-types';
+import { TSourceControlPlatform } from '../../types/source-control-types';
+import { logWarn } from '../utils/logger';
+
+/**
+ * Fetch the PR's commits for the prompt (Bitbucket Cloud only). Commits only enrich the prompt,
+ * so failures are logged and skipped.
+ */
+export async function fetchPromptCommits(
+  repository: string,
+  prNumber: string,
+  platform: TSourceControlPlatform,
+  auth: TBitbucketAuthOptions
+): Promise<TPromptCommit[] | undefined> {
+  if (platform !== 'bitbucket-cloud') {
+    return undefined;
+  }
+  const commitsResponse = await fetchPullRequestCommits(repository, prNumber, auth);
+  if (!commitsResponse.success || !commitsResponse.data) {
+    logWarn('Failed to fetch PR commits, continuing without them', { repository, prNumber, error: commitsResponse.error });
+    return undefined;
+  }
+  // Bitbucket lists newest first; merge commits only repeat what the other commits already say
+  return commitsResponse.data
+    .filter(commit => (commit.parents?.length || 0) <= 1)
+    .reverse()
+    .map(commit => ({
+      hash: commit.hash,
+      message: commit.message,
+      author: commit.author.user?.display_name || commit.author.raw.replace(/\s*<[^>]*>$/, '')
+    }));
+}
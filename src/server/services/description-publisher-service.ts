@@ -0,0 +1,108 @@
+// Service for writing generated descriptions back to a Bitbucket pull request
+import { fetchPullRequest, updatePullRequestDescription } from './bitbucket-service';
+import {
+  TBitbucketAPIResponse,
+  TBitbucketAuthOptions,
+  TPublishDescriptionResult,
+  TPublishMode,
+} from '../../types/bitbucket-types';
+
+export const PUBLISH_MODES: TPublishMode[] = ['replace', 'prepend', 'section'];
+
+export interface PublishDescriptionOptions {
+  mode: TPublishMode;
+  // `updated_on` of the PR as it was when the description was generated
+  expectedUpdatedOn: string;
+  auth?: TBitbucketAuthOptions;
+}
+
+export class DescriptionPublisherService {
+  static readonly SECTION_START = '<!-- happyfriday:description:start -->';
+  static readonly SECTION_END = '<!-- happyfriday:description:end -->';
+
+  /**
+   * Combine the current PR description with a generated one according to the publish mode
+   */
+  mergeDescription(currentDescription: string, generatedDescription: string, mode: TPublishMode): string {
+    const current = (currentDescription || '').trim();
+    const section = this.wrapSection(generatedDescription.trim());
+
+    switch (mode) {
+      case 'replace':
+        return section;
+      case 'prepend': {
+        // Drop a previously published section so repeated prepends don't stack up
+        const rest = this.removeSection(current);
+        return rest ? `${section}\n\n${rest}` : section;
+      }
+      case 'section': {
+        const bounds = this.findSection(current);
+        if (!bounds) {
+          return current ? `${current}\n\n${section}` : section;
+        }
+        return current.slice(0, bounds.start) + section + current.slice(bounds.end);
+      }
+      default:
+        throw new Error(`Unsupported publish mode: ${mode}`);
+    }
+  }
+
+  /**
+   * Publish a generated description to the PR, refusing if the PR changed since it was fetched
+   */
+  async publish(
+    repository: string,
+    prNumber: string,
+    generatedDescription: string,
+    options: PublishDescriptionOptions
+  ): Promise<TBitbucketAPIResponse<TPublishDescriptionResult> & { conflict?: boolean }> {
+    // Always read the live PR: a cached copy could hide a concurrent edit
+    const prResponse = await fetchPullRequest(repository, prNumber, { ...options.auth, bypassCache: true });
+    if (!prResponse.success || !prResponse.data) {
+      return { success: false, error: prResponse.error || 'Failed to fetch PR details' };
+    }
+
+    const pr = prResponse.data;
+    if (pr.updated_on !== options.expectedUpdatedOn) {
+      return {
+        success: false,
+        conflict: true,
+        error: `Pull request was updated since it was fetched (expected ${options.expectedUpdatedOn}, ` +
+          `found ${pr.updated_on}). Regenerate the description before publishing.`
+      };
+    }
+
+    const merged = this.mergeDescription(pr.description || '', generatedDescription, options.mode);
+    const updateResponse = await updatePullRequestDescription(repository, prNumber, merged, options.auth);
+    if (!updateResponse.success || !updateResponse.data) {
+      return { success: false, error: updateResponse.error || 'Failed to update PR description' };
+    }
+
+    return {
+      success: true,
+      data: {
+        mode: options.mode,
+        updatedOn: updateResponse.data.updated_on,
+        url: updateResponse.data.links?.html?.href || pr.links.html.href
+      }
+    };
+  }
+
+  private wrapSection(content: string): string {
+    return `${DescriptionPublisherService.SECTION_START}\n${content}\n${DescriptionPublisherService.SECTION_END}`;
+  }
+
+  private findSection(description: string): { start: number; end: number } | null {
+    const start = description.indexOf(DescriptionPublisherService.SECTION_START);
+    if (start === -1) return null;
+    const endMarker = description.indexOf(DescriptionPublisherService.SECTION_END, start);
+    if (endMarker === -1) return null;
+    return { start, end: endMarker + DescriptionPublisherService.SECTION_END.length };
+  }
+
+  private removeSection(description: string): string {
+    const bounds = this.findSection(description);
+    if (!bounds) return description;
+    return (description.slice(0, bounds.start) + description.slice(bounds.end)).trim();
+  }
+}
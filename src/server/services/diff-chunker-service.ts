@@ -1,5 +1,6 @@
 // Service for intelligently chunking large diffs into manageable pieces
-import { DiffChunk } from '../../types/llm-types';
+import { DiffChunk, TLLMProvider } from '../../types/llm-types';
+import { estimateTokens } from './token-usage-tracker';
 import { getConfigManager, ChunkingFeatureConfig } from '../utils/config-manager';
 
 // Re-export for backward compatibility
@@ -10,6 +11,9 @@ export interface ChunkingConfig {
   overlapSize: number;
   maxChunks: number;
   enabled: boolean;
+  // When set, chunks are sized in tokens of this provider's model instead of `chunkSize` characters
+  tokenBudget?: number;
+  provider?: TLLMProvider;
 }
 
 interface FileBlock {
@@ -48,7 +52,7 @@ export class DiffChunkerService {
   }
 
   chunkDiff(diff: string): DiffChunk[] {
-    if (!this.config.enabled || diff.length <= this.config.chunkSize) {
+    if (!this.config.enabled || this.measure(diff) <= this.getLimit()) {
       return [{
         content: diff,
         index: 0,
@@ -74,10 +78,12 @@ export class DiffChunkerService {
 
     const chunks: DiffChunk[] = [];
     let currentChunk = '';
+    let currentSize = 0;
     let filesInChunk: string[] = [];
 
     for (const block of fileBlocks) {
-      if (currentChunk.length + block.content.length > this.config.chunkSize && currentChunk.length > 0) {
+      const blockSize = this.measure(block.content);
+      if (currentSize + blockSize > this.getLimit() && currentChunk.length > 0) {
         chunks.push({
           content: currentChunk.trim(),
           index: chunks.length,
@@ -90,9 +96,11 @@ export class DiffChunkerService {
         });
         
         currentChunk = block.content;
+        currentSize = blockSize;
         filesInChunk = [block.filename];
       } else {
         currentChunk += block.content;
+        currentSize += blockSize;
         filesInChunk.push(block.filename);
       }
     }
@@ -125,9 +133,12 @@ export class DiffChunkerService {
     while (lineIndex < lines.length && chunks.length < this.config.maxChunks) {
       const startIndex = lineIndex;
       currentChunk = '';
+      // Measured line by line so token estimates stay linear in the diff size
+      let currentSize = 0;
 
-      while (lineIndex < lines.length && currentChunk.length < this.config.chunkSize) {
+      while (lineIndex < lines.length && currentSize < this.getLimit()) {
         const line = lines[lineIndex];
+        const lineSize = this.measure(line + '\n');
         
         // Check if we're starting or ending a hunk
         if (line.startsWith('@@')) {
@@ -135,13 +146,14 @@ export class DiffChunkerService {
         }
         
         // Don't break in the middle of a hunk unless we really have to
-        if (currentChunk.length + line.length + 1 > this.config.chunkSize && currentChunk.length > 0) {
+        if (currentSize + lineSize > this.getLimit() && currentChunk.length > 0) {
           if (!insideHunk || line.startsWith('diff --git')) {
             break;
           }
         }
         
         currentChunk += line + '\n';
+        currentSize += lineSize;
         lineIndex++;
         
         // Mark end of hunk when we see next diff or reach end
@@ -174,6 +186,17 @@ export class DiffChunkerService {
     return chunks;
   }
 
+  /**
+   * Size of a piece of diff in the unit chunks are budgeted in: estimated tokens, or characters
+   */
+  private measure(text: string): number {
+    return this.config.tokenBudget ? estimateTokens(text, this.config.provider) : text.length;
+  }
+
+  private getLimit(): number {
+    return this.config.tokenBudget || this.config.chunkSize;
+  }
+
   private parseFileBlocks(diff: string): FileBlock[] {
     const blocks: FileBlock[] = [];
     const lines = diff.split('\n');
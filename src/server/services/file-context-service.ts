@@ -0,0 +1,289 @@
+// Service for enriching the prompt with the code surrounding each changed hunk
+import { fetchFileContent } from './bitbucket-service';
+import { FileFilterService } from './file-filter-service';
+import { TBitbucketAuthOptions, TPullRequest } from '../../types/bitbucket-types';
+import { TSourceControlPlatform } from '../../types/source-control-types';
+import { getConfigManager } from '../utils/config-manager';
+import { logWarn } from '../utils/logger';
+
+// 1-based, inclusive line range in the new version of a file
+export type TLineRange = { start: number; end: number };
+
+export type TFileContextSection = {
+  path: string;
+  range: TLineRange;
+  lines: string[];
+};
+
+// Files larger than this are skipped; their enclosing blocks are rarely worth the fetch
+const MAX_FILE_SIZE = 200 * 1024;
+// Enclosing blocks longer than this are replaced by a window around the hunk
+const MAX_BLOCK_LINES = 120;
+const FALLBACK_WINDOW_LINES = 15;
+
+const DECLARATION_PATTERNS = [
+  // function, class, interface ... across common languages (TS/JS, Python, Go, Rust, Java, Kotlin)
+  /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+|public\s+|private\s+|protected\s+|static\s+|final\s+|data\s+|pub(?:\([\w]+\))?\s+)*(?:async\s+)?(?:function\*?|class|interface|enum|struct|trait|impl|def|func|fn|fun|module|namespace)\b/,
+  // const handler = async (req) => {   /   const fn = function () {
+  /^\s*(?:export\s+)?(?:const|let|var)\s+[\w$]+\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[\w$]+\s*=>)/,
+  // Methods: name(args) {   /   public async name(args): Type {
+  /^\s*(?:(?:public|private|protected|static|async|override|readonly|abstract|final|synchronized|virtual)\s+)*(?:[\w$<>[\],.?]+\s+)?[\w$]+\s*\([^;]*\)\s*(?::\s*[^{;]+)?(?:throws\s+[\w.,\s]+)?\{\s*$/
+];
+const CONTROL_FLOW = /^\s*(?:if|else|for|foreach|while|do|switch|case|catch|try|finally|return|with|elif|except)\b/;
+
+export class FileContextService {
+  private fileFilter: FileFilterService;
+
+  constructor(fileFilter?: FileFilterService) {
+    this.fileFilter = fileFilter || new FileFilterService();
+  }
+
+  /**
+   * Collect the new-file line ranges actually changed in each file, keyed by file path.
+   * Hunk context lines are left out so a hunk that straddles two functions isn't widened to both.
+   * New, deleted, binary and ignored files are skipped since the diff already shows all there is.
+   */
+  getChangedRanges(diff: string): Map<string, TLineRange[]> {
+    const ranges = new Map<string, TLineRange[]>();
+    let currentFile: string | null = null;
+    let newLine = 0;
+
+    const markChanged = (file: string, line: number) => {
+      const fileRanges = ranges.get(file) || [];
+      const last = fileRanges[fileRanges.length - 1];
+      if (last && line <= last.end + 1) {
+        last.end = Math.max(last.end, line);
+      } else {
+        fileRanges.push({ start: line, end: line });
+      }
+      ranges.set(file, fileRanges);
+    };
+
+    for (const line of diff.split('\n')) {
+      const header = line.match(/^diff --git a\/(.+?) b\/(.+)$/);
+      if (header) {
+        currentFile = this.fileFilter.shouldIgnoreFile(header[2]) ? null : header[2];
+        newLine = 0;
+        continue;
+      }
+      if (!currentFile) {
+        continue;
+      }
+      if (line === '--- /dev/null' || line === '+++ /dev/null' || line.startsWith('Binary files')) {
+        ranges.delete(currentFile);
+        currentFile = null;
+        continue;
+      }
+      const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+      if (hunk) {
+        newLine = parseInt(hunk[1], 10);
+        continue;
+      }
+      if (newLine === 0 || line.startsWith('+++') || line.startsWith('---')) {
+        continue;
+      }
+      if (line.startsWith('+')) {
+        markChanged(currentFile, newLine);
+        newLine++;
+      } else if (line.startsWith('-')) {
+        // A deletion has no new-file line; anchor it to the line that now sits in its place
+        markChanged(currentFile, Math.max(1, newLine));
+      } else if (line.startsWith(' ') || line === '') {
+        newLine++;
+      }
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Find the innermost function or class that contains the whole range.
+   * Falls back to a window around the range when no declaration encloses it or the block is too long.
+   */
+  findEnclosingRange(lines: string[], range: TLineRange): TLineRange {
+    const fallback: TLineRange = {
+      start: Math.max(1, range.start - FALLBACK_WINDOW_LINES),
+      end: Math.min(lines.length, range.end + FALLBACK_WINDOW_LINES)
+    };
+
+    for (let index = Math.min(range.start, lines.length) - 1; index >= 0; index--) {
+      if (!this.isDeclaration(lines[index])) {
+        continue;
+      }
+      const blockEnd = this.findBlockEnd(lines, index);
+      if (blockEnd < range.end) {
+        // A sibling declaration that closes before the hunk; keep looking for an outer one
+        continue;
+      }
+      const block = { start: index + 1, end: blockEnd };
+      return block.end - block.start + 1 <= MAX_BLOCK_LINES ? block : fallback;
+    }
+
+    return fallback;
+  }
+
+  /**
+   * Render sections as numbered code blocks, dropping whole sections once the budget is spent
+   */
+  formatSections(sections: TFileContextSection[], maxLength: number): string {
+    const rendered: string[] = [];
+    let length = 0;
+    let omitted = 0;
+
+    for (const section of sections) {
+      const width = String(section.range.end).length;
+      const body = section.lines
+        .map((line, offset) => `${String(section.range.start + offset).padStart(width)} | ${line}`)
+        .join('\n');
+      const text = `### ${section.path} (lines ${section.range.start}-${section.range.end})\n\`\`\`\n${body}\n\`\`\``;
+      if (length + text.length + 2 > maxLength) {
+        omitted++;
+        continue;
+      }
+      rendered.push(text);
+      length += text.length + 2;
+    }
+
+    if (omitted > 0) {
+      rendered.push(`... (${omitted} more sections omitted to fit the context budget)`);
+    }
+    return rendered.join('\n\n');
+  }
+
+  /**
+   * Build the {{fileContext}} text for a diff, loading each changed file through `loadFile`
+   */
+  async buildFileContext(
+    diff: string,
+    loadFile: (path: string) => Promise<string | undefined>,
+    options: { maxLength: number; maxFiles: number }
+  ): Promise<string> {
+    const changedRanges = Array.from(this.getChangedRanges(diff).entries()).slice(0, options.maxFiles);
+    const contents = await Promise.all(changedRanges.map(([path]) => loadFile(path)));
+
+    const sections: TFileContextSection[] = [];
+    changedRanges.forEach(([path, ranges], fileIndex) => {
+      const content = contents[fileIndex];
+      if (content === undefined || content.length > MAX_FILE_SIZE || content.includes('\u0000')) {
+        return;
+      }
+      const lines = content.split('\n');
+      const merged = this.mergeRanges(ranges.map(range => this.findEnclosingRange(lines, range)));
+      for (const range of merged) {
+        sections.push({ path, range, lines: lines.slice(range.start - 1, range.end) });
+      }
+    });
+
+    return this.formatSections(sections, options.maxLength);
+  }
+
+  private isDeclaration(line: string): boolean {
+    return !CONTROL_FLOW.test(line) && DECLARATION_PATTERNS.some(pattern => pattern.test(line));
+  }
+
+  /**
+   * Last line (1-based) of the block opened at `declarationIndex`: brace-matched for C-style
+   * languages, indentation-based for Python-style `:` blocks
+   */
+  private findBlockEnd(lines: string[], declarationIndex: number): number {
+    const declaration = lines[declarationIndex];
+    const indentation = this.indentationOf(declaration);
+
+    // Signatures may wrap, so look a few lines ahead for the opening brace
+    let depth = 0;
+    let opened = false;
+    for (let index = declarationIndex; index < lines.length; index++) {
+      const code = this.stripStringsAndComments(lines[index]);
+      for (const char of code) {
+        if (char === '{') {
+          depth++;
+          opened = true;
+        } else if (char === '}') {
+          depth--;
+        }
+      }
+      if (opened && depth <= 0) {
+        return index + 1;
+      }
+      if (!opened && (index - declarationIndex >= 5 || /;\s*$/.test(code) || /:\s*$/.test(code))) {
+        break;
+      }
+    }
+
+    if (/:\s*(?:#.*)?$/.test(declaration)) {
+      let end = declarationIndex;
+      for (let index = declarationIndex + 1; index < lines.length; index++) {
+        if (lines[index].trim() === '') {
+          continue;
+        }
+        if (this.indentationOf(lines[index]) <= indentation) {
+          break;
+        }
+        end = index;
+      }
+      return end + 1;
+    }
+
+    return declarationIndex + 1;
+  }
+
+  private mergeRanges(ranges: TLineRange[]): TLineRange[] {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    const merged: TLineRange[] = [];
+    for (const range of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end + 1) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+    }
+    return merged;
+  }
+
+  private indentationOf(line: string): number {
+    return line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+  }
+
+  private stripStringsAndComments(line: string): string {
+    return line
+      .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""')
+      .replace(/\/\/.*$/, '')
+      .replace(/#.*$/, '');
+  }
+}
+
+/**
+ * Fetch the code around each changed hunk at the PR's source commit (Bitbucket Cloud only).
+ * `requested` overrides ENABLE_FILE_CONTEXT. File context only enriches the prompt, so failures are logged and skipped.
+ */
+export async function fetchPromptFileContext(
+  repository: string,
+  pr: TPullRequest,
+  diff: string,
+  platform: TSourceControlPlatform,
+  auth: TBitbucketAuthOptions,
+  requested?: boolean
+): Promise<string | undefined> {
+  const config = getConfigManager().getFileContextConfig();
+  const sourceCommit = pr.source.commit?.hash;
+  if (!(requested ?? config.enabled) || platform !== 'bitbucket-cloud' || !sourceCommit) {
+    return undefined;
+  }
+
+  // Fork PRs keep their source commit in the fork
+  const sourceRepository = pr.source.repository.full_name || repository;
+  try {
+    return await new FileContextService().buildFileContext(diff, async path => {
+      const response = await fetchFileContent(sourceRepository, sourceCommit, path, auth);
+      if (!response.success) {
+        logWarn('Failed to fetch file for context, skipping it', { repository: sourceRepository, path, error: response.error });
+        return undefined;
+      }
+      return response.data;
+    }, config);
+  } catch (error) {
+    logWarn('Failed to build file context, continuing without it', { repository, error: (error as Error).message });
+    return undefined;
+  }
+}
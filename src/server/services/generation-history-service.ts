@@ -0,0 +1,104 @@
+// Service for remembering which commit each PR description was generated against
+import fs from 'fs';
+import path from 'path';
+import { TPullRequest } from '../../types/bitbucket-types';
+import { TGenerationRecord, TLLMProvider } from '../../types/llm-types';
+import { logWarn, logError } from '../utils/logger';
+
+export class GenerationHistoryService {
+  private records: Map<string, TGenerationRecord> | null = null;
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || process.env.GENERATION_HISTORY_PATH || path.join(process.cwd(), 'data', 'generation-history.json');
+  }
+
+  /**
+   * Last recorded generation for a PR, if any
+   */
+  get(repository: string, prNumber: string): TGenerationRecord | undefined {
+    return this.load().get(this.getKey(repository, prNumber));
+  }
+
+  /**
+   * Store a generation and write the history back to disk. A failed write only loses the
+   * incremental base for this PR, so it is logged rather than thrown.
+   */
+  record(record: TGenerationRecord): void {
+    const records = this.load();
+    records.set(this.getKey(record.repository, record.prNumber), record);
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Write to a temp file first so a crash mid-write can't corrupt the history
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(Object.fromEntries(records), null, 2));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      logError(`Failed to write generation history to ${this.filePath}`, error);
+    }
+  }
+
+  private load(): Map<string, TGenerationRecord> {
+    if (this.records) {
+      return this.records;
+    }
+
+    this.records = new Map();
+    if (!fs.existsSync(this.filePath)) {
+      return this.records;
+    }
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Record<string, TGenerationRecord>;
+      this.records = new Map(Object.entries(stored));
+    } catch (error) {
+      logWarn('Ignoring unreadable generation history', { path: this.filePath, error: (error as Error).message });
+    }
+    return this.records;
+  }
+
+  private getKey(repository: string, prNumber: string): string {
+    return `${repository}#${prNumber}`;
+  }
+}
+
+let generationHistoryService: GenerationHistoryService | null = null;
+
+export function getGenerationHistoryService(): GenerationHistoryService {
+  if (!generationHistoryService) {
+    generationHistoryService = new GenerationHistoryService();
+  }
+  return generationHistoryService;
+}
+
+// For testing purposes
+export function resetGenerationHistoryService(): void {
+  generationHistoryService = null;
+}
+
+/**
+ * Remember the source commit a description was generated against, as the base for the next incremental run
+ */
+export function recordGeneration(
+  repository: string,
+  prNumber: string,
+  pr: TPullRequest,
+  provider: TLLMProvider,
+  template: string | undefined,
+  incremental: boolean
+): void {
+  const sourceCommit = pr.source.commit?.hash;
+  if (!sourceCommit) {
+    return;
+  }
+  getGenerationHistoryService().record({
+    repository,
+    prNumber,
+    sourceCommit,
+    destinationCommit: pr.destination.commit?.hash,
+    provider,
+    template,
+    incremental,
+    generatedAt: new Date().toISOString()
+  });
+}
@@ -0,0 +1,156 @@
+// Service for GitHub REST API communication (pull requests)
+import dotenv from 'dotenv';
+import { TBitbucketAPIResponse, TPullRequest, TPullRequestDiff } from '../../types/bitbucket-types';
+import { TGitHubPullRequest } from '../../types/github-types';
+import { CacheService } from './cache-service';
+import { AccessTokenCredentialProvider, AnonymousCredentialProvider, IBitbucketCredentialProvider } from './bitbucket-auth-service';
+import { BitbucketHttpClient } from './bitbucket-http-client';
+import { PerformanceMonitor } from '../utils/performance-monitor';
+
+dotenv.config();
+
+const cache = new CacheService<any>(parseInt(process.env.BITBUCKET_CACHE_TTL_MS || '60000'));
+// Retries, backoff and Retry-After handling apply to GitHub just the same
+const httpClient = new BitbucketHttpClient();
+
+function getApiUrl(): string {
+  return (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, '');
+}
+
+// Public repositories can be read without a token, at a much lower rate limit
+function getCredentials(): IBitbucketCredentialProvider {
+  return process.env.GITHUB_TOKEN ? new AccessTokenCredentialProvider(process.env.GITHUB_TOKEN) : new AnonymousCredentialProvider();
+}
+
+function pullRequestApiUrl(repo: string, prNumber: string): string {
+  const [owner, name] = repo.split('/');
+  return `${getApiUrl()}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}/pulls/${prNumber}`;
+}
+
+function requestHeaders(accept: string): Record<string, string> {
+  return { Accept: accept, 'X-GitHub-Api-Version': '2022-11-28' };
+}
+
+function toErrorResponse<T>(err: any): TBitbucketAPIResponse<T> {
+  const metadata = { attempts: err.attempts ?? 1 };
+  const status = err.response?.status;
+  if (err.code === 'ECONNABORTED') {
+    return { success: false, error: 'GitHub API request timed out.', metadata };
+  }
+  // GitHub answers 403 (or 429) with no remaining quota when rate limited
+  if (status === 429 || (status === 403 && err.response?.headers?.['x-ratelimit-remaining'] === '0')) {
+    return { success: false, error: 'GitHub API rate limit exceeded.', metadata };
+  }
+  if (status === 401) {
+    return { success: false, error: 'GitHub credentials were rejected.', metadata };
+  }
+  // Private repositories answer 404 rather than 403 to callers without access
+  if (status === 404) {
+    return { success: false, error: 'GitHub pull request not found, or GITHUB_TOKEN cannot access it.', metadata };
+  }
+  // Diffs over GitHub's own limits are refused with 406
+  if (status === 406) {
+    return { success: false, error: 'PR diff is too large to process.', metadata };
+  }
+  return { success: false, error: err.response?.data?.message || err.message, metadata };
+}
+
+/**
+ * Convert a GitHub pull request into the Bitbucket Cloud shaped TPullRequest used by the rest of the pipeline
+ */
+function mapGitHubPullRequest(pr: TGitHubPullRequest): TPullRequest {
+  const baseRepository = pr.base.repo?.full_name || '';
+
+  return {
+    id: pr.number,
+    title: pr.title,
+    description: pr.body || '',
+    state: pr.merged_at ? 'MERGED' : pr.state === 'open' ? 'OPEN' : 'DECLINED',
+    author: {
+      display_name: pr.user.login,
+      uuid: String(pr.user.id)
+    },
+    created_on: pr.created_at,
+    updated_on: pr.updated_at,
+    source: {
+      branch: { name: pr.head.ref },
+      repository: { full_name: pr.head.repo?.full_name || baseRepository },
+      commit: { hash: pr.head.sha }
+    },
+    destination: {
+      branch: { name: pr.base.ref },
+      repository: { full_name: baseRepository },
+      commit: { hash: pr.base.sha }
+    },
+    links: {
+      html: { href: pr.html_url }
+    },
+    merge_commit: pr.merged_at && pr.merge_commit_sha ? { hash: pr.merge_commit_sha } : null
+  };
+}
+
+async function fetchGitHubPullRequest(repo: string, prNumber: string): Promise<TBitbucketAPIResponse<TPullRequest>> {
+  if (!/^\d+$/.test(prNumber)) {
+    return { success: false, error: 'Invalid PR number.' };
+  }
+  const credentials = getCredentials();
+  const cacheKey = `github-pr:${credentials.getCacheScope()}:${repo}:${prNumber}`;
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    return { success: true, data: cached };
+  }
+  const start = PerformanceMonitor.start('fetchGitHubPullRequest');
+  try {
+    const response = await httpClient.send(credentials, {
+      method: 'get',
+      url: pullRequestApiUrl(repo, prNumber),
+      headers: requestHeaders('application/vnd.github+json'),
+    });
+    PerformanceMonitor.end('fetchGitHubPullRequest', start);
+    const pr = mapGitHubPullRequest(response.data as TGitHubPullRequest);
+    cache.set(cacheKey, pr);
+    return { success: true, data: pr, metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    PerformanceMonitor.end('fetchGitHubPullRequest', start);
+    return toErrorResponse(err);
+  }
+}
+
+async function fetchGitHubPullRequestDiff(repo: string, prNumber: string): Promise<TBitbucketAPIResponse<TPullRequestDiff>> {
+  if (!/^\d+$/.test(prNumber)) {
+    return { success: false, error: 'Invalid PR number.' };
+  }
+  const credentials = getCredentials();
+  const cacheKey = `github-diff:${credentials.getCacheScope()}:${repo}:${prNumber}`;
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    return { success: true, data: { diff: cached } };
+  }
+  const start = PerformanceMonitor.start('fetchGitHubPullRequestDiff');
+  try {
+    // The diff media type returns the same unified diff as the PR's ".diff" page
+    const response = await httpClient.send(credentials, {
+      method: 'get',
+      url: pullRequestApiUrl(repo, prNumber),
+      headers: requestHeaders('application/vnd.github.diff'),
+      responseType: 'text',
+    });
+    PerformanceMonitor.end('fetchGitHubPullRequestDiff', start);
+    const metadata = { attempts: response.attempts };
+    const maxDiffSize = parseInt(process.env.BITBUCKET_DIFF_MAX_SIZE || '1048576');
+    if (response.data && typeof response.data === 'string' && response.data.length > maxDiffSize) {
+      return { success: false, error: 'PR diff is too large to process.', metadata };
+    }
+    cache.set(cacheKey, response.data);
+    return { success: true, data: { diff: response.data as string }, metadata };
+  } catch (err: any) {
+    PerformanceMonitor.end('fetchGitHubPullRequestDiff', start);
+    return toErrorResponse(err);
+  }
+}
+
+export {
+  mapGitHubPullRequest,
+  fetchGitHubPullRequest,
+  fetchGitHubPullRequestDiff,
+};
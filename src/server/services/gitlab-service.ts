@@ -0,0 +1,215 @@
+// Service for GitLab REST API (v4) communication (merge requests)
+import dotenv from 'dotenv';
+import { TBitbucketAPIResponse, TPullRequest, TPullRequestDiff } from '../../types/bitbucket-types';
+import { TGitLabChange, TGitLabMergeRequest, TGitLabMergeRequestChanges } from '../../types/gitlab-types';
+import { CacheService } from './cache-service';
+import { AccessTokenCredentialProvider, AnonymousCredentialProvider, IBitbucketCredentialProvider } from './bitbucket-auth-service';
+import { BitbucketHttpClient } from './bitbucket-http-client';
+import { PerformanceMonitor } from '../utils/performance-monitor';
+import { logWarn } from '../utils/logger';
+
+dotenv.config();
+
+const cache = new CacheService<any>(parseInt(process.env.BITBUCKET_CACHE_TTL_MS || '60000'));
+const httpClient = new BitbucketHttpClient();
+
+function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Base URLs of the GitLab instances we are allowed to call (and send GITLAB_TOKEN to)
+ */
+function getConfiguredGitLabHosts(): string[] {
+  return (process.env.GITLAB_URL || 'https://gitlab.com')
+    .split(',')
+    .map(url => normalizeBaseUrl(url))
+    .filter(url => url.length > 0);
+}
+
+function isConfiguredGitLabHost(baseUrl: string): boolean {
+  return getConfiguredGitLabHosts().includes(normalizeBaseUrl(baseUrl));
+}
+
+// Personal, project and group access tokens are all accepted as bearer tokens
+function getCredentials(): IBitbucketCredentialProvider {
+  return process.env.GITLAB_TOKEN ? new AccessTokenCredentialProvider(process.env.GITLAB_TOKEN) : new AnonymousCredentialProvider();
+}
+
+// Projects are addressed by their URL-encoded full path, which may include subgroups
+function mergeRequestApiUrl(baseUrl: string, projectPath: string, mrNumber: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/api/v4/projects/${encodeURIComponent(projectPath)}/merge_requests/${mrNumber}`;
+}
+
+function validateRequest(baseUrl: string, mrNumber: string): string | null {
+  if (!/^\d+$/.test(mrNumber)) {
+    return 'Invalid MR number.';
+  }
+  if (!isConfiguredGitLabHost(baseUrl)) {
+    return `GitLab instance ${baseUrl} is not configured (GITLAB_URL).`;
+  }
+  return null;
+}
+
+function toErrorResponse<T>(err: any): TBitbucketAPIResponse<T> {
+  const metadata = { attempts: err.attempts ?? 1 };
+  const status = err.response?.status;
+  if (err.code === 'ECONNABORTED') {
+    return { success: false, error: 'GitLab API request timed out.', metadata };
+  }
+  if (status === 429) {
+    return { success: false, error: 'GitLab API rate limit exceeded.', metadata };
+  }
+  if (status === 401) {
+    return { success: false, error: 'GitLab credentials were rejected.', metadata };
+  }
+  // Private projects answer 404 to callers without access
+  if (status === 404) {
+    return { success: false, error: 'GitLab merge request not found, or GITLAB_TOKEN cannot access it.', metadata };
+  }
+  // GitLab reports errors as { message } or { error }
+  const message = err.response?.data?.message || err.response?.data?.error;
+  return { success: false, error: typeof message === 'string' ? message : err.message, metadata };
+}
+
+/**
+ * Convert a GitLab merge request into the Bitbucket Cloud shaped TPullRequest used by the rest of the pipeline
+ */
+function mapGitLabMergeRequest(mr: TGitLabMergeRequest, projectPath: string): TPullRequest {
+  const states: Record<TGitLabMergeRequest['state'], string> = {
+    opened: 'OPEN',
+    locked: 'OPEN',
+    merged: 'MERGED',
+    closed: 'DECLINED'
+  };
+
+  return {
+    id: mr.iid,
+    title: mr.title,
+    description: mr.description || '',
+    state: states[mr.state] || mr.state.toUpperCase(),
+    author: {
+      display_name: mr.author.name || mr.author.username,
+      uuid: String(mr.author.id)
+    },
+    created_on: mr.created_at,
+    updated_on: mr.updated_at,
+    // The API only gives the source project's id; fork MRs are labelled with the target project
+    source: {
+      branch: { name: mr.source_branch },
+      repository: { full_name: projectPath },
+      commit: { hash: mr.sha }
+    },
+    destination: {
+      branch: { name: mr.target_branch },
+      repository: { full_name: projectPath },
+      ...(mr.diff_refs?.base_sha && { commit: { hash: mr.diff_refs.base_sha } })
+    },
+    links: {
+      html: { href: mr.web_url }
+    },
+    merge_commit: mr.merge_commit_sha ? { hash: mr.merge_commit_sha } : null
+  };
+}
+
+/**
+ * Rebuild a unified diff from the changes API, which only returns the hunks of each file
+ */
+function buildUnifiedDiff(changes: TGitLabChange[]): string {
+  return changes.map(change => {
+    const header = [`diff --git a/${change.old_path} b/${change.new_path}`];
+    if (change.new_file) {
+      header.push('new file mode 100644');
+    } else if (change.deleted_file) {
+      header.push('deleted file mode 100644');
+    } else if (change.renamed_file) {
+      header.push(`rename from ${change.old_path}`, `rename to ${change.new_path}`);
+    }
+    header.push(change.new_file ? '--- /dev/null' : `--- a/${change.old_path}`);
+    header.push(change.deleted_file ? '+++ /dev/null' : `+++ b/${change.new_path}`);
+    const hunks = change.diff.endsWith('\n') ? change.diff : `${change.diff}\n`;
+    return `${header.join('\n')}\n${change.diff ? hunks : ''}`;
+  }).join('');
+}
+
+async function fetchGitLabMergeRequest(
+  baseUrl: string,
+  projectPath: string,
+  mrNumber: string
+): Promise<TBitbucketAPIResponse<TPullRequest>> {
+  const validationError = validateRequest(baseUrl, mrNumber);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+  const credentials = getCredentials();
+  const cacheKey = `gitlab-mr:${credentials.getCacheScope()}:${normalizeBaseUrl(baseUrl)}:${projectPath}:${mrNumber}`;
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    return { success: true, data: cached };
+  }
+  const start = PerformanceMonitor.start('fetchGitLabMergeRequest');
+  try {
+    const response = await httpClient.send(credentials, {
+      method: 'get',
+      url: mergeRequestApiUrl(baseUrl, projectPath, mrNumber),
+    });
+    PerformanceMonitor.end('fetchGitLabMergeRequest', start);
+    const pr = mapGitLabMergeRequest(response.data as TGitLabMergeRequest, projectPath);
+    cache.set(cacheKey, pr);
+    return { success: true, data: pr, metadata: { attempts: response.attempts } };
+  } catch (err: any) {
+    PerformanceMonitor.end('fetchGitLabMergeRequest', start);
+    return toErrorResponse(err);
+  }
+}
+
+async function fetchGitLabMergeRequestDiff(
+  baseUrl: string,
+  projectPath: string,
+  mrNumber: string
+): Promise<TBitbucketAPIResponse<TPullRequestDiff>> {
+  const validationError = validateRequest(baseUrl, mrNumber);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+  const credentials = getCredentials();
+  const cacheKey = `gitlab-diff:${credentials.getCacheScope()}:${normalizeBaseUrl(baseUrl)}:${projectPath}:${mrNumber}`;
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    return { success: true, data: { diff: cached } };
+  }
+  const start = PerformanceMonitor.start('fetchGitLabMergeRequestDiff');
+  try {
+    const response = await httpClient.send(credentials, {
+      method: 'get',
+      url: `${mergeRequestApiUrl(baseUrl, projectPath, mrNumber)}/changes`,
+      // Without this GitLab may drop the content of large diffs
+      params: { access_raw_diffs: 'true' },
+    });
+    PerformanceMonitor.end('fetchGitLabMergeRequestDiff', start);
+    const metadata = { attempts: response.attempts };
+    const mergeRequest = response.data as TGitLabMergeRequestChanges;
+    if (mergeRequest.overflow) {
+      logWarn('GitLab truncated the merge request changes', { projectPath, mrNumber });
+    }
+    const diff = buildUnifiedDiff(mergeRequest.changes || []);
+    const maxDiffSize = parseInt(process.env.BITBUCKET_DIFF_MAX_SIZE || '1048576');
+    if (diff.length > maxDiffSize) {
+      return { success: false, error: 'PR diff is too large to process.', metadata };
+    }
+    cache.set(cacheKey, diff);
+    return { success: true, data: { diff }, metadata };
+  } catch (err: any) {
+    PerformanceMonitor.end('fetchGitLabMergeRequestDiff', start);
+    return toErrorResponse(err);
+  }
+}
+
+export {
+  getConfiguredGitLabHosts,
+  isConfiguredGitLabHost,
+  mapGitLabMergeRequest,
+  buildUnifiedDiff,
+  fetchGitLabMergeRequest,
+  fetchGitLabMergeRequestDiff,
+};
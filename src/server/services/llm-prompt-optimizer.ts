@@ -1,19 +1,29 @@
 // llm-prompt-optimizer.ts - Utility to optimize LLM prompt construction
-import { TLLMPromptData } from '../../types/llm-types';
+import { TLLMPromptData, TLLMProvider } from '../../types/llm-types';
 import { DiffChunkerService } from './diff-chunker-service';
 import { FileFilterService } from './file-filter-service';
 import { getConfigManager } from '../utils/config-manager';
 
 // Service factory functions to ensure fresh instances with current config
-function createDiffChunker() {
-  return new DiffChunkerService();
+function createDiffChunker(tokenBudget?: TChunkTokenBudget) {
+  return new DiffChunkerService(tokenBudget && { tokenBudget: tokenBudget.tokens, provider: tokenBudget.provider });
 }
 
 function createFileFilter() {
   return new FileFilterService();
 }
 
-export function optimizePrompt(prData: TLLMPromptData): TLLMPromptData {
+// Diff tokens that fit in one chunk for the model the prompt is sent to
+export type TChunkTokenBudget = {
+  provider: TLLMProvider;
+  tokens: number;
+};
+
+/**
+ * Filter and chunk the diff. With a token budget chunks are sized to the target model's context window,
+ * otherwise to DIFF_CHUNK_SIZE characters.
+ */
+export function optimizePrompt(prData: TLLMPromptData, tokenBudget?: TChunkTokenBudget): TLLMPromptData {
   // Basic data cleaning
   const cleanedData = {
     ...prData,
@@ -50,7 +60,7 @@ export function optimizePrompt(prData: TLLMPromptData): TLLMPromptData {
   // Step 2: Apply chunking if enabled and needed
   const chunkingEnabled = config.getChunkingConfig().enabled;
   if (chunkingEnabled && diff && !allFilesIgnored) {
-    const diffChunker = createDiffChunker();
+    const diffChunker = createDiffChunker(tokenBudget);
     const chunks = diffChunker.chunkDiff(diff);
     
     if (chunks.length > 1) {
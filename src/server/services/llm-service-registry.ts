@@ -3,6 +3,9 @@ import { LLMService } from './llm-service';
 import { OpenAIService } from './openai-service';
 import { ClaudeService } from './claude-service';
 import { OllamaService } from './ollama-service';
+import { AzureOpenAIService } from './azure-openai-service';
+import { OpenAICompatibleService } from './openai-compatible-service';
+import { getOpenAICompatibleEndpoints } from './openai-compatible-endpoints';
 import { TLLMProvider } from '../../types/llm-types';
 
 export class LLMServiceRegistry {
@@ -16,6 +19,12 @@ export class LLMServiceRegistry {
       this.instance.registerService(TLLMProvider.OPENAI, new OpenAIService());
       this.instance.registerService(TLLMProvider.CLAUDE, new ClaudeService());
       this.instance.registerService(TLLMProvider.OLLAMA, new OllamaService());
+      this.instance.registerService(TLLMProvider.AZURE_OPENAI, new AzureOpenAIService());
+
+      // OpenAI-compatible endpoints are providers under their configured names
+      for (const [name, endpoint] of Object.entries(getOpenAICompatibleEndpoints())) {
+        this.instance.registerService(name, new OpenAICompatibleService(name, endpoint));
+      }
     }
     
     return this.instance;
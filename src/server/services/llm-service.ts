@@ -1,49 +1,108 @@
 // Base LLM service interface and implementation
 import dotenv from 'dotenv';
-import { TLLMProvider, TLLMRequest, TLLMResponse, ILLMService, TLLMPromptData, DiffChunk } from '../../types/llm-types';
+import {
+  TLLMProvider,
+  TLLMRequest,
+  TLLMResponse,
+  ILLMService,
+  TLLMPromptData,
+  DiffChunk,
+  TLLMFallbackAttempt,
+  TLLMResponsePart,
+  TLLMSynthesisStep,
+} from '../../types/llm-types';
+import { ConcurrencyLimiter } from '../utils/concurrency-limiter';
 import { TemplateService } from './template-service';
-import { optimizePrompt } from './llm-prompt-optimizer';
+import { optimizePrompt, TChunkTokenBudget } from './llm-prompt-optimizer';
 import { ResultAggregatorService, ChunkResult } from './result-aggregator-service';
+import { ProviderHealthMonitor } from './provider-health-monitor';
+import { estimateCost, sumCosts, sumUsage } from './token-usage-tracker';
+import { getModelCapabilityRegistry } from './model-capability-registry';
+import { getKnownProviders } from './openai-compatible-endpoints';
+import { getConfigManager } from '../utils/config-manager';
 
 dotenv.config();
 
+// HTTP statuses worth retrying on another provider: timeouts, rate limits/quota, outages, Anthropic's "overloaded"
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504, 529];
+const RETRYABLE_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN'];
+const RETRYABLE_MESSAGE_PATTERN = /rate.?limit|quota|overloaded|timed? ?out|temporarily unavailable/i;
+
+// Where a request is in its fallback chain. Chunked requests share one state across chunks, so after a
+// switch the remaining chunks continue on the new provider.
+type TFallbackState = {
+  providers: TLLMProvider[];
+  // Only moves forward: chunks running in parallel that fail on the same provider advance it once
+  current: number;
+  fallbacks: TLLMFallbackAttempt[];
+};
+
 export class LLMService {
   private services: Map<TLLMProvider, ILLMService>;
   private resultAggregator: ResultAggregatorService;
+  private fallbackChain: TLLMProvider[];
+  private healthMonitor: ProviderHealthMonitor;
+  // Shared by all requests, so the per-provider limit holds however many chunked requests run at once
+  private chunkLimiters = new Map<TLLMProvider, ConcurrencyLimiter>();
 
-  constructor() {
+  constructor(fallbackChain: TLLMProvider[] = LLMService.parseFallbackChain(process.env.LLM_FALLBACK_CHAIN)) {
     this.services = new Map();
     this.resultAggregator = new ResultAggregatorService();
+    this.fallbackChain = fallbackChain;
+    this.healthMonitor = new ProviderHealthMonitor(
+      provider => this.services.get(provider)!.isAvailable(),
+      () => [...this.services.keys()]
+    );
     // Services will be registered dynamically to avoid circular dependencies
   }
 
   registerService(provider: TLLMProvider, service: ILLMService): void {
     this.services.set(provider, service);
+    this.healthMonitor.reset(provider);
+  }
+
+  getHealthMonitor(): ProviderHealthMonitor {
+    return this.healthMonitor;
+  }
+
+  /**
+   * Providers registered with this service, built-in or configured endpoints
+   */
+  getRegisteredProviders(): TLLMProvider[] {
+    return [...this.services.keys()];
+  }
+
+  /**
+   * Parse LLM_FALLBACK_CHAIN, e.g. "claude,openai,vllm". Names that are neither built in nor a configured
+   * OpenAI-compatible endpoint are dropped.
+   */
+  static parseFallbackChain(value?: string): TLLMProvider[] {
+    const known = getKnownProviders();
+    return (value || '')
+      .split(',')
+      .map(provider => provider.trim().toLowerCase())
+      .filter((provider, index, all) => known.includes(provider) && all.indexOf(provider) === index);
+  }
+
+  /**
+   * Providers to try for a request: the requested one first, then the rest of the fallback chain in order
+   */
+  getProviderChain(provider: TLLMProvider): TLLMProvider[] {
+    return [provider, ...this.fallbackChain.filter(fallback => fallback !== provider)];
   }
 
   async generateDescription(request: TLLMRequest): Promise<TLLMResponse> {
     try {
-      const service = this.services.get(request.provider);
-      if (!service) {
+      if (!this.services.has(request.provider)) {
         return {
           success: false,
           error: `Unsupported LLM provider: ${request.provider}`
         };
       }
 
-      const isAvailable = await service.isAvailable();
-      if (!isAvailable) {
-        return {
-          success: false,
-          error: `${request.provider} service is not available. Please check your API credentials.`
-        };
-      } 
-     
-      console.info(`${request.provider} is available. Using ${request.provider} service for description generation.`);     
-
       // Optimize prompt data before sending to LLM
       if (request.prData) {
-        request.prData = optimizePrompt(request.prData);
+        request.prData = optimizePrompt(request.prData, await this.getChunkTokenBudget(request));
       }
 
       // Check if request requires chunking
@@ -51,7 +110,12 @@ export class LLMService {
         return await this.generateDescriptionChunked(request);
       }
 
-      return await service.generateDescription(request);
+      const state = this.createFallbackState(request.provider);
+      const response = await this.withFallback(state, request, (service, providerRequest) => {
+        console.info(`${providerRequest.provider} is available. Using ${providerRequest.provider} service for description generation.`);
+        return service.generateDescription(providerRequest);
+      });
+      return this.withCostEstimate(this.withFallbackMetadata(response, state));
     } catch (error: any) {
       return {
         success: false,
@@ -62,30 +126,19 @@ export class LLMService {
 
   async generateDescriptionStream(
     request: TLLMRequest, 
-    onToken: (token: string) => void
+    onToken: (token: string, chunkIndex?: number) => void
   ): Promise<TLLMResponse> {
     try {
-      const service = this.services.get(request.provider);
-      if (!service) {
+      if (!this.services.has(request.provider)) {
         return {
           success: false,
           error: `Unsupported LLM provider: ${request.provider}`
         };
       }
 
-      const isAvailable = await service.isAvailable();
-      if (!isAvailable) {
-        return {
-          success: false,
-          error: `${request.provider} service is not available. Please check your API credentials.`
-        };
-      }
-
-      console.info(`${request.provider} is available. Using ${request.provider} service for streaming description generation.`);
-
       // Optimize prompt data before sending to LLM
       if (request.prData) {
-        request.prData = optimizePrompt(request.prData);
+        request.prData = optimizePrompt(request.prData, await this.getChunkTokenBudget(request));
       }
 
       // Check if request requires chunking
@@ -93,21 +146,12 @@ export class LLMService {
         return await this.generateDescriptionStreamChunked(request, onToken);
       }
 
-      // Check if service supports streaming
-      if (service.generateDescriptionWithCallback) {
-        return await service.generateDescriptionWithCallback(request, onToken);
-      } else {
-        // Fallback to non-streaming if not supported
-        console.warn(`${request.provider} service does not support streaming. Falling back to non-streaming mode.`);
-        const response = await service.generateDescription(request);
-        
-        // Simulate streaming by sending the complete response at once
-        if (response.success && response.data) {
-          onToken(response.data.description);
-        }
-        
-        return response;
-      }
+      const state = this.createFallbackState(request.provider);
+      const response = await this.withFallback(state, request, (service, providerRequest) => {
+        console.info(`${providerRequest.provider} is available. Using ${providerRequest.provider} service for streaming description generation.`);
+        return this.streamFromService(service, providerRequest, onToken);
+      });
+      return this.withCostEstimate(this.withFallbackMetadata(response, state));
     } catch (error: any) {
       return {
         success: false,
@@ -118,19 +162,14 @@ export class LLMService {
 
   async getAvailableProviders(): Promise<TLLMProvider[]> {
     const availableProviders: TLLMProvider[] = [];
-    
-    for (const [provider, service] of this.services) {
-      try {
-        const isAvailable = await service.isAvailable();
-        if (isAvailable) {
-          availableProviders.push(provider);
-        }
-      } catch (error) {
-        // Service is not available, skip it
-        console.warn(`Provider ${provider} is not available:`, error);
+
+    // Answered from the health monitor's cache, so this only waits on providers whose status is stale
+    for (const provider of this.services.keys()) {
+      if (await this.healthMonitor.isAvailable(provider)) {
+        availableProviders.push(provider);
       }
     }
-    
+
     return availableProviders;
   }
 
@@ -154,9 +193,50 @@ export class LLMService {
   }
 
   async generateDescriptionChunked(request: TLLMRequest): Promise<TLLMResponse> {
+    return this.processChunks(
+      request,
+      'chunked request',
+      (service, chunkRequest, chunk) =>
+        this.withChunkTimeout(`Chunk ${chunk.index + 1}`, signal => service.generateDescription(chunkRequest, signal)),
+      (service, synthesisRequest, final) =>
+        this.withChunkTimeout(final ? 'Synthesis' : 'Summary merge', signal => service.generateDescription(synthesisRequest, signal))
+    );
+  }
+
+  /**
+   * Stream a chunked request. Chunks run in parallel, so each chunk's summary is sent on its own channel,
+   * identified by the chunk index passed to `onToken`; the final description is streamed without one.
+   */
+  async generateDescriptionStreamChunked(
+    request: TLLMRequest, 
+    onToken: (token: string, chunkIndex?: number) => void
+  ): Promise<TLLMResponse> {
+    return this.processChunks(
+      request,
+      'streamed chunked request',
+      (service, chunkRequest, chunk) =>
+        this.streamWithTimeout(`Chunk ${chunk.index + 1}`, service, chunkRequest, token => onToken(token, chunk.index)),
+      (service, synthesisRequest, final) => final
+        ? this.streamWithTimeout('Synthesis', service, synthesisRequest, token => onToken(token))
+        : this.withChunkTimeout('Summary merge', signal => service.generateDescription(synthesisRequest, signal))
+    );
+  }
+
+  /**
+   * Process chunks concurrently, up to the provider's chunk concurrency limit, then merge them in chunk order.
+   * Each chunk is summarised, and the summaries are synthesised into a description that follows the selected
+   * template. Findings templates skip the synthesis: their file/line references don't survive a summary, so each
+   * chunk is reviewed with the selected template and the findings arrays are joined. A chunk that fails with a retryable error is retried on the next provider in the fallback chain,
+   * and the remaining chunks and the synthesis continue there; the chunks already done are kept.
+   */
+  private async processChunks(
+    request: TLLMRequest,
+    label: string,
+    generate: (service: ILLMService, chunkRequest: TLLMRequest, chunk: DiffChunk) => Promise<TLLMResponse>,
+    synthesize: (service: ILLMService, synthesisRequest: TLLMRequest, final: boolean) => Promise<TLLMResponse>
+  ): Promise<TLLMResponse> {
     try {
-      const service = this.services.get(request.provider);
-      if (!service) {
+      if (!this.services.has(request.provider)) {
         return {
           success: false,
           error: `Unsupported LLM provider: ${request.provider}`
@@ -173,12 +253,14 @@ export class LLMService {
 
       console.info(`Processing ${prData.chunks.length} chunks using ${request.provider} service`);
 
-      const chunkResults: ChunkResult[] = [];
+      const state = this.createFallbackState(request.provider);
+      const templates = TemplateService.getSynthesisTemplates(request.template);
+      const joinFindings = !!request.template && TemplateService.getTemplateMetadata(request.template)?.category === 'findings';
 
-      // Process each chunk sequentially
-      for (const chunk of prData.chunks) {
+      const results = await Promise.all(prData.chunks.map(async (chunk): Promise<{ result: ChunkResult; part?: TLLMResponsePart }> => {
         const chunkRequest: TLLMRequest = {
           ...request,
+          template: joinFindings ? request.template : templates.chunkSummary,
           prData: {
             ...prData,
             diff: chunk.content,
@@ -187,145 +269,351 @@ export class LLMService {
         };
 
         try {
-          const response = await service.generateDescription(chunkRequest);
-          
-          chunkResults.push({
-            chunkIndex: chunk.index,
-            success: response.success,
-            description: response.data?.description || '',
-            error: response.error
-          });
+          const response = await this.withFallback(state, chunkRequest, (service, providerRequest) =>
+            generate(service, providerRequest, chunk), chunk.index);
 
           console.info(`Chunk ${chunk.index + 1}/${chunk.totalChunks} processed: ${response.success ? 'success' : 'failed'}`);
+          return {
+            result: {
+              chunkIndex: chunk.index,
+              success: response.success,
+              description: response.data?.description || '',
+              error: response.error
+            },
+            ...(response.success && response.data && {
+              part: {
+                chunkIndex: chunk.index,
+                provider: response.data.provider,
+                model: response.data.model,
+                ...(response.data.usage && { usage: response.data.usage })
+              }
+            })
+          };
         } catch (error) {
-          chunkResults.push({
-            chunkIndex: chunk.index,
-            success: false,
-            description: '',
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
           console.error(`Chunk ${chunk.index + 1}/${chunk.totalChunks} failed:`, error);
+          return {
+            result: {
+              chunkIndex: chunk.index,
+              success: false,
+              description: '',
+              error: error instanceof Error ? error.message : 'Unknown error'
+            }
+          };
         }
-      }
-
-      // Aggregate results
-      const aggregatedResult = this.resultAggregator.aggregateResults(prData.chunks, chunkResults);
+      }));
+
+      // Promise.all keeps chunk order whatever order the chunks finished in
+      const chunkResults = results.map(({ result }) => result);
+      const parts = results.flatMap(({ part }) => part ? [part] : []);
+      state.fallbacks.sort((a, b) => (a.chunkIndex ?? 0) - (b.chunkIndex ?? 0));
+
+      const steps: TLLMSynthesisStep[] = [];
+      const aggregatedResult = joinFindings
+        ? this.resultAggregator.aggregateResults(prData.chunks, chunkResults)
+        : await this.resultAggregator.synthesizeResults(
+          prData.chunks,
+          chunkResults,
+          (summaries, final) => this.reduceSummaries(state, request, summaries, final, synthesize, steps),
+          getConfigManager().getChunkingConfig().synthesisFanIn
+        );
 
       if (!aggregatedResult.success) {
         return {
           success: false,
-          error: `Failed to process chunked request: ${aggregatedResult.error}`
+          error: `Failed to process ${label}: ${aggregatedResult.error}`
         };
       }
 
-      return {
+      const calls = [...parts, ...steps];
+      const lastCall = calls[calls.length - 1];
+      // Chunks may have run on different providers, so each call is priced at its own model's rate
+      const usage = sumUsage(calls.map(call => call.usage));
+      const cost = usage && sumCosts(calls.map(call => call.usage && estimateCost(call.usage, call.provider, call.model)));
+      return this.withFallbackMetadata({
         success: true,
         data: {
           description: aggregatedResult.description,
-          provider: request.provider,
-          model: request.options?.model
+          provider: lastCall?.provider || request.provider,
+          model: lastCall?.provider === request.provider ? request.options?.model : lastCall?.model,
+          parts,
+          ...(steps.length > 0 && { synthesis: steps }),
+          ...(usage && { usage }),
+          ...(cost && { cost })
         }
-      };
+      }, state);
     } catch (error: any) {
       return {
         success: false,
-        error: `Failed to process chunked request: ${error.message}`
+        error: `Failed to process ${label}: ${error.message}`
       };
     }
   }
 
-  async generateDescriptionStreamChunked(
-    request: TLLMRequest, 
-    onToken: (token: string) => void
-  ): Promise<TLLMResponse> {
-    try {
-      const service = this.services.get(request.provider);
-      if (!service) {
-        return {
-          success: false,
-          error: `Unsupported LLM provider: ${request.provider}`
-        };
+  /**
+   * Merge chunk summaries with one call, on the provider the chain has reached. The final call renders the selected
+   * template into the synthesis prompt, with the summaries standing in for the diff, so the description follows it.
+   */
+  private async reduceSummaries(
+    state: TFallbackState,
+    request: TLLMRequest,
+    summaries: string[],
+    final: boolean,
+    synthesize: (service: ILLMService, synthesisRequest: TLLMRequest, final: boolean) => Promise<TLLMResponse>,
+    steps: TLLMSynthesisStep[]
+  ): Promise<string> {
+    const templates = TemplateService.getSynthesisTemplates(request.template);
+    const prData = request.prData!;
+    const synthesisRequest: TLLMRequest = {
+      ...request,
+      template: final ? templates.synthesis : templates.merge,
+      prData: {
+        ...prData,
+        chunkSummaries: summaries.map((summary, index) => `[${index + 1}]\n${summary.trim()}`).join('\n\n'),
+        ...(final && {
+          outputTemplate: TemplateService.formatPRDataForPrompt({ ...prData, diff: templates.diffPlaceholder }, request.template)
+        })
       }
+    };
 
-      const prData = request.prData;
-      if (!prData?.chunks || prData.chunks.length === 0) {
-        return {
-          success: false,
-          error: 'No chunks to process'
-        };
+    // Merges share the chunk slots, so a PR's synthesis calls respect the provider's concurrency limit too
+    const response = await this.withFallback(state, synthesisRequest, (service, providerRequest) =>
+      this.getChunkLimiter(providerRequest.provider).run(() => synthesize(service, providerRequest, final)));
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to merge chunk summaries');
+    }
+
+    steps.push({
+      final,
+      provider: response.data.provider,
+      model: response.data.model,
+      ...(response.data.usage && { usage: response.data.usage })
+    });
+    return response.data.description;
+  }
+
+  /**
+   * Chunk budget that fits every provider in the fallback chain. Chunks are sized once and a prompt that falls back
+   * is sent to the next provider as it is, so the smallest context window decides.
+   */
+  private async getChunkTokenBudget(request: TLLMRequest): Promise<TChunkTokenBudget | undefined> {
+    if (!getConfigManager().getChunkingConfig().enabled) {
+      return undefined;
+    }
+    let smallest: TChunkTokenBudget | undefined;
+    for (const provider of this.getProviderChain(request.provider)) {
+      if (!this.services.has(provider)) {
+        continue;
       }
+      try {
+        const tokens = await getModelCapabilityRegistry().getChunkTokenBudget(this.forProvider(request, provider));
+        if (!smallest || tokens < smallest.tokens) {
+          smallest = { provider, tokens };
+        }
+      } catch (error: any) {
+        // e.g. an unknown template; the provider call reports that properly, chunking falls back to characters
+        console.warn(`Could not compute a token budget for ${provider}, chunking by characters: ${error.message}`);
+        return undefined;
+      }
+    }
+    return smallest;
+  }
 
-      console.info(`Streaming ${prData.chunks.length} chunks using ${request.provider} service`);
+  /**
+   * The request as sent to a provider of the fallback chain. A model named for the requested provider means
+   * nothing to the fallbacks.
+   */
+  private forProvider(request: TLLMRequest, provider: TLLMProvider): TLLMRequest {
+    return provider === request.provider
+      ? request
+      : { ...request, provider, options: request.options && { ...request.options, model: undefined } };
+  }
 
-      const chunkResults: ChunkResult[] = [];
+  private getChunkLimiter(provider: TLLMProvider): ConcurrencyLimiter {
+    let limiter = this.chunkLimiters.get(provider);
+    if (!limiter) {
+      const { concurrency, providerConcurrency } = getConfigManager().getChunkingConfig();
+      limiter = new ConcurrencyLimiter(providerConcurrency[provider] ?? concurrency);
+      this.chunkLimiters.set(provider, limiter);
+    }
+    return limiter;
+  }
 
-      // Process each chunk sequentially with streaming
-      for (const chunk of prData.chunks) {
-        const chunkRequest: TLLMRequest = {
-          ...request,
-          prData: {
-            ...prData,
-            diff: chunk.content,
-            additionalContext: `Processing chunk ${chunk.index + 1} of ${chunk.totalChunks}. ${prData.additionalContext || ''}`
-          }
-        };
+  /**
+   * Fail a chunk or synthesis attempt that runs past CHUNK_TIMEOUT_MS. `signal` aborts the provider call, so a
+   * timed-out attempt doesn't keep running after its chunk slot is released.
+   */
+  private async withChunkTimeout(
+    label: string,
+    attempt: (signal: AbortSignal) => Promise<TLLMResponse>
+  ): Promise<TLLMResponse> {
+    const { timeoutMs } = getConfigManager().getChunkingConfig();
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<TLLMResponse>(resolve => {
+      timer = setTimeout(() => {
+        controller.abort();
+        resolve({ success: false, error: `${label} timed out after ${timeoutMs}ms`, retryable: true });
+      }, timeoutMs);
+    });
 
-        try {
-          let response: TLLMResponse;
-          
-          if (service.generateDescriptionWithCallback) {
-            response = await service.generateDescriptionWithCallback(chunkRequest, onToken);
-          } else {
-            // Fallback to non-streaming
-            response = await service.generateDescription(chunkRequest);
-            if (response.success && response.data) {
-              onToken(response.data.description);
-            }
-          }
-          
-          chunkResults.push({
-            chunkIndex: chunk.index,
-            success: response.success,
-            description: response.data?.description || '',
-            error: response.error
-          });
-
-          console.info(`Streamed chunk ${chunk.index + 1}/${chunk.totalChunks}: ${response.success ? 'success' : 'failed'}`);
-        } catch (error) {
-          chunkResults.push({
-            chunkIndex: chunk.index,
-            success: false,
-            description: '',
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-          console.error(`Streaming chunk ${chunk.index + 1}/${chunk.totalChunks} failed:`, error);
+    try {
+      return await Promise.race([attempt(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async streamWithTimeout(
+    label: string,
+    service: ILLMService,
+    request: TLLMRequest,
+    onToken: (token: string) => void
+  ): Promise<TLLMResponse> {
+    let streamed = false;
+    const response = await this.withChunkTimeout(label, signal =>
+      this.streamFromService(service, request, token => {
+        // A provider may still deliver tokens it had buffered before the abort; its channel belongs to the retry now
+        if (!signal.aborted) {
+          streamed = true;
+          onToken(token);
         }
-      }
+      }, signal)
+    );
+    // Retrying an attempt whose tokens were already sent would repeat them on its channel
+    return streamed && !response.success ? { ...response, retryable: false } : response;
+  }
 
-      // Aggregate results
-      const aggregatedResult = this.resultAggregator.aggregateResults(prData.chunks, chunkResults);
+  private createFallbackState(provider: TLLMProvider): TFallbackState {
+    return { providers: this.getProviderChain(provider), current: 0, fallbacks: [] };
+  }
 
-      if (!aggregatedResult.success) {
-        return {
+  /**
+   * Run `generate` on the current provider of the chain, moving down the chain while providers are unavailable
+   * or fail with a retryable error. A non-retryable failure is returned as is.
+   */
+  private async withFallback(
+    state: TFallbackState,
+    request: TLLMRequest,
+    generate: (service: ILLMService, providerRequest: TLLMRequest) => Promise<TLLMResponse>,
+    chunkIndex?: number
+  ): Promise<TLLMResponse> {
+    let lastFailure: TLLMResponse | undefined;
+
+    // Start where the chain is now, and after a failure skip ahead if other chunks already moved it further
+    for (let index = state.current; index < state.providers.length; index = Math.max(index + 1, state.current)) {
+      const provider = state.providers[index];
+      const service = this.services.get(provider);
+      if (!service) {
+        continue;
+      }
+
+      // Cached, so chunks after the first don't probe again; an open circuit skips the provider outright
+      if (!(await this.healthMonitor.isAvailable(provider))) {
+        lastFailure = {
           success: false,
-          error: `Failed to process streamed chunked request: ${aggregatedResult.error}`
+          error: `${provider} service is not available. Please check your API credentials.`,
+          retryable: true
         };
+        this.advanceFallback(state, index, lastFailure.error!, chunkIndex);
+        continue;
       }
 
-      return {
-        success: true,
-        data: {
-          description: aggregatedResult.description,
-          provider: request.provider,
-          model: request.options?.model
+      const providerRequest = this.forProvider(request, provider);
+      const attempt = async (): Promise<TLLMResponse> => {
+        const response = await generate(service, providerRequest);
+        if (!response.success && response.retryable) {
+          // Only transient failures say anything about the provider's health. The chain moves on before a
+          // chunk slot is released, so chunks queued behind this one see the switch.
+          this.healthMonitor.recordFailure(provider, response.error || 'Unknown error');
+          this.advanceFallback(state, index, response.error || 'Unknown error', chunkIndex);
         }
+        return response;
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: `Failed to process streamed chunked request: ${error.message}`
-      };
+      // Chunks wait for a slot on each provider they try. One that queued while other chunks moved the chain on
+      // follows them instead of calling the provider they gave up on.
+      const response = chunkIndex === undefined
+        ? await attempt()
+        : await this.getChunkLimiter(provider).run(async () => state.current > index ? undefined : attempt());
+      if (!response) {
+        continue;
+      }
+      if (response.success) {
+        this.healthMonitor.recordSuccess(provider);
+        return response;
+      }
+      if (!response.retryable) {
+        return response;
+      }
+      lastFailure = response;
+    }
+
+    return lastFailure || { success: false, error: 'No LLM providers left in the fallback chain' };
+  }
+
+  private advanceFallback(state: TFallbackState, index: number, error: string, chunkIndex?: number): void {
+    state.current = Math.max(state.current, index + 1);
+    const provider = state.providers[index];
+    // Only worth reporting when there is somewhere to fall back to
+    if (state.providers.length > 1) {
+      console.warn(`${provider} failed with a retryable error${index < state.providers.length - 1 ? ', trying the next provider' : ''}: ${error}`);
+      state.fallbacks.push({ provider, error, ...(chunkIndex !== undefined && { chunkIndex }) });
+    }
+  }
+
+  private withFallbackMetadata(response: TLLMResponse, state: TFallbackState): TLLMResponse {
+    if (!response.success || !response.data || state.fallbacks.length === 0) {
+      return response;
+    }
+    return { ...response, data: { ...response.data, fallbacks: state.fallbacks } };
+  }
+
+  private withCostEstimate(response: TLLMResponse): TLLMResponse {
+    if (!response.success || !response.data?.usage) {
+      return response;
+    }
+    const cost = estimateCost(response.data.usage, response.data.provider, response.data.model);
+    return cost ? { ...response, data: { ...response.data, cost } } : response;
+  }
+
+  /**
+   * Stream from a service, or send its whole response as one token when it can't stream. Once tokens have
+   * reached the client a failure is no longer retried elsewhere, as that would repeat output.
+   */
+  private async streamFromService(
+    service: ILLMService,
+    request: TLLMRequest,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<TLLMResponse> {
+    if (!service.generateDescriptionWithCallback) {
+      console.warn(`${request.provider} service does not support streaming. Falling back to non-streaming mode.`);
+      const response = await service.generateDescription(request, signal);
+      if (response.success && response.data) {
+        onToken(response.data.description);
+      }
+      return response;
+    }
+
+    let streamed = false;
+    const response = await service.generateDescriptionWithCallback(request, token => {
+      streamed = true;
+      onToken(token);
+    }, signal);
+    return streamed && !response.success ? { ...response, retryable: false } : response;
+  }
+
+  /**
+   * Whether an error from a provider SDK or HTTP call is transient
+   */
+  static isRetryableError(error: any): boolean {
+    const status = error?.status ?? error?.response?.status;
+    if (status !== undefined) {
+      return RETRYABLE_STATUS_CODES.includes(status);
+    }
+    if (RETRYABLE_ERROR_CODES.includes(error?.code) || RETRYABLE_ERROR_CODES.includes(error?.cause?.code)) {
+      return true;
     }
+    return RETRYABLE_MESSAGE_PATTERN.test(error?.message || '');
   }
 
   static handleError(error: any, provider: TLLMProvider): TLLMResponse {
@@ -346,7 +634,8 @@ export class LLMService {
     console.error(`Error from ${provider} service:`, errorMessage);
     return {
       success: false,
-      error: `${provider} service error: ${errorMessage}`
+      error: `${provider} service error: ${errorMessage}`,
+      retryable: LLMService.isRetryableError(error)
     };
   }
 }
@@ -0,0 +1,82 @@
+// Service for reading a branch's changes from a local git checkout
+import { execFile } from 'child_process';
+import path from 'path';
+import { TPromptCommit } from '../../types/llm-types';
+import { TRawDiffInput } from '../../types/source-control-types';
+
+// Field and record separators for `git log --format`; they never appear in commit text
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+export class LocalGitService {
+  constructor(private cwd: string = process.cwd()) {}
+
+  /**
+   * Changes on `head` since it diverged from `base` (`git diff base...head`), with the metadata a PR would carry.
+   * The title defaults to the subject of the first commit on the branch.
+   */
+  async readDiffInput(base: string, head: string = 'HEAD', overrides: Partial<TRawDiffInput> = {}): Promise<TRawDiffInput> {
+    this.validateRef(base);
+    this.validateRef(head);
+
+    const [diff, topLevel, headBranch, author] = await Promise.all([
+      this.git(['diff', '--no-color', '--no-ext-diff', `${base}...${head}`]),
+      this.git(['rev-parse', '--show-toplevel']),
+      this.git(['rev-parse', '--abbrev-ref', head]),
+      this.git(['log', '-1', '--format=%an', head])
+    ]);
+    const commits = await this.readCommits(base, head);
+
+    return {
+      diff,
+      title: overrides.title || commits[0]?.message.split('\n')[0] || `Changes from ${base} to ${head}`,
+      description: overrides.description,
+      author: overrides.author || author.trim(),
+      // A detached head has no branch name; fall back to the ref that was asked for
+      sourceBranch: overrides.sourceBranch || (headBranch.trim() === 'HEAD' ? head : headBranch.trim()),
+      destinationBranch: overrides.destinationBranch || base,
+      repository: overrides.repository || path.basename(topLevel.trim())
+    };
+  }
+
+  /**
+   * Non-merge commits on `head` that are not on `base`, oldest first
+   */
+  async readCommits(base: string, head: string = 'HEAD'): Promise<TPromptCommit[]> {
+    this.validateRef(base);
+    this.validateRef(head);
+
+    const output = await this.git([
+      'log', '--reverse', '--no-merges', `--format=%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%B${RECORD_SEPARATOR}`, `${base}..${head}`
+    ]);
+    return output
+      .split(RECORD_SEPARATOR)
+      .map(record => record.trim())
+      .filter(record => record.length > 0)
+      .map(record => {
+        const [hash, author, message] = record.split(FIELD_SEPARATOR);
+        return { hash, author, message: message.trim() };
+      });
+  }
+
+  // Refs are passed as arguments, never through a shell, but an option-like ref would still be parsed as a flag
+  private validateRef(ref: string): void {
+    if (!ref || ref.startsWith('-') || /\s/.test(ref)) {
+      throw new Error(`Invalid git ref: ${ref}`);
+    }
+  }
+
+  private git(args: string[]): Promise<string> {
+    // Leave headroom over the diff limit so an oversized diff is reported as such rather than as a git failure
+    const maxBuffer = parseInt(process.env.BITBUCKET_DIFF_MAX_SIZE || '1048576') * 4;
+    return new Promise((resolve, reject) => {
+      execFile('git', args, { cwd: this.cwd, maxBuffer }, (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(`git ${args[0]} failed: ${(stderr || error.message).trim()}`));
+          return;
+        }
+        resolve(stdout);
+      });
+    });
+  }
+}
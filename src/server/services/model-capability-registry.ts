@@ -0,0 +1,134 @@
+// Registry of model token limits, used to size diff chunks to the model that will read them
+import { TLLMProvider, TLLMRequest, TModelCapabilities } from '../../types/llm-types';
+import { TemplateService } from './template-service';
+import { estimateTokens } from './token-usage-tracker';
+import { getOpenAICompatibleEndpoints } from './openai-compatible-endpoints';
+import { logWarn } from '../utils/logger';
+
+// Matched by the longest model name prefix. Extend or override with LLM_MODEL_CAPABILITIES.
+export const DEFAULT_MODEL_CAPABILITIES: Record<string, TModelCapabilities> = {
+  'gpt-3.5-turbo': { contextWindow: 16385, maxOutputTokens: 4096 },
+  'gpt-4': { contextWindow: 8192, maxOutputTokens: 8192 },
+  'gpt-4-turbo': { contextWindow: 128000, maxOutputTokens: 4096 },
+  'gpt-4o': { contextWindow: 128000, maxOutputTokens: 16384 },
+  'gpt-4.1': { contextWindow: 1047576, maxOutputTokens: 32768 },
+  'claude-3': { contextWindow: 200000, maxOutputTokens: 4096 },
+  'claude-3-5': { contextWindow: 200000, maxOutputTokens: 8192 },
+  'claude-3-7-sonnet': { contextWindow: 200000, maxOutputTokens: 64000 },
+  'claude-sonnet-4': { contextWindow: 200000, maxOutputTokens: 64000 },
+  'claude-opus-4': { contextWindow: 200000, maxOutputTokens: 32000 }
+};
+
+// For models the table doesn't know. Ollama serves every model with its default 4096-token context unless
+// num_ctx is raised, so local models are sized for that rather than for what the weights support.
+// OpenAI-compatible endpoints get the conservative OpenAI default.
+const PROVIDER_DEFAULTS: Record<TLLMProvider, TModelCapabilities> = {
+  [TLLMProvider.OPENAI]: { contextWindow: 8192, maxOutputTokens: 4096 },
+  [TLLMProvider.CLAUDE]: { contextWindow: 200000, maxOutputTokens: 4096 },
+  [TLLMProvider.OLLAMA]: { contextWindow: 4096, maxOutputTokens: 2048 },
+  [TLLMProvider.AZURE_OPENAI]: { contextWindow: 8192, maxOutputTokens: 4096 }
+};
+
+// Output the provider services request when the caller sets no maxTokens
+const DEFAULT_OUTPUT_TOKENS = 1000;
+// System message, the per-chunk note and the estimate's error margin
+const PROMPT_OVERHEAD_TOKENS = 100;
+const ESTIMATE_SAFETY_FACTOR = 0.9;
+// Below this a chunk holds too little of the diff to describe anything
+const MIN_CHUNK_TOKENS = 256;
+
+export class ModelCapabilityRegistry {
+  private capabilities: Record<string, TModelCapabilities>;
+
+  constructor(overrides: Record<string, TModelCapabilities> = ModelCapabilityRegistry.parseOverrides(process.env.LLM_MODEL_CAPABILITIES)) {
+    this.capabilities = { ...DEFAULT_MODEL_CAPABILITIES, ...overrides };
+  }
+
+  /**
+   * Parse LLM_MODEL_CAPABILITIES, e.g. {"llama3.1":{"contextWindow":32768,"maxOutputTokens":4096}}
+   */
+  static parseOverrides(value?: string): Record<string, TModelCapabilities> {
+    if (!value) {
+      return {};
+    }
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      logWarn('Invalid LLM_MODEL_CAPABILITIES, using the built-in model limits', { error: (error as Error).message });
+      return {};
+    }
+  }
+
+  static getDefaultModel(provider: TLLMProvider): string {
+    switch (provider) {
+      case TLLMProvider.OPENAI:
+        return process.env.OPENAI_MODEL || 'gpt-3.5-turbo';
+      case TLLMProvider.CLAUDE:
+        return process.env.CLAUDE_MODEL || 'claude-3-5-sonnet-20241022';
+      case TLLMProvider.OLLAMA:
+        return process.env.OLLAMA_MODEL || 'llama2';
+      case TLLMProvider.AZURE_OPENAI:
+        // Deployment names are free-form; AZURE_OPENAI_MODEL names the model behind the deployment
+        return process.env.AZURE_OPENAI_MODEL || process.env.AZURE_OPENAI_DEPLOYMENT || '';
+      default:
+        return getOpenAICompatibleEndpoints()[provider]?.model || '';
+    }
+  }
+
+  register(model: string, capabilities: TModelCapabilities): void {
+    this.capabilities[model] = capabilities;
+  }
+
+  /**
+   * Limits of a model, or of its provider's typical model when the model is unknown
+   */
+  get(provider: TLLMProvider, model: string = ModelCapabilityRegistry.getDefaultModel(provider)): TModelCapabilities {
+    const prefix = Object.keys(this.capabilities)
+      .filter(name => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.capabilities[prefix] : PROVIDER_DEFAULTS[provider] || PROVIDER_DEFAULTS[TLLMProvider.OPENAI];
+  }
+
+  /**
+   * Tokens of diff that fit in one chunk for a request: the model's context window minus the rendered template
+   * (everything but the diff), the reserved output and some overhead.
+   */
+  async getChunkTokenBudget(request: TLLMRequest): Promise<number> {
+    const { contextWindow, maxOutputTokens } = this.get(request.provider, request.options?.model);
+    const reservedOutput = Math.min(request.options?.maxTokens || DEFAULT_OUTPUT_TOKENS, maxOutputTokens);
+    const templateTokens = await this.estimateTemplateTokens(request);
+
+    const budget = Math.floor((contextWindow - reservedOutput - templateTokens - PROMPT_OVERHEAD_TOKENS) * ESTIMATE_SAFETY_FACTOR);
+    if (budget < MIN_CHUNK_TOKENS) {
+      logWarn('Prompt leaves little room for the diff in the model context window', {
+        provider: request.provider,
+        model: request.options?.model,
+        contextWindow,
+        templateTokens,
+        reservedOutput
+      });
+      return MIN_CHUNK_TOKENS;
+    }
+    return budget;
+  }
+
+  private async estimateTemplateTokens(request: TLLMRequest): Promise<number> {
+    const templateName = request.template || 'pr-description-template-zh.txt';
+    const template = TemplateService.createChatTemplate('', templateName);
+    const variables = TemplateService.buildTemplateVariables({ ...request.prData, diff: '' }, templateName);
+    return estimateTokens(await template.format(variables), request.provider);
+  }
+}
+
+let registry: ModelCapabilityRegistry | null = null;
+
+export function getModelCapabilityRegistry(): ModelCapabilityRegistry {
+  if (!registry) {
+    registry = new ModelCapabilityRegistry();
+  }
+  return registry;
+}
+
+export function resetModelCapabilityRegistry(): void {
+  registry = null;
+}
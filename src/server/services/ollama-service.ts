@@ -6,6 +6,7 @@ import dotenv from 'dotenv';
 import { TLLMProvider, TLLMRequest, TLLMResponse, ILLMService } from '../../types/llm-types';
 import { LLMService } from './llm-service';
 import { TemplateService } from './template-service';
+import { TokenUsageCollector } from './token-usage-tracker';
 
 dotenv.config();
 
@@ -37,7 +38,7 @@ export class OllamaService implements ILLMService {
     return headers;
   }
 
-  async generateDescription(request: TLLMRequest): Promise<TLLMResponse> {
+  async generateDescription(request: TLLMRequest, signal?: AbortSignal): Promise<TLLMResponse> {
     try {
       const model = request.options?.model || this.defaultModel;
       const temperature = request.options?.temperature || 0.7;
@@ -61,19 +62,14 @@ export class OllamaService implements ILLMService {
       const chain = chatTemplate.pipe(llm).pipe(new StringOutputParser());
 
       // Prepare template variables
-      const templateVariables = {
-        title: request.prData.title,
-        description: request.prData.description || '無描述提供',
-        author: request.prData.author,
-        repository: request.prData.repository,
-        sourceBranch: request.prData.sourceBranch,
-        destinationBranch: request.prData.destinationBranch,
-        diff: request.prData.diff,
-        additionalContext: request.prData.additionalContext || ''
-      };
+      const templateVariables = TemplateService.buildTemplateVariables(request.prData, templateName);
+
+      // Estimate the prompt before the call; actual usage is read from the response metadata
+      const usage = new TokenUsageCollector(TLLMProvider.OLLAMA);
+      await usage.estimatePrompt(chatTemplate, templateVariables);
 
       // Execute the chain
-      const generatedText = await chain.invoke(templateVariables);
+      const generatedText = await chain.invoke(templateVariables, { callbacks: [usage.handler], signal });
 
       if (!generatedText) {
         return {
@@ -90,7 +86,8 @@ export class OllamaService implements ILLMService {
         data: {
           description: processedResponse,
           provider: TLLMProvider.OLLAMA,
-          model
+          model,
+          usage: usage.getUsage(generatedText)
         }
       };
     } catch (error: any) {
@@ -121,10 +118,11 @@ export class OllamaService implements ILLMService {
 
   async generateDescriptionWithCallback(
     request: TLLMRequest,
-    onToken?: (token: string) => void
+    onToken?: (token: string) => void,
+    signal?: AbortSignal
   ): Promise<TLLMResponse> {
     if (!onToken) {
-      return this.generateDescription(request);
+      return this.generateDescription(request, signal);
     }
 
     try {
@@ -150,21 +148,15 @@ export class OllamaService implements ILLMService {
       const chain = chatTemplate.pipe(streamingLLM).pipe(new StringOutputParser());
 
       // Prepare template variables
-      const templateVariables = {
-        title: request.prData.title,
-        description: request.prData.description || '無描述提供',
-        author: request.prData.author,
-        repository: request.prData.repository,
-        sourceBranch: request.prData.sourceBranch,
-        destinationBranch: request.prData.destinationBranch,
-        diff: request.prData.diff,
-        additionalContext: request.prData.additionalContext || ''
-      };
+      const templateVariables = TemplateService.buildTemplateVariables(request.prData, templateName);
 
       let fullContent = '';
       
+      const usage = new TokenUsageCollector(TLLMProvider.OLLAMA);
+      await usage.estimatePrompt(chatTemplate, templateVariables);
+
       // Use streaming with callback
-      const stream = await chain.stream(templateVariables);
+      const stream = await chain.stream(templateVariables, { callbacks: [usage.handler], signal });
       
       for await (const chunk of stream) {
         fullContent += chunk;
@@ -186,7 +178,8 @@ export class OllamaService implements ILLMService {
         data: {
           description: processedResponse,
           provider: TLLMProvider.OLLAMA,
-          model
+          model,
+          usage: usage.getUsage(fullContent)
         }
       };
     } catch (error: any) {
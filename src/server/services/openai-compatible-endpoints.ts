@@ -0,0 +1,70 @@
+// Named OpenAI-compatible endpoints (vLLM, LM Studio, ...) configured in OPENAI_COMPATIBLE_ENDPOINTS
+import { TLLMProvider, TOpenAICompatibleEndpoint } from '../../types/llm-types';
+import { logWarn } from '../utils/logger';
+
+// Names become provider ids, so they follow the built-in ids: lowercase, usable in URLs and comma/= separated settings
+const ENDPOINT_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
+/**
+ * Parse OPENAI_COMPATIBLE_ENDPOINTS, e.g.
+ * {"vllm":{"baseURL":"http://localhost:8000/v1","model":"meta-llama/Llama-3.1-8B-Instruct","headers":{"X-Team":"web"}}}.
+ * Endpoints without a base URL and model, or whose name is invalid or taken by a built-in provider, are skipped.
+ */
+export function parseOpenAICompatibleEndpoints(value?: string): Record<string, TOpenAICompatibleEndpoint> {
+  if (!value) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    logWarn('Invalid OPENAI_COMPATIBLE_ENDPOINTS, no OpenAI-compatible endpoints registered', { error: (error as Error).message });
+    return {};
+  }
+  // Valid JSON is not enough: null, arrays and scalars name no endpoints
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    logWarn('OPENAI_COMPATIBLE_ENDPOINTS must be a JSON object of named endpoints, no OpenAI-compatible endpoints registered');
+    return {};
+  }
+
+  const builtIn = Object.values(TLLMProvider) as string[];
+  const endpoints: Record<string, TOpenAICompatibleEndpoint> = {};
+  for (const [name, endpoint] of Object.entries(parsed as Record<string, Partial<TOpenAICompatibleEndpoint>>)) {
+    if (!ENDPOINT_NAME_PATTERN.test(name) || builtIn.includes(name)) {
+      logWarn('Skipping OpenAI-compatible endpoint with an invalid or reserved name', { name });
+      continue;
+    }
+    if (!endpoint?.baseURL || !endpoint.model) {
+      logWarn('Skipping OpenAI-compatible endpoint without a baseURL and model', { name });
+      continue;
+    }
+    endpoints[name] = {
+      baseURL: endpoint.baseURL.replace(/\/+$/, ''),
+      model: endpoint.model,
+      ...(endpoint.apiKey && { apiKey: endpoint.apiKey }),
+      ...(endpoint.headers && { headers: endpoint.headers })
+    };
+  }
+  return endpoints;
+}
+
+let endpoints: Record<string, TOpenAICompatibleEndpoint> | null = null;
+
+export function getOpenAICompatibleEndpoints(): Record<string, TOpenAICompatibleEndpoint> {
+  if (!endpoints) {
+    endpoints = parseOpenAICompatibleEndpoints(process.env.OPENAI_COMPATIBLE_ENDPOINTS);
+  }
+  return endpoints;
+}
+
+export function resetOpenAICompatibleEndpoints(): void {
+  endpoints = null;
+}
+
+/**
+ * Every provider id that can be registered: the built-in providers, then the configured endpoints
+ */
+export function getKnownProviders(): TLLMProvider[] {
+  return [...Object.values(TLLMProvider), ...Object.keys(getOpenAICompatibleEndpoints())];
+}
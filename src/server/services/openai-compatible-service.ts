@@ -0,0 +1,171 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import axios from 'axios';
+import { TLLMProvider, TLLMRequest, TLLMResponse, ILLMService, TOpenAICompatibleEndpoint } from '../../types/llm-types';
+import { LLMService } from './llm-service';
+import { TemplateService } from './template-service';
+import { TokenUsageCollector } from './token-usage-tracker';
+
+// GET /models, the one endpoint every OpenAI-compatible server implements
+type TModelsResponse = {
+  data?: Array<{ id: string }>;
+};
+
+// One configured OpenAI-compatible endpoint, registered as a provider under its configured name
+export class OpenAICompatibleService implements ILLMService {
+  constructor(private name: TLLMProvider, private endpoint: TOpenAICompatibleEndpoint) {}
+
+  private createLLM(model: string, options: { temperature?: number; maxTokens?: number; streaming?: boolean }): ChatOpenAI {
+    return new ChatOpenAI({
+      // Local servers usually accept any key, but the client refuses to start without one
+      apiKey: this.endpoint.apiKey || 'not-needed',
+      model,
+      configuration: {
+        baseURL: this.endpoint.baseURL,
+        defaultHeaders: this.endpoint.headers
+      },
+      ...options
+    });
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      ...this.endpoint.headers,
+      ...(this.endpoint.apiKey && { Authorization: `Bearer ${this.endpoint.apiKey}` })
+    };
+  }
+
+  async generateDescription(request: TLLMRequest, signal?: AbortSignal): Promise<TLLMResponse> {
+    try {
+      const model = request.options?.model || this.endpoint.model;
+      const maxTokens = request.options?.maxTokens || 1000;
+      const temperature = request.options?.temperature || 0.7;
+
+      const llm = this.createLLM(model, { temperature, maxTokens, streaming: false });
+
+      // Use enhanced template service with LangChain integration
+      const systemMessage = 'You are a helpful assistant that generates comprehensive pull request descriptions based on code changes and PR information.';
+      const templateName = request.template || 'pr-description-template-zh.txt';
+      const chatTemplate = TemplateService.createChatTemplate(systemMessage, templateName);
+
+      // Create the chain: PromptTemplate -> LLM -> StringOutputParser
+      const chain = chatTemplate.pipe(llm).pipe(new StringOutputParser());
+
+      // Prepare template variables
+      const templateVariables = TemplateService.buildTemplateVariables(request.prData, templateName);
+
+      // Estimate the prompt before the call; actual usage is read from the response metadata
+      const usage = new TokenUsageCollector(this.name);
+      await usage.estimatePrompt(chatTemplate, templateVariables);
+
+      // Execute the chain
+      const generatedText = await chain.invoke(templateVariables, { callbacks: [usage.handler], signal });
+
+      if (!generatedText) {
+        return {
+          success: false,
+          error: `No response generated from ${this.name}`
+        };
+      }
+
+      // Process response using existing service method
+      const processedResponse = LLMService.processLLMResponse(generatedText);
+
+      return {
+        success: true,
+        data: {
+          description: processedResponse,
+          provider: this.name,
+          model,
+          usage: usage.getUsage(generatedText)
+        }
+      };
+    } catch (error: any) {
+      console.error(`OpenAICompatibleService (${this.name}) error:`, error);
+      return LLMService.handleError(error, this.name);
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      // Every OpenAI-compatible server lists its models; unlike a completion this costs nothing
+      const response = await axios.get<TModelsResponse>(`${this.endpoint.baseURL}/models`, {
+        timeout: 5000,
+        headers: this.getHeaders()
+      });
+      return Array.isArray(response.data?.data);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  getProviderName(): TLLMProvider {
+    return this.name;
+  }
+
+  async generateDescriptionWithCallback(
+    request: TLLMRequest,
+    onToken?: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<TLLMResponse> {
+    if (!onToken) {
+      return this.generateDescription(request, signal);
+    }
+
+    try {
+      const model = request.options?.model || this.endpoint.model;
+      const maxTokens = request.options?.maxTokens || 1000;
+      const temperature = request.options?.temperature || 0.7;
+
+      // Create streaming LLM
+      const streamingLLM = this.createLLM(model, { temperature, maxTokens, streaming: true });
+
+      // Use enhanced template service with LangChain integration
+      const systemMessage = 'You are a helpful assistant that generates comprehensive pull request descriptions based on code changes and PR information.';
+      const templateName = request.template || 'pr-description-template-zh.txt';
+      const chatTemplate = TemplateService.createChatTemplate(systemMessage, templateName);
+
+      // Create the chain: PromptTemplate -> LLM -> StringOutputParser
+      const chain = chatTemplate.pipe(streamingLLM).pipe(new StringOutputParser());
+
+      // Prepare template variables
+      const templateVariables = TemplateService.buildTemplateVariables(request.prData, templateName);
+
+      let fullContent = '';
+
+      const usage = new TokenUsageCollector(this.name);
+      await usage.estimatePrompt(chatTemplate, templateVariables);
+
+      // Use streaming with callback
+      const stream = await chain.stream(templateVariables, { callbacks: [usage.handler], signal });
+
+      for await (const chunk of stream) {
+        fullContent += chunk;
+        onToken(chunk);
+      }
+
+      if (!fullContent) {
+        return {
+          success: false,
+          error: `No response generated from ${this.name}`
+        };
+      }
+
+      // Process response using existing service method
+      const processedResponse = LLMService.processLLMResponse(fullContent);
+
+      return {
+        success: true,
+        data: {
+          description: processedResponse,
+          provider: this.name,
+          model,
+          usage: usage.getUsage(fullContent)
+        }
+      };
+    } catch (error: any) {
+      console.error(`OpenAICompatibleService (${this.name}) streaming error:`, error);
+      return LLMService.handleError(error, this.name);
+    }
+  }
+}
@@ -0,0 +1,175 @@
+// Service for caching LLM provider availability and tripping per-provider circuit breakers
+import { TCircuitState, TLLMProvider, TProviderHealth } from '../../types/llm-types';
+import { logWarn, logInfo } from '../utils/logger';
+
+export interface ProviderHealthOptions {
+  // How long a probe result is trusted
+  ttlMs: number;
+  // Consecutive failures (probes or calls) that open the circuit
+  failureThreshold: number;
+  // How long an open circuit skips the provider before allowing a trial
+  resetTimeoutMs: number;
+  // Background probe period; 0 disables background probing
+  probeIntervalMs: number;
+}
+
+type TProviderState = {
+  available?: boolean;
+  checkedAt?: number;
+  consecutiveFailures: number;
+  openedAt?: number;
+  lastError?: string;
+};
+
+export function getProviderHealthOptions(): ProviderHealthOptions {
+  return {
+    ttlMs: parseInt(process.env.PROVIDER_HEALTH_TTL_MS || '300000'),
+    failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '3'),
+    resetTimeoutMs: parseInt(process.env.CIRCUIT_BREAKER_RESET_MS || '60000'),
+    probeIntervalMs: parseInt(process.env.PROVIDER_HEALTH_PROBE_INTERVAL_MS || '300000')
+  };
+}
+
+export class ProviderHealthMonitor {
+  private states = new Map<TLLMProvider, TProviderState>();
+  // Concurrent callers share one probe instead of each paying for a completion
+  private inFlight = new Map<TLLMProvider, Promise<boolean>>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private probe: (provider: TLLMProvider) => Promise<boolean>,
+    private providers: () => TLLMProvider[],
+    private options: ProviderHealthOptions = getProviderHealthOptions()
+  ) {}
+
+  /**
+   * Whether a provider should be used now. An open circuit answers without probing; a closed one answers from
+   * the cache while it is fresh; a half-open one gets a single trial probe that closes or re-opens it.
+   */
+  async isAvailable(provider: TLLMProvider): Promise<boolean> {
+    const state = this.getState(provider);
+    const circuit = this.getCircuitState(state);
+    if (circuit === 'open') {
+      return false;
+    }
+    if (circuit === 'closed' && state.checkedAt !== undefined && Date.now() - state.checkedAt < this.options.ttlMs) {
+      return state.available === true;
+    }
+    return this.runProbe(provider);
+  }
+
+  /**
+   * A successful probe or call proves the provider is up and closes its circuit
+   */
+  recordSuccess(provider: TLLMProvider): void {
+    const state = this.getState(provider);
+    if (state.openedAt !== undefined) {
+      logInfo('Provider circuit closed', { provider });
+    }
+    Object.assign(state, { available: true, checkedAt: Date.now(), consecutiveFailures: 0, openedAt: undefined, lastError: undefined });
+  }
+
+  /**
+   * Count a failed probe or call towards the circuit breaker. A failed call leaves the cached probe result
+   * alone, so a single rate-limited request doesn't take the provider out for a whole TTL.
+   */
+  recordFailure(provider: TLLMProvider, error: string): void {
+    const state = this.getState(provider);
+    const wasHalfOpen = this.getCircuitState(state) === 'half-open';
+    state.lastError = error;
+    state.consecutiveFailures++;
+
+    // A failed trial re-opens the circuit straight away
+    if (wasHalfOpen || (state.openedAt === undefined && state.consecutiveFailures >= this.options.failureThreshold)) {
+      state.openedAt = Date.now();
+      logWarn('Provider circuit opened', { provider, consecutiveFailures: state.consecutiveFailures, error });
+    }
+  }
+
+  /**
+   * Forget everything known about a provider, e.g. after its service is replaced
+   */
+  reset(provider: TLLMProvider): void {
+    this.states.delete(provider);
+    this.inFlight.delete(provider);
+  }
+
+  /**
+   * Current status of every provider, without probing
+   */
+  getHealth(): TProviderHealth[] {
+    return this.providers().map(provider => {
+      const state = this.getState(provider);
+      return {
+        provider,
+        ...(state.available !== undefined && { available: state.available }),
+        circuit: this.getCircuitState(state),
+        consecutiveFailures: state.consecutiveFailures,
+        ...(state.checkedAt !== undefined && { lastCheckedAt: new Date(state.checkedAt).toISOString() }),
+        ...(state.lastError && { lastError: state.lastError })
+      };
+    });
+  }
+
+  /**
+   * Probe every provider whose cached status is stale, so request paths rarely have to wait for a probe
+   */
+  async refresh(): Promise<void> {
+    await Promise.all(this.providers().map(provider => this.isAvailable(provider)));
+  }
+
+  start(): void {
+    if (this.timer || this.options.probeIntervalMs <= 0) {
+      return;
+    }
+    this.refresh();
+    this.timer = setInterval(() => this.refresh(), this.options.probeIntervalMs);
+    // Background probing must not keep the process alive
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private runProbe(provider: TLLMProvider): Promise<boolean> {
+    const pending = this.inFlight.get(provider);
+    if (pending) {
+      return pending;
+    }
+
+    const probe = this.probe(provider)
+      .catch(() => false)
+      .then(available => {
+        if (available) {
+          this.recordSuccess(provider);
+        } else {
+          Object.assign(this.getState(provider), { available: false, checkedAt: Date.now() });
+          this.recordFailure(provider, 'Availability probe failed');
+        }
+        return available;
+      })
+      .finally(() => this.inFlight.delete(provider));
+    this.inFlight.set(provider, probe);
+    return probe;
+  }
+
+  private getState(provider: TLLMProvider): TProviderState {
+    let state = this.states.get(provider);
+    if (!state) {
+      state = { consecutiveFailures: 0 };
+      this.states.set(provider, state);
+    }
+    return state;
+  }
+
+  private getCircuitState(state: TProviderState): TCircuitState {
+    if (state.openedAt === undefined) {
+      return 'closed';
+    }
+    return Date.now() - state.openedAt >= this.options.resetTimeoutMs ? 'half-open' : 'open';
+  }
+}
@@ -0,0 +1,126 @@
+// Service for turning a range of merged pull requests into release notes
+import { fetchMergedPullRequests, fetchRefDate } from './bitbucket-service';
+import { LLMService } from './llm-service';
+import { TBitbucketAuthOptions, TPullRequest } from '../../types/bitbucket-types';
+import { TLLMProvider, TLLMRequest } from '../../types/llm-types';
+import { TReleaseNoteCategory, TReleaseNoteEntry, TReleaseRange, TReleaseRangeType } from '../../types/release-notes-types';
+import { logWarn } from '../utils/logger';
+
+const CATEGORIES: TReleaseNoteCategory[] = ['Feature', 'Fix', 'Breaking', 'Internal'];
+
+export class ReleaseNotesService {
+  constructor(private auth: TBitbucketAuthOptions = {}) {}
+
+  /**
+   * Turn `from`/`to` into a date range. Tags and commits resolve to the date of the commit they
+   * point at; a missing `to` means "up to now".
+   */
+  async resolveRange(
+    repository: string,
+    rangeType: TReleaseRangeType,
+    from: string,
+    to?: string
+  ): Promise<{ range?: TReleaseRange; error?: string }> {
+    const since = await this.resolveBound(repository, rangeType, from);
+    if (since.error || !since.date) {
+      return { error: since.error };
+    }
+    const until = to ? await this.resolveBound(repository, rangeType, to) : { date: new Date() };
+    if (until.error || !until.date) {
+      return { error: until.error };
+    }
+    if (since.date > until.date) {
+      return { error: `Release range is empty: ${from} is later than ${to}` };
+    }
+    return { range: { since: since.date, until: until.date } };
+  }
+
+  /**
+   * Merged PRs in the range, oldest first so the notes read in merge order
+   */
+  async listPullRequests(
+    repository: string,
+    range: TReleaseRange
+  ): Promise<{ pullRequests?: TPullRequest[]; attempts?: number; error?: string }> {
+    const response = await fetchMergedPullRequests(repository, range, this.auth);
+    if (!response.success || !response.data) {
+      return { error: response.error || 'Failed to list merged pull requests' };
+    }
+    return { pullRequests: [...response.data].reverse(), attempts: response.metadata?.attempts ?? 0 };
+  }
+
+  /**
+   * Summarise one PR from its title and description. A failed LLM call falls back to the title,
+   * so one bad PR doesn't lose the whole release.
+   */
+  async summarizePullRequest(
+    llmService: LLMService,
+    provider: TLLMProvider,
+    pr: TPullRequest,
+    template: string,
+    options?: TLLMRequest['options']
+  ): Promise<TReleaseNoteEntry> {
+    const entry = {
+      prNumber: pr.id,
+      title: pr.title,
+      author: pr.author.display_name,
+      url: pr.links.html.href,
+      mergedOn: pr.closed_on || pr.updated_on
+    };
+
+    const response = await llmService.generateDescription({
+      provider,
+      prData: {
+        title: pr.title,
+        description: pr.description || '',
+        diff: '',
+        author: pr.author.display_name,
+        sourceBranch: pr.source.branch.name,
+        destinationBranch: pr.destination.branch.name,
+        repository: pr.destination.repository.full_name
+      },
+      template,
+      options
+    });
+
+    if (!response.success || !response.data) {
+      logWarn('Falling back to the PR title for a release note entry', { prNumber: pr.id, error: response.error });
+      return { ...entry, summary: pr.title, summarized: false };
+    }
+    return { ...entry, ...this.parseEntry(response.data.description), summarized: true };
+  }
+
+  /**
+   * Render entries for the {{pullRequestSummaries}} variable of the grouping prompt
+   */
+  formatSummaries(entries: TReleaseNoteEntry[]): string {
+    return entries
+      .map(entry => `  - #${entry.prNumber} [${entry.category || 'Unclassified'}] ${entry.summary} (${entry.author})`)
+      .join('\n');
+  }
+
+  /**
+   * Split "[Category] summary" into its parts; anything unrecognised is kept as the summary
+   */
+  parseEntry(output: string): { category?: TReleaseNoteCategory; summary: string } {
+    const line = output.trim().split('\n').find(l => l.trim().length > 0)?.trim() || '';
+    const match = line.match(/^[-*]?\s*\[(\w+)\]\s*(.+)$/);
+    const category = CATEGORIES.find(c => c.toLowerCase() === match?.[1].toLowerCase());
+    if (!match || !category) {
+      return { summary: line };
+    }
+    return { category, summary: match[2].trim() };
+  }
+
+  private async resolveBound(repository: string, rangeType: TReleaseRangeType, value: string): Promise<{ date?: Date; error?: string }> {
+    if (rangeType === 'date') {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? { error: `Invalid date: ${value}` } : { date };
+    }
+    const response = await fetchRefDate(repository, rangeType, value, this.auth);
+    if (!response.success || !response.data) {
+      return { error: response.error || `Failed to resolve ${rangeType} ${value}` };
+    }
+    return { date: new Date(response.data) };
+  }
+}
@@ -1,5 +1,6 @@
 // Service for aggregating results from multiple diff chunks
 import { DiffChunk } from '../../types/llm-types';
+import { logWarn } from '../utils/logger';
 
 export interface ChunkResult {
   chunkIndex: number;
@@ -24,6 +25,9 @@ export interface ProcessingSummary {
   changeTypes: Record<string, number>;
 }
 
+// Merges chunk summaries with one LLM call: into an intermediate summary, or into the final description
+export type SummaryReducer = (summaries: string[], final: boolean) => Promise<string>;
+
 export class ResultAggregatorService {
   
   /**
@@ -69,6 +73,61 @@ export class ResultAggregatorService {
     };
   }
 
+  /**
+   * Merge the summaries of successful chunks into a single description with `reduce`. At most `fanIn` summaries
+   * go into one call, so for very large PRs groups of summaries are first merged into intermediate summaries,
+   * level by level, until the rest fit the final call. When a merge fails the summaries are joined instead.
+   */
+  async synthesizeResults(
+    chunks: DiffChunk[],
+    results: ChunkResult[],
+    reduce: SummaryReducer,
+    fanIn: number
+  ): Promise<AggregatedResult> {
+    const successfulResults = results.filter(r => r.success);
+    const failedResults = results.filter(r => !r.success);
+
+    if (successfulResults.length === 0) {
+      return this.aggregateResults(chunks, results);
+    }
+
+    let description: string;
+    try {
+      description = await this.reduceSummaries(successfulResults.map(r => r.description), reduce, fanIn);
+    } catch (error) {
+      logWarn('Chunk synthesis failed, joining the chunk summaries instead', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return this.aggregateResults(chunks, results);
+    }
+
+    if (failedResults.length > 0) {
+      description += '\n\n(Note: Some changes could not be processed)';
+    }
+
+    return {
+      success: true,
+      description,
+      chunksProcessed: results.length,
+      failedChunks: failedResults.length
+    };
+  }
+
+  private async reduceSummaries(summaries: string[], reduce: SummaryReducer, fanIn: number): Promise<string> {
+    // Groups of one would move up unchanged and the tree would never shrink
+    const groupSize = Math.max(2, fanIn);
+    let level = summaries;
+    while (level.length > groupSize) {
+      const groups: string[][] = [];
+      for (let i = 0; i < level.length; i += groupSize) {
+        groups.push(level.slice(i, i + groupSize));
+      }
+      // A group of one is already a summary; it moves up a level as is
+      level = await Promise.all(groups.map(group => group.length === 1 ? group[0] : reduce(group, false)));
+    }
+    return reduce(level, true);
+  }
+
   /**
    * Generate processing summary statistics
    */
@@ -0,0 +1,173 @@
+// Service for posting review findings as Bitbucket PR comments
+import crypto from 'crypto';
+import {
+  createPullRequestComment,
+  fetchCurrentUser,
+  fetchPullRequestComments,
+  resolvePullRequestComment,
+  updatePullRequestComment,
+} from './bitbucket-service';
+import { TBitbucketAPIResponse, TBitbucketAuthOptions, TPullRequestComment } from '../../types/bitbucket-types';
+import { TMappedReviewFindings, TReviewFinding, TReviewPublishResult } from '../../types/review-types';
+import { logWarn } from '../utils/logger';
+
+const SEVERITY_LABELS: Record<TReviewFinding['severity'], string> = {
+  critical: '🔴 Critical',
+  major: '🟠 Major',
+  minor: '🟡 Minor',
+  info: '🔵 Info'
+};
+
+export class ReviewCommentPublisherService {
+  static readonly SUMMARY_MARKER = '<!-- happyfriday:review-summary -->';
+  private static readonly FINDING_MARKER_PATTERN = /<!-- happyfriday:finding:([a-f0-9]+) -->/;
+
+  /**
+   * Post inline comments for mapped findings and a summary comment for the rest.
+   * Our comments carrying a marker from an earlier run are updated in place, and inline comments whose finding
+   * is no longer reported are resolved.
+   */
+  async publish(
+    repository: string,
+    prNumber: string,
+    findings: TMappedReviewFindings,
+    auth: TBitbucketAuthOptions = {}
+  ): Promise<TBitbucketAPIResponse<TReviewPublishResult>> {
+    const existingResponse = await fetchPullRequestComments(repository, prNumber, auth);
+    if (!existingResponse.success || !existingResponse.data) {
+      return { success: false, error: existingResponse.error || 'Failed to fetch PR comments' };
+    }
+
+    // Anyone can paste a marker into a comment, so only comments posted by our own account are reused
+    const currentUser = await fetchCurrentUser(auth);
+    if (!currentUser.success || !currentUser.data) {
+      logWarn('Could not identify the Bitbucket account, posting new review comments', {
+        repository, prNumber, error: currentUser.error
+      });
+    }
+    const ownUuid = currentUser.data?.uuid;
+    const ownComments = existingResponse.data.filter(comment => ownUuid !== undefined && comment.user?.uuid === ownUuid);
+
+    const existingByMarker = this.indexExistingComments(ownComments);
+    const result: TReviewPublishResult = { created: 0, updated: 0, resolved: 0 };
+    const groups = this.groupByLocation(findings.inline);
+
+    for (const [key, group] of groups) {
+      const body = this.formatInlineComment(key, group);
+      const existing = existingByMarker.get(key);
+      const response = existing
+        ? await updatePullRequestComment(repository, prNumber, existing.id, body, auth)
+        : await createPullRequestComment(repository, prNumber, body, { path: group[0].file, to: group[0].line }, auth);
+
+      if (!response.success) {
+        return { success: false, error: response.error || 'Failed to post inline comment' };
+      }
+      if (existing) {
+        result.updated++;
+      } else {
+        result.created++;
+      }
+    }
+
+    for (const [key, comment] of existingByMarker) {
+      if (key === ReviewCommentPublisherService.SUMMARY_MARKER || groups.has(key)) {
+        continue;
+      }
+      const response = await resolvePullRequestComment(repository, prNumber, comment.id, auth);
+      if (!response.success) {
+        return { success: false, error: response.error || 'Failed to resolve outdated inline comment' };
+      }
+      result.resolved++;
+    }
+
+    const summaryBody = this.formatSummaryComment(findings);
+    const existingSummary = existingByMarker.get(ReviewCommentPublisherService.SUMMARY_MARKER);
+    const summaryResponse = existingSummary
+      ? await updatePullRequestComment(repository, prNumber, existingSummary.id, summaryBody, auth)
+      : await createPullRequestComment(repository, prNumber, summaryBody, undefined, auth);
+
+    if (!summaryResponse.success || !summaryResponse.data) {
+      return { success: false, error: summaryResponse.error || 'Failed to post summary comment' };
+    }
+    if (existingSummary) {
+      result.updated++;
+    } else {
+      result.created++;
+    }
+    result.summaryCommentId = summaryResponse.data.id;
+
+    return { success: true, data: result };
+  }
+
+  /**
+   * Stable key for a finding location, so re-runs find the comment they posted before
+   */
+  getLocationKey(finding: TReviewFinding): string {
+    return crypto.createHash('sha1').update(`${finding.file}:${finding.line}`).digest('hex').slice(0, 16);
+  }
+
+  formatInlineComment(key: string, findings: TReviewFinding[]): string {
+    const sections = findings.map(finding => {
+      let section = `**${SEVERITY_LABELS[finding.severity]}: ${finding.title}**\n\n${finding.message}`;
+      if (finding.suggestion) {
+        section += `\n\n_Suggestion:_ ${finding.suggestion}`;
+      }
+      return section;
+    });
+
+    return `${sections.join('\n\n---\n\n')}\n\n<!-- happyfriday:finding:${key} -->`;
+  }
+
+  formatSummaryComment(findings: TMappedReviewFindings): string {
+    const all = [...findings.inline, ...findings.unmapped];
+    const counts = (Object.keys(SEVERITY_LABELS) as TReviewFinding['severity'][])
+      .map(severity => ({ severity, count: all.filter(f => f.severity === severity).length }))
+      .filter(entry => entry.count > 0)
+      .map(entry => `${SEVERITY_LABELS[entry.severity]}: ${entry.count}`);
+
+    const lines = ['## Automated Review Summary', ''];
+    if (all.length === 0) {
+      lines.push('No issues found.');
+    } else {
+      lines.push(`Found ${all.length} issue(s) — ${counts.join(', ')}.`);
+      lines.push(`${findings.inline.length} posted as inline comments.`);
+    }
+
+    if (findings.unmapped.length > 0) {
+      lines.push('', '### Findings outside the diff', '');
+      for (const finding of findings.unmapped) {
+        lines.push(`- **${SEVERITY_LABELS[finding.severity]}** \`${finding.file}:${finding.line}\` — ` +
+          `**${finding.title}**: ${finding.message}`);
+      }
+    }
+
+    lines.push('', ReviewCommentPublisherService.SUMMARY_MARKER);
+    return lines.join('\n');
+  }
+
+  private groupByLocation(findings: TReviewFinding[]): Map<string, TReviewFinding[]> {
+    const groups = new Map<string, TReviewFinding[]>();
+    for (const finding of findings) {
+      const key = this.getLocationKey(finding);
+      groups.set(key, [...(groups.get(key) || []), finding]);
+    }
+    return groups;
+  }
+
+  private indexExistingComments(comments: TPullRequestComment[]): Map<string, TPullRequestComment> {
+    const index = new Map<string, TPullRequestComment>();
+    for (const comment of comments) {
+      const raw = comment.content?.raw || '';
+      if (raw.includes(ReviewCommentPublisherService.SUMMARY_MARKER)) {
+        index.set(ReviewCommentPublisherService.SUMMARY_MARKER, comment);
+        continue;
+      }
+      const match = raw.match(ReviewCommentPublisherService.FINDING_MARKER_PATTERN);
+      // A finding that comes back after its thread was resolved gets a new comment
+      if (match && !comment.resolution) {
+        index.set(match[1], comment);
+      }
+    }
+    return index;
+  }
+}
@@ -0,0 +1,173 @@
+// Service for parsing structured review findings and placing them on a diff
+import { TMappedReviewFindings, TReviewFinding, TReviewSeverity } from '../../types/review-types';
+
+const SEVERITIES: TReviewSeverity[] = ['critical', 'major', 'minor', 'info'];
+
+export class ReviewFindingsService {
+
+  /**
+   * Extract findings from LLM output. Chunked responses may contain several JSON arrays,
+   * so every array found in the text is collected.
+   */
+  parseFindings(llmOutput: string): TReviewFinding[] {
+    const findings: TReviewFinding[] = [];
+
+    for (const candidate of this.extractJsonArrays(llmOutput || '')) {
+      for (const item of candidate) {
+        const finding = this.normalizeFinding(item);
+        if (finding) {
+          findings.push(finding);
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Whether the output contains any JSON array at all; distinguishes "no issues" from an unusable response
+   */
+  hasFindingsPayload(llmOutput: string): boolean {
+    return this.extractJsonArrays(llmOutput || '').length > 0;
+  }
+
+  /**
+   * Split findings into those whose line lies inside a diff hunk and those that don't
+   */
+  mapFindingsToDiff(findings: TReviewFinding[], diff: string): TMappedReviewFindings {
+    const commentableLines = this.getCommentableLines(diff);
+    const inline: TReviewFinding[] = [];
+    const unmapped: TReviewFinding[] = [];
+
+    for (const finding of findings) {
+      if (commentableLines.get(finding.file)?.has(finding.line)) {
+        inline.push(finding);
+      } else {
+        unmapped.push(finding);
+      }
+    }
+
+    return { inline, unmapped };
+  }
+
+  /**
+   * Collect, per file, the new-side line numbers covered by diff hunks (context and added lines)
+   */
+  getCommentableLines(diff: string): Map<string, Set<number>> {
+    const result = new Map<string, Set<number>>();
+    let currentLines: Set<number> | null = null;
+    let newLine = 0;
+    let inHunk = false;
+
+    for (const line of diff.split('\n')) {
+      if (line.startsWith('diff --git')) {
+        const match = line.match(/diff --git a\/(.+?) b\/(.+)/);
+        currentLines = new Set<number>();
+        if (match) {
+          result.set(match[2], currentLines);
+        }
+        inHunk = false;
+        continue;
+      }
+
+      const hunkHeader = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+      if (hunkHeader) {
+        newLine = parseInt(hunkHeader[1], 10);
+        inHunk = true;
+        continue;
+      }
+
+      if (!inHunk || !currentLines) {
+        continue;
+      }
+
+      if (line.startsWith('+') || line.startsWith(' ')) {
+        currentLines.add(newLine);
+        newLine++;
+      }
+      // Removed lines and "\ No newline at end of file" don't advance the new-side counter
+    }
+
+    return result;
+  }
+
+  private extractJsonArrays(text: string): any[][] {
+    const arrays: any[][] = [];
+    const fencedBlocks = [...text.matchAll(/```(?:json)?\s*([\s\S]*?)```/g)].map(match => match[1]);
+    const sources = fencedBlocks.length > 0 ? fencedBlocks : [text];
+
+    for (const source of sources) {
+      let searchFrom = 0;
+      while (searchFrom < source.length) {
+        const start = source.indexOf('[', searchFrom);
+        if (start === -1) break;
+
+        const end = this.findMatchingBracket(source, start);
+        if (end === -1) break;
+
+        try {
+          const parsed = JSON.parse(source.slice(start, end + 1));
+          if (Array.isArray(parsed)) {
+            arrays.push(parsed);
+          }
+          searchFrom = end + 1;
+        } catch {
+          searchFrom = start + 1;
+        }
+      }
+    }
+
+    return arrays;
+  }
+
+  private findMatchingBracket(text: string, start: number): number {
+    let depth = 0;
+    let inString = false;
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (inString) {
+        if (char === '\\') {
+          i++;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === '[') {
+        depth++;
+      } else if (char === ']') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+
+    return -1;
+  }
+
+  private normalizeFinding(item: any): TReviewFinding | null {
+    if (!item || typeof item !== 'object') {
+      return null;
+    }
+
+    const file = typeof item.file === 'string' ? item.file.trim().replace(/^[ab]\//, '') : '';
+    const line = typeof item.line === 'number' ? item.line : parseInt(item.line, 10);
+    const message = typeof item.message === 'string' ? item.message.trim() : '';
+    if (!file || !message || isNaN(line) || line < 1) {
+      return null;
+    }
+
+    const severity = String(item.severity || '').toLowerCase() as TReviewSeverity;
+
+    return {
+      file,
+      line,
+      severity: SEVERITIES.includes(severity) ? severity : 'minor',
+      title: typeof item.title === 'string' && item.title.trim() ? item.title.trim() : message.split('\n')[0],
+      message,
+      ...(typeof item.suggestion === 'string' && item.suggestion.trim() && { suggestion: item.suggestion.trim() })
+    };
+  }
+}
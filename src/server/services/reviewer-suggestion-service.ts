@@ -0,0 +1,298 @@
+// Service for suggesting PR reviewers from CODEOWNERS and the change history of the touched files
+import { minimatch } from 'minimatch';
+import {
+  fetchFileCommits,
+  fetchFileContent,
+  fetchWorkspaceMembers,
+  updatePullRequestReviewers,
+} from './bitbucket-service';
+import { FileFilterService } from './file-filter-service';
+import { TBitbucketAuthOptions, TBitbucketUser, TPullRequest } from '../../types/bitbucket-types';
+import {
+  TCodeOwnersRule,
+  TReviewerSuggestion,
+  TReviewerSuggestionOptions,
+  TReviewerSuggestionResult,
+} from '../../types/reviewer-types';
+import { TSourceControlPlatform } from '../../types/source-control-types';
+import { logWarn } from '../utils/logger';
+
+// Checked in order on the destination branch; Bitbucket's own location first
+export const CODEOWNERS_PATHS = ['.bitbucket/CODEOWNERS', 'CODEOWNERS', '.github/CODEOWNERS', 'docs/CODEOWNERS'];
+
+const DEFAULT_LIMIT = parseInt(process.env.REVIEWER_SUGGESTION_LIMIT || '5');
+// History lookups cost one request per file, so only the most-changed unowned files are checked
+const HISTORY_MAX_FILES = parseInt(process.env.REVIEWER_HISTORY_MAX_FILES || '5');
+const HISTORY_COMMITS_PER_FILE = parseInt(process.env.REVIEWER_HISTORY_COMMITS || '10');
+
+export class ReviewerSuggestionService {
+  private fileFilter = new FileFilterService();
+
+  /**
+   * Parse CODEOWNERS: one `pattern owner...` rule per line, `#` comments, and quoted `@"Display Name"` owners
+   */
+  parseCodeOwners(content: string): TCodeOwnersRule[] {
+    const rules: TCodeOwnersRule[] = [];
+    for (const rawLine of content.split('\n')) {
+      const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+      // Section headers such as `[Backend]` group rules but do not change matching
+      if (!line || line.startsWith('[')) {
+        continue;
+      }
+      const [pattern, ...owners] = line.match(/@"[^"]+"|\S+/g)!;
+      rules.push({ pattern, owners });
+    }
+    return rules;
+  }
+
+  /**
+   * Owners of a file: the last matching rule wins, as in git and GitHub. A rule with no owners un-assigns the path.
+   */
+  findOwners(rules: TCodeOwnersRule[], file: string): string[] {
+    for (let i = rules.length - 1; i >= 0; i--) {
+      if (this.matchesPattern(rules[i].pattern, file)) {
+        return rules[i].owners;
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Added plus removed lines per changed file. Files the diff filter would ignore (lock files, build output)
+   * don't count towards coverage.
+   */
+  countChangedLines(diff: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const section of diff.split(/^(?=diff --git )/m)) {
+      const [file] = this.fileFilter.extractModifiedFiles(section);
+      if (!file || this.fileFilter.shouldIgnoreFile(file)) {
+        continue;
+      }
+      const changed = section
+        .split('\n')
+        .filter(line => /^[+-]/.test(line) && !/^(\+\+\+|---) /.test(line))
+        .length;
+      counts.set(file, (counts.get(file) || 0) + changed);
+    }
+    return counts;
+  }
+
+  /**
+   * Rank owners by the share of the diff's changed lines that their files cover
+   */
+  rankSuggestions(
+    ownership: Map<string, { source: TReviewerSuggestion['source']; uuid?: string; files: string[] }>,
+    changedLines: Map<string, number>,
+    limit: number = DEFAULT_LIMIT
+  ): TReviewerSuggestion[] {
+    const total = [...changedLines.values()].reduce((sum, count) => sum + count, 0);
+
+    return [...ownership.entries()]
+      .map(([owner, { source, uuid, files }]) => {
+        const lines = files.reduce((sum, file) => sum + (changedLines.get(file) || 0), 0);
+        return {
+          owner,
+          source,
+          ...(uuid && { uuid }),
+          files,
+          changedLines: lines,
+          coverage: total > 0 ? Math.round((lines / total) * 1000) / 1000 : 0
+        };
+      })
+      .sort((a, b) =>
+        b.changedLines - a.changedLines ||
+        // Declared ownership beats recent activity
+        (a.source === b.source ? 0 : a.source === 'codeowners' ? -1 : 1) ||
+        a.owner.localeCompare(b.owner)
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Suggest reviewers from the CODEOWNERS file on the destination branch. Files no rule covers fall back to
+   * the authors of their recent commits. The PR author is never suggested.
+   */
+  async suggest(
+    repository: string,
+    pr: TPullRequest,
+    diff: string,
+    auth: TBitbucketAuthOptions,
+    limit: number = DEFAULT_LIMIT
+  ): Promise<TReviewerSuggestionResult> {
+    const destinationCommit = pr.destination.commit?.hash;
+    const changedLines = this.countChangedLines(diff);
+    if (!destinationCommit || changedLines.size === 0) {
+      return { suggestions: [] };
+    }
+
+    const ownership = new Map<string, { source: TReviewerSuggestion['source']; uuid?: string; files: string[] }>();
+    const addFile = (owner: string, source: TReviewerSuggestion['source'], file: string, uuid?: string) => {
+      const entry = ownership.get(owner) || { source, uuid, files: [] };
+      if (!entry.files.includes(file)) {
+        entry.files.push(file);
+      }
+      ownership.set(owner, entry);
+    };
+    const isAuthor = (owner: string, uuid?: string) =>
+      (uuid !== undefined && uuid === pr.author.uuid) || owner === pr.author.display_name || owner === `@"${pr.author.display_name}"`;
+
+    const codeOwners = await this.fetchCodeOwners(repository, destinationCommit, auth);
+    const unowned: string[] = [];
+    for (const file of changedLines.keys()) {
+      const owners = codeOwners ? this.findOwners(codeOwners.rules, file).filter(owner => !isAuthor(owner)) : [];
+      owners.forEach(owner => addFile(owner, 'codeowners', file));
+      if (owners.length === 0) {
+        unowned.push(file);
+      }
+    }
+
+    const historyFiles = unowned
+      .sort((a, b) => (changedLines.get(b) || 0) - (changedLines.get(a) || 0))
+      .slice(0, HISTORY_MAX_FILES);
+    for (const file of historyFiles) {
+      const response = await fetchFileCommits(repository, destinationCommit, file, HISTORY_COMMITS_PER_FILE, auth);
+      if (!response.success || !response.data) {
+        logWarn('Failed to fetch file history for reviewer suggestions', { repository, file, error: response.error });
+        continue;
+      }
+      for (const commit of response.data) {
+        const user = commit.author.user;
+        if (user && !isAuthor(user.display_name, user.uuid)) {
+          addFile(user.display_name, 'history', file, user.uuid);
+        }
+      }
+    }
+
+    return {
+      suggestions: this.rankSuggestions(ownership, changedLines, limit),
+      ...(codeOwners && { codeOwnersPath: codeOwners.path })
+    };
+  }
+
+  /**
+   * Add suggestions to the PR's reviewers, keeping the existing ones. CODEOWNERS names are resolved against
+   * the workspace's members; teams and email addresses cannot be, and are reported as unresolved.
+   */
+  async addReviewers(
+    repository: string,
+    prNumber: string,
+    pr: TPullRequest,
+    suggestions: TReviewerSuggestion[],
+    auth: TBitbucketAuthOptions
+  ): Promise<Pick<TReviewerSuggestionResult, 'added' | 'unresolved' | 'addError'>> {
+    let members: TBitbucketUser[] = [];
+    if (suggestions.some(suggestion => !suggestion.uuid)) {
+      const response = await fetchWorkspaceMembers(repository.split('/')[0], auth);
+      if (response.success && response.data) {
+        members = response.data;
+      } else {
+        logWarn('Failed to fetch workspace members, only known accounts can be added', { repository, error: response.error });
+      }
+    }
+
+    const existing = (pr.reviewers || []).map(reviewer => reviewer.uuid);
+    const added: string[] = [];
+    const unresolved: string[] = [];
+    const reviewerUuids = [...existing];
+    for (const suggestion of suggestions) {
+      const uuid = suggestion.uuid || this.resolveOwner(suggestion.owner, members)?.uuid;
+      if (!uuid) {
+        unresolved.push(suggestion.owner);
+      } else if (uuid !== pr.author.uuid && !reviewerUuids.includes(uuid)) {
+        reviewerUuids.push(uuid);
+        added.push(suggestion.owner);
+      }
+    }
+
+    if (added.length === 0) {
+      return { added, unresolved };
+    }
+    const response = await updatePullRequestReviewers(repository, prNumber, reviewerUuids, auth);
+    if (!response.success) {
+      logWarn('Failed to add suggested reviewers', { repository, prNumber, error: response.error });
+      return { added: [], unresolved, addError: response.error || 'Failed to add reviewers' };
+    }
+    return { added, unresolved };
+  }
+
+  /**
+   * Map a CODEOWNERS entry to a workspace member by `{uuid}`, account id, nickname or quoted display name
+   */
+  resolveOwner(owner: string, members: TBitbucketUser[]): TBitbucketUser | undefined {
+    const quoted = owner.match(/^@"(.+)"$/);
+    if (quoted) {
+      return members.find(member => member.display_name === quoted[1]);
+    }
+    if (!owner.startsWith('@') && !owner.startsWith('{')) {
+      // Email addresses are private on Bitbucket Cloud
+      return undefined;
+    }
+    const name = owner.replace(/^@/, '');
+    if (name.includes('/') && !name.startsWith('{')) {
+      // `@workspace/team` groups can't be added as individual reviewers
+      return undefined;
+    }
+    return members.find(member =>
+      member.uuid === name || member.account_id === name || member.nickname === name
+    );
+  }
+
+  private async fetchCodeOwners(
+    repository: string,
+    commit: string,
+    auth: TBitbucketAuthOptions
+  ): Promise<{ path: string; rules: TCodeOwnersRule[] } | undefined> {
+    for (const path of CODEOWNERS_PATHS) {
+      const response = await fetchFileContent(repository, commit, path, auth);
+      if (response.success && response.data !== undefined) {
+        return { path, rules: this.parseCodeOwners(response.data) };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * gitignore-style matching: a leading or inner `/` anchors the pattern to the repository root, a trailing `/`
+   * matches everything below a directory, and a pattern naming a directory covers its contents.
+   */
+  private matchesPattern(pattern: string, file: string): boolean {
+    let glob = pattern.replace(/\/$/, '/**');
+    const anchored = glob.startsWith('/') || glob.replace(/\/\*\*$/, '').includes('/');
+    glob = glob.replace(/^\//, '');
+    if (!anchored && !glob.startsWith('**/')) {
+      glob = `**/${glob}`;
+    }
+    return minimatch(file, glob, { dot: true }) || minimatch(file, `${glob}/**`, { dot: true });
+  }
+}
+
+/**
+ * Suggest reviewers for a PR and optionally add them (Bitbucket Cloud only). Suggestions only decorate the
+ * response, so failures are logged and skipped.
+ */
+export async function fetchReviewerSuggestions(
+  repository: string,
+  prNumber: string,
+  pr: TPullRequest,
+  diff: string,
+  platform: TSourceControlPlatform,
+  auth: TBitbucketAuthOptions,
+  requested?: boolean | TReviewerSuggestionOptions
+): Promise<TReviewerSuggestionResult | undefined> {
+  if (!requested || platform !== 'bitbucket-cloud') {
+    return undefined;
+  }
+  const options: TReviewerSuggestionOptions = typeof requested === 'object' ? requested : {};
+
+  try {
+    const service = new ReviewerSuggestionService();
+    const result = await service.suggest(repository, pr, diff, auth, options.limit);
+    if (!options.addReviewers || result.suggestions.length === 0) {
+      return result;
+    }
+    return { ...result, ...(await service.addReviewers(repository, prNumber, pr, result.suggestions, auth)) };
+  } catch (error) {
+    logWarn('Failed to suggest reviewers, continuing without them', { repository, prNumber, error: (error as Error).message });
+    return undefined;
+  }
+}
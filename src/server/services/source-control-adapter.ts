@@ -0,0 +1,130 @@
+// Adapters that fetch PRs from each supported source-control host
+import { fetchPullRequest, fetchPullRequestDiff } from './bitbucket-service';
+import { fetchServerPullRequest, fetchServerPullRequestDiff } from './bitbucket-server-service';
+import { fetchGitHubPullRequest, fetchGitHubPullRequestDiff } from './github-service';
+import { fetchGitLabMergeRequest, fetchGitLabMergeRequestDiff } from './gitlab-service';
+import { TBitbucketAPIResponse, TBitbucketAuthOptions, TPullRequest, TPullRequestDiff } from '../../types/bitbucket-types';
+import { ISourceControlAdapter, TRawDiffInput, TSourceControlPlatform } from '../../types/source-control-types';
+
+export class BitbucketCloudAdapter implements ISourceControlAdapter {
+  readonly platform = 'bitbucket-cloud' as const;
+  readonly displayName = 'Bitbucket Cloud';
+
+  fetchPullRequest(repository: string, prNumber: string, auth: TBitbucketAuthOptions) {
+    return fetchPullRequest(repository, prNumber, auth);
+  }
+
+  // Passing the PR lets the diff cache key on its commits
+  fetchPullRequestDiff(repository: string, prNumber: string, auth: TBitbucketAuthOptions, pr?: TPullRequest) {
+    return fetchPullRequestDiff(repository, prNumber, auth, pr);
+  }
+}
+
+export class BitbucketServerAdapter implements ISourceControlAdapter {
+  readonly platform = 'bitbucket-server' as const;
+  readonly displayName = 'Bitbucket Data Center';
+
+  constructor(private serverUrl: string) {}
+
+  fetchPullRequest(repository: string, prNumber: string, auth: TBitbucketAuthOptions) {
+    return fetchServerPullRequest(this.serverUrl, repository, prNumber, auth);
+  }
+
+  fetchPullRequestDiff(repository: string, prNumber: string, auth: TBitbucketAuthOptions) {
+    return fetchServerPullRequestDiff(this.serverUrl, repository, prNumber, auth);
+  }
+}
+
+/**
+ * Reads with GITHUB_TOKEN; the caller's X-Bitbucket-Token is never sent to GitHub
+ */
+export class GitHubAdapter implements ISourceControlAdapter {
+  readonly platform = 'github' as const;
+  readonly displayName = 'GitHub';
+
+  fetchPullRequest(repository: string, prNumber: string) {
+    return fetchGitHubPullRequest(repository, prNumber);
+  }
+
+  fetchPullRequestDiff(repository: string, prNumber: string) {
+    return fetchGitHubPullRequestDiff(repository, prNumber);
+  }
+}
+
+/**
+ * Reads with GITLAB_TOKEN on the instances listed in GITLAB_URL; the repository is the full project path
+ */
+export class GitLabAdapter implements ISourceControlAdapter {
+  readonly platform = 'gitlab' as const;
+  readonly displayName = 'GitLab';
+
+  constructor(private baseUrl: string) {}
+
+  fetchPullRequest(repository: string, prNumber: string) {
+    return fetchGitLabMergeRequest(this.baseUrl, repository, prNumber);
+  }
+
+  fetchPullRequestDiff(repository: string, prNumber: string) {
+    return fetchGitLabMergeRequestDiff(this.baseUrl, repository, prNumber);
+  }
+}
+
+/**
+ * Serves a caller-supplied diff as if it were a PR, so nothing is fetched from any host
+ */
+export class LocalDiffAdapter implements ISourceControlAdapter {
+  readonly platform = 'local' as const;
+  readonly displayName = 'local diff';
+
+  constructor(private input: TRawDiffInput) {}
+
+  async fetchPullRequest(): Promise<TBitbucketAPIResponse<TPullRequest>> {
+    const now = new Date().toISOString();
+    const repository = this.input.repository || 'local';
+    return {
+      success: true,
+      data: {
+        id: 0,
+        title: this.input.title,
+        description: this.input.description || '',
+        state: 'OPEN',
+        author: { display_name: this.input.author || 'Unknown', uuid: '' },
+        created_on: now,
+        updated_on: now,
+        source: { branch: { name: this.input.sourceBranch || 'HEAD' }, repository: { full_name: repository } },
+        destination: { branch: { name: this.input.destinationBranch || 'main' }, repository: { full_name: repository } },
+        links: { html: { href: '' } }
+      }
+    };
+  }
+
+  async fetchPullRequestDiff(): Promise<TBitbucketAPIResponse<TPullRequestDiff>> {
+    const maxDiffSize = parseInt(process.env.BITBUCKET_DIFF_MAX_SIZE || '1048576');
+    if (this.input.diff.length > maxDiffSize) {
+      return { success: false, error: 'PR diff is too large to process.' };
+    }
+    return { success: true, data: { diff: this.input.diff } };
+  }
+}
+
+/**
+ * Adapter for a parsed request; requests without a platform are Bitbucket Cloud (the legacy format)
+ */
+export function getSourceControlAdapter(
+  platform: TSourceControlPlatform = 'bitbucket-cloud',
+  serverUrl?: string,
+  rawDiff?: TRawDiffInput
+): ISourceControlAdapter {
+  switch (platform) {
+    case 'local':
+      return new LocalDiffAdapter(rawDiff || { diff: '', title: '' });
+    case 'github':
+      return new GitHubAdapter();
+    case 'gitlab':
+      return new GitLabAdapter(serverUrl || '');
+    case 'bitbucket-server':
+      return new BitbucketServerAdapter(serverUrl || '');
+    default:
+      return new BitbucketCloudAdapter();
+  }
+}
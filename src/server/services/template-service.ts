@@ -1,13 +1,14 @@
 import fs from 'fs';
 import path from 'path';
 import { PromptTemplate } from '@langchain/core/prompts';
-import { TLLMPromptData } from '../../types/llm-types';
+import { TLLMPromptData, TPromptCommit } from '../../types/llm-types';
+import { getConfigManager } from '../utils/config-manager';
 
 export interface TemplateMetadata {
   name: string;
   description: string;
   language: string;
-  category: 'description' | 'review';
+  category: 'description' | 'review' | 'findings' | 'update' | 'release' | 'synthesis';
 }
 
 export interface AvailableTemplate {
@@ -229,12 +230,10 @@ export class TemplateService {
   }
 
   /**
-   * 格式化 PR 數據為 LLM prompt
+   * Values for every template variable, shared by the plain and LangChain prompt paths
    */
-  static formatPRDataForPrompt(prData: TLLMPromptData, templateName?: string): string {
-    const template = this.readTemplate(templateName || this.DEFAULT_TEMPLATE);
-    
-    const variables = {
+  static buildTemplateVariables(prData: TLLMPromptData, templateName?: string): Record<string, string> {
+    return {
       title: prData.title,
       description: prData.description || (templateName?.includes('-en.txt') ? 'No description provided' : '無描述提供'),
       author: prData.author,
@@ -242,8 +241,87 @@ export class TemplateService {
       sourceBranch: prData.sourceBranch,
       destinationBranch: prData.destinationBranch,
       diff: prData.diff,
-      additionalContext: prData.additionalContext || ''
+      additionalContext: prData.additionalContext || '',
+      commits: this.formatCommits(prData.commits || [], getConfigManager().getLLMPromptConfig().maxCommitsLength),
+      fileContext: prData.fileContext || '',
+      previousCommit: prData.previousCommit ? prData.previousCommit.substring(0, 12) : '',
+      pullRequestSummaries: prData.pullRequestSummaries || '',
+      chunkSummaries: prData.chunkSummaries || '',
+      outputTemplate: prData.outputTemplate || ''
     };
+  }
+
+  /**
+   * Templates that summarise the parts of a chunked request and merge the summaries, in the selected template's language
+   */
+  static getSynthesisTemplates(templateName?: string): {
+    chunkSummary: string;
+    merge: string;
+    synthesis: string;
+    // Rendered in place of the diff when the selected template is embedded in the synthesis prompt
+    diffPlaceholder: string;
+  } {
+    const english = templateName?.includes('-en.txt');
+    const language = english ? 'en' : 'zh';
+    return {
+      chunkSummary: `pr-chunk-summary-template-${language}.txt`,
+      merge: `pr-summary-merge-template-${language}.txt`,
+      synthesis: `pr-synthesis-template-${language}.txt`,
+      diffPlaceholder: english ? '(see the summaries of the changes above)' : '（見上方的變更摘要）'
+    };
+  }
+
+  /**
+   * Render commits for the prompt within a character budget.
+   * Falls back to subject lines only, then drops the latest commits (usually review fixups).
+   */
+  static formatCommits(commits: TPromptCommit[], maxLength: number): string {
+    if (commits.length === 0) {
+      return '';
+    }
+
+    const formatCommit = (commit: TPromptCommit, subjectOnly: boolean): string => {
+      const [subject, ...body] = commit.message.trim().split('\n');
+      const author = commit.author ? ` (${commit.author})` : '';
+      let line = `  - ${commit.hash.substring(0, 7)} ${subject.trim()}${author}`;
+      const bodyText = body.map(l => l.trim()).filter(l => l.length > 0);
+      if (!subjectOnly && bodyText.length > 0) {
+        line += '\n' + bodyText.map(l => `    ${l}`).join('\n');
+      }
+      return line;
+    };
+
+    const full = commits.map(commit => formatCommit(commit, false)).join('\n');
+    if (full.length <= maxLength) {
+      return full;
+    }
+
+    const subjects = commits.map(commit => formatCommit(commit, true));
+    const summary = subjects.join('\n');
+    if (summary.length <= maxLength) {
+      return summary;
+    }
+
+    const kept: string[] = [];
+    let length = 0;
+    for (const subject of subjects) {
+      const omittedNote = `\n  - ... (${subjects.length - kept.length - 1} more commits omitted)`;
+      if (length + subject.length + 1 + omittedNote.length > maxLength) {
+        break;
+      }
+      kept.push(subject);
+      length += subject.length + 1;
+    }
+    return [...kept, `  - ... (${subjects.length - kept.length} more commits omitted)`].join('\n');
+  }
+
+  /**
+   * 格式化 PR 數據為 LLM prompt
+   */
+  static formatPRDataForPrompt(prData: TLLMPromptData, templateName?: string): string {
+    const template = this.readTemplate(templateName || this.DEFAULT_TEMPLATE);
+    
+    const variables = this.buildTemplateVariables(prData, templateName);
 
     return this.replaceVariables(template, variables);
   }
@@ -254,16 +332,7 @@ export class TemplateService {
   static async formatPRDataForLangChain(prData: TLLMPromptData, templateName?: string): Promise<string> {
     const promptTemplate = this.createLangChainTemplate(templateName || this.DEFAULT_TEMPLATE);
     
-    const variables = {
-      title: prData.title,
-      description: prData.description || (templateName?.includes('-en.txt') ? 'No description provided' : '無描述提供'),
-      author: prData.author,
-      repository: prData.repository,
-      sourceBranch: prData.sourceBranch,
-      destinationBranch: prData.destinationBranch,
-      diff: prData.diff,
-      additionalContext: prData.additionalContext || ''
-    };
+    const variables = this.buildTemplateVariables(prData, templateName);
 
     return await promptTemplate.format(variables);
   }
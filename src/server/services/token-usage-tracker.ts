@@ -0,0 +1,163 @@
+// Token accounting for LLM calls: prompt estimates, reported usage and cost estimates
+import { AIMessage } from '@langchain/core/messages';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { ChatGeneration, LLMResult } from '@langchain/core/outputs';
+import { TCostEstimate, TLLMProvider, TModelPrice, TTokenUsage } from '../../types/llm-types';
+import { logWarn } from '../utils/logger';
+
+// Average characters per token for English text and code, calibrated against each provider's tokenizer
+const CHARS_PER_TOKEN: Record<TLLMProvider, number> = {
+  [TLLMProvider.OPENAI]: 4,
+  [TLLMProvider.CLAUDE]: 3.5,
+  [TLLMProvider.OLLAMA]: 3.8,
+  [TLLMProvider.AZURE_OPENAI]: 4
+};
+// CJK characters (our default templates are Chinese) come out at roughly one token each
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+
+// USD per million tokens, matched by the longest model name prefix. Override or extend with LLM_PRICE_TABLE.
+export const DEFAULT_PRICE_TABLE: Record<string, TModelPrice> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 }
+};
+
+export function getPriceTable(): Record<string, TModelPrice> {
+  if (!process.env.LLM_PRICE_TABLE) {
+    return DEFAULT_PRICE_TABLE;
+  }
+  try {
+    return { ...DEFAULT_PRICE_TABLE, ...JSON.parse(process.env.LLM_PRICE_TABLE) };
+  } catch (error) {
+    logWarn('Invalid LLM_PRICE_TABLE, using the default prices', { error: (error as Error).message });
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+/**
+ * Estimate the tokens in a text without calling the provider's tokenizer
+ */
+export function estimateTokens(text: string, provider?: TLLMProvider): number {
+  if (!text) {
+    return 0;
+  }
+  const cjk = (text.match(CJK_PATTERN) || []).length;
+  const charsPerToken = (provider && CHARS_PER_TOKEN[provider]) || 4;
+  return cjk + Math.ceil((text.length - cjk) / charsPerToken);
+}
+
+/**
+ * Estimate what a call costs. Local Ollama models are free unless the price table names them.
+ */
+export function estimateCost(
+  usage: TTokenUsage,
+  provider: TLLMProvider,
+  model?: string,
+  priceTable: Record<string, TModelPrice> = getPriceTable()
+): TCostEstimate | undefined {
+  const prefix = model && Object.keys(priceTable)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  const price = prefix ? priceTable[prefix] : provider === TLLMProvider.OLLAMA ? { input: 0, output: 0 } : undefined;
+  if (!price) {
+    return undefined;
+  }
+
+  const promptCost = (usage.promptTokens * price.input) / 1_000_000;
+  const completionCost = (usage.completionTokens * price.output) / 1_000_000;
+  return {
+    currency: 'USD',
+    promptCost: roundCost(promptCost),
+    completionCost: roundCost(completionCost),
+    totalCost: roundCost(promptCost + completionCost)
+  };
+}
+
+/**
+ * Add up usage, e.g. across the chunks of a request. The sum is an estimate if any part of it is.
+ */
+export function sumUsage(usages: (TTokenUsage | undefined)[]): TTokenUsage | undefined {
+  const known = usages.filter((usage): usage is TTokenUsage => usage !== undefined);
+  if (known.length === 0) {
+    return undefined;
+  }
+  const total = (key: 'promptTokens' | 'completionTokens' | 'totalTokens' | 'estimatedPromptTokens') =>
+    known.reduce((sum, usage) => sum + (usage[key] || 0), 0);
+  return {
+    promptTokens: total('promptTokens'),
+    completionTokens: total('completionTokens'),
+    totalTokens: total('totalTokens'),
+    ...(known.some(usage => usage.estimatedPromptTokens !== undefined) && { estimatedPromptTokens: total('estimatedPromptTokens') }),
+    ...(known.some(usage => usage.estimated) && { estimated: true })
+  };
+}
+
+/**
+ * Add up cost estimates. Unpriced parts make the total unknown rather than understated.
+ */
+export function sumCosts(costs: (TCostEstimate | undefined)[]): TCostEstimate | undefined {
+  if (costs.length === 0 || costs.some(cost => cost === undefined)) {
+    return undefined;
+  }
+  const total = (key: 'promptCost' | 'completionCost' | 'totalCost') =>
+    roundCost(costs.reduce((sum, cost) => sum + cost![key], 0));
+  return { currency: 'USD', promptCost: total('promptCost'), completionCost: total('completionCost'), totalCost: total('totalCost') };
+}
+
+/**
+ * Collects the usage of one LLM call: the prompt estimate made before the call, and what the provider reports
+ * in the LangChain response metadata. Pass `handler` in the chain's callbacks.
+ */
+export class TokenUsageCollector {
+  private reported?: { promptTokens: number; completionTokens: number };
+  private estimatedPromptTokens?: number;
+
+  readonly handler = {
+    handleLLMEnd: (output: LLMResult) => {
+      for (const generation of output.generations.flat()) {
+        const usage = ((generation as ChatGeneration).message as AIMessage | undefined)?.usage_metadata;
+        if (usage) {
+          this.reported = {
+            promptTokens: (this.reported?.promptTokens || 0) + usage.input_tokens,
+            completionTokens: (this.reported?.completionTokens || 0) + usage.output_tokens
+          };
+        }
+      }
+    }
+  };
+
+  constructor(private provider: TLLMProvider) {}
+
+  async estimatePrompt(template: PromptTemplate, variables: Record<string, any>): Promise<number> {
+    this.estimatedPromptTokens = estimateTokens(await template.format(variables), this.provider);
+    return this.estimatedPromptTokens;
+  }
+
+  /**
+   * Usage of the call, falling back to estimates when the provider reported none (e.g. some streaming APIs)
+   */
+  getUsage(completion: string): TTokenUsage {
+    const estimate = this.estimatedPromptTokens !== undefined && { estimatedPromptTokens: this.estimatedPromptTokens };
+    if (this.reported) {
+      return { ...this.reported, totalTokens: this.reported.promptTokens + this.reported.completionTokens, ...estimate };
+    }
+    const promptTokens = this.estimatedPromptTokens || 0;
+    const completionTokens = estimateTokens(completion, this.provider);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, ...estimate, estimated: true };
+  }
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
@@ -0,0 +1,285 @@
+// Service for queueing and running description generation triggered by Bitbucket webhooks
+import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import { fetchPullRequest, fetchPullRequestDiff } from './bitbucket-service';
+import { fetchPromptCommits } from './commit-history-service';
+import { fetchPromptFileContext } from './file-context-service';
+import { recordGeneration } from './generation-history-service';
+import { DescriptionPublisherService } from './description-publisher-service';
+import { getLLMService } from './llm-service-registry';
+import { TemplateService } from './template-service';
+import { TLLMProvider } from '../../types/llm-types';
+import {
+  TBitbucketWebhookPayload,
+  TWebhookConfig,
+  TWebhookEnqueueResult,
+  TWebhookEventKey,
+  TWebhookJob,
+  TWebhookJobResult,
+  TWebhookRepositoryConfig,
+} from '../../types/webhook-types';
+import { logInfo, logWarn, logError } from '../utils/logger';
+
+export const SUPPORTED_WEBHOOK_EVENTS: TWebhookEventKey[] = ['pullrequest:created', 'pullrequest:updated'];
+
+export class WebhookService {
+  private queue: TWebhookJob[] = [];
+  private running: TWebhookJob | null = null;
+  // Source commit of the last successful run per PR; our own publish fires `pullrequest:updated` again
+  private lastProcessedCommit: Map<string, string> = new Map();
+  private idleWaiters: Array<() => void> = [];
+  private config: TWebhookConfig;
+
+  constructor(config?: TWebhookConfig) {
+    this.config = config || WebhookService.loadConfig();
+  }
+
+  /**
+   * Verify Bitbucket's `X-Hub-Signature: sha256=<hex>` header against the raw request body
+   */
+  static verifySignature(rawBody: Buffer, signatureHeader: string | undefined, secret: string): boolean {
+    if (!signatureHeader || !signatureHeader.startsWith('sha256=')) {
+      return false;
+    }
+    const expected = crypto.createHmac('sha256', secret).update(rawBody).digest();
+    const received = Buffer.from(signatureHeader.slice('sha256='.length), 'hex');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  }
+
+  /**
+   * Read per-repository defaults from WEBHOOK_CONFIG_PATH, falling back to WEBHOOK_* environment variables
+   */
+  static loadConfig(): TWebhookConfig {
+    const defaults: TWebhookRepositoryConfig = {
+      enabled: true,
+      template: process.env.WEBHOOK_DEFAULT_TEMPLATE || 'pr-description-template-en.txt',
+      provider: process.env.WEBHOOK_DEFAULT_PROVIDER as TLLMProvider | undefined,
+      target: process.env.WEBHOOK_TARGET === 'sink' ? 'sink' : 'pr',
+      publishMode: 'section',
+      sinkUrl: process.env.WEBHOOK_SINK_URL
+    };
+
+    const configPath = process.env.WEBHOOK_CONFIG_PATH;
+    if (!configPath) {
+      return { defaults, repositories: {} };
+    }
+
+    try {
+      const fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8')) as Partial<TWebhookConfig>;
+      return {
+        defaults: { ...defaults, ...fileConfig.defaults },
+        repositories: fileConfig.repositories || {}
+      };
+    } catch (error) {
+      logError(`Failed to load webhook configuration from ${configPath}`, error);
+      return { defaults, repositories: {} };
+    }
+  }
+
+  getRepositoryConfig(repository: string): TWebhookRepositoryConfig {
+    const override = this.config.repositories[repository] || {};
+    return { ...this.config.defaults, ...override };
+  }
+
+  /**
+   * Turn a verified webhook delivery into a queued generation job
+   */
+  enqueue(event: TWebhookEventKey, payload: TBitbucketWebhookPayload): TWebhookEnqueueResult {
+    const repository = payload.repository?.full_name;
+    const pr = payload.pullrequest;
+    if (!repository || !pr?.id || !pr.source?.commit?.hash) {
+      return { queued: false, reason: 'Payload is missing repository, pull request or source commit' };
+    }
+    if (pr.state !== 'OPEN') {
+      return { queued: false, reason: `Pull request is ${pr.state}` };
+    }
+    if (!this.getRepositoryConfig(repository).enabled) {
+      return { queued: false, reason: 'Webhook generation is disabled for this repository' };
+    }
+
+    const prNumber = String(pr.id);
+    const key = this.getJobKey(repository, prNumber);
+    const sourceCommit = pr.source.commit.hash;
+
+    // Edits to title/description (including our own publish) don't change the code
+    if (this.lastProcessedCommit.get(key) === sourceCommit ||
+        (this.running && this.getJobKey(this.running.repository, this.running.prNumber) === key &&
+          this.running.sourceCommit === sourceCommit)) {
+      return { queued: false, reason: `Description already generated for commit ${sourceCommit.substring(0, 12)}` };
+    }
+
+    const job: TWebhookJob = {
+      id: crypto.randomUUID(),
+      event,
+      repository,
+      prNumber,
+      sourceCommit,
+      receivedAt: new Date().toISOString()
+    };
+
+    // A newer push supersedes a job that hasn't started yet
+    const pendingIndex = this.queue.findIndex(pending => this.getJobKey(pending.repository, pending.prNumber) === key);
+    if (pendingIndex >= 0) {
+      this.queue[pendingIndex] = job;
+    } else {
+      this.queue.push(job);
+    }
+
+    logInfo('Queued webhook generation', { jobId: job.id, event, repository, prNumber, queueLength: this.queue.length });
+    setImmediate(() => this.drain());
+    return { queued: true, jobId: job.id };
+  }
+
+  getQueueLength(): number {
+    return this.queue.length + (this.running ? 1 : 0);
+  }
+
+  /**
+   * Resolves once the queue is empty and no job is running
+   */
+  whenIdle(): Promise<void> {
+    if (this.getQueueLength() === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    while (this.queue.length > 0) {
+      const job = this.queue.shift()!;
+      this.running = job;
+      try {
+        const result = await this.processJob(job);
+        if (result.status === 'published' || result.status === 'sent') {
+          this.lastProcessedCommit.set(this.getJobKey(job.repository, job.prNumber), job.sourceCommit);
+        }
+        logInfo('Webhook generation finished', result);
+      } catch (error) {
+        logError(`Webhook generation ${job.id} failed`, error);
+      } finally {
+        this.running = null;
+      }
+    }
+
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  async processJob(job: TWebhookJob): Promise<TWebhookJobResult> {
+    const { repository, prNumber } = job;
+    const config = this.getRepositoryConfig(repository);
+    const result = (status: TWebhookJobResult['status'], error?: string): TWebhookJobResult =>
+      ({ jobId: job.id, repository, prNumber, status, ...(error && { error }) });
+
+    const template = config.template && TemplateService.validateTemplate(config.template) ? config.template : undefined;
+    if (config.template && !template) {
+      logWarn('Configured webhook template not found, using default', { repository, template: config.template });
+    }
+
+    // Always read the live PR: the event may be older than the last edit
+    const prResponse = await fetchPullRequest(repository, prNumber, { bypassCache: true });
+    if (!prResponse.success || !prResponse.data) {
+      return result('failed', prResponse.error || 'Failed to fetch PR details');
+    }
+    const diffResponse = await fetchPullRequestDiff(repository, prNumber, {}, prResponse.data);
+    if (!diffResponse.success || !diffResponse.data) {
+      return result('failed', diffResponse.error || 'Failed to fetch PR diff');
+    }
+
+    const pr = prResponse.data;
+    if (pr.state !== 'OPEN') {
+      return result('skipped', `Pull request is ${pr.state}`);
+    }
+
+    const llmService = getLLMService();
+    let provider = config.provider;
+    if (!provider) {
+      const availableProviders = await llmService.getAvailableProviders();
+      if (availableProviders.length === 0) {
+        return result('failed', 'No LLM providers are currently available');
+      }
+      provider = availableProviders[0];
+    }
+
+    const llmResponse = await llmService.generateDescription({
+      provider,
+      prData: {
+        title: pr.title,
+        description: pr.description || '',
+        diff: diffResponse.data.diff,
+        author: pr.author.display_name,
+        sourceBranch: pr.source.branch.name,
+        destinationBranch: pr.destination.branch.name,
+        repository: pr.source.repository.full_name,
+        additionalContext: '',
+        commits: await fetchPromptCommits(repository, prNumber, 'bitbucket-cloud', {}),
+        fileContext: await fetchPromptFileContext(repository, pr, diffResponse.data.diff, 'bitbucket-cloud', {})
+      },
+      template
+    });
+    if (!llmResponse.success || !llmResponse.data) {
+      return result('failed', llmResponse.error || 'Failed to generate description');
+    }
+
+    if (config.target === 'sink') {
+      if (!config.sinkUrl) {
+        return result('failed', 'Webhook target is "sink" but no sinkUrl is configured');
+      }
+      try {
+        await axios.post(config.sinkUrl, {
+          event: 'pullrequest:description_generated',
+          repository,
+          prNumber,
+          prUrl: pr.links.html.href,
+          sourceCommit: job.sourceCommit,
+          description: llmResponse.data.description,
+          provider: llmResponse.data.provider,
+          model: llmResponse.data.model,
+          generatedAt: new Date().toISOString()
+        }, {
+          headers: { 'Content-Type': 'application/json' },
+          timeout: parseInt(process.env.WEBHOOK_SINK_TIMEOUT_MS || '10000'),
+        });
+        recordGeneration(repository, prNumber, pr, llmResponse.data.provider, template, false);
+        return result('sent');
+      } catch (err: any) {
+        return result('failed', `Failed to deliver to sink: ${err.message}`);
+      }
+    }
+
+    const publisher = new DescriptionPublisherService();
+    const published = await publisher.publish(repository, prNumber, llmResponse.data.description, {
+      mode: config.publishMode || 'section',
+      expectedUpdatedOn: pr.updated_on
+    });
+    if (!published.success) {
+      return result('failed', published.error || 'Failed to publish description');
+    }
+    recordGeneration(repository, prNumber, pr, llmResponse.data.provider, template, false);
+    return result('published');
+  }
+
+  private getJobKey(repository: string, prNumber: string): string {
+    return `${repository}#${prNumber}`;
+  }
+}
+
+let webhookService: WebhookService | null = null;
+
+export function getWebhookService(): WebhookService {
+  if (!webhookService) {
+    webhookService = new WebhookService();
+  }
+  return webhookService;
+}
+
+// For testing purposes
+export function resetWebhookService(): void {
+  webhookService = null;
+}
@@ -0,0 +1,34 @@
+// concurrency-limiter.ts - Run async tasks with at most `limit` in flight, starting queued tasks in FIFO order
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {
+    if (limit <= 0) {
+      throw new Error('Concurrency limit must be positive');
+    }
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      // The finishing task hands its slot straight to us, so `active` already counts this task
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  getLimit(): number {
+    return this.limit;
+  }
+}
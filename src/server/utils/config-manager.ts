@@ -5,6 +5,13 @@ export interface ChunkingFeatureConfig {
     chunkSize: number;
     overlapSize: number;
     maxChunks: number;
+    // Chunks processed at once per provider; providerConcurrency overrides the default for named providers
+    concurrency: number;
+    providerConcurrency: Record<string, number>;
+    // A chunk taking longer than this fails (and may fall back to the next provider)
+    timeoutMs: number;
+    // Most part summaries merged by one synthesis call; larger PRs are merged level by level
+    synthesisFanIn: number;
   };
   fileFiltering: {
     enabled: boolean;
@@ -13,6 +20,12 @@ export interface ChunkingFeatureConfig {
   };
   llmPrompt: {
     maxDiffLength: number;
+    maxCommitsLength: number;
+  };
+  fileContext: {
+    enabled: boolean;
+    maxLength: number;
+    maxFiles: number;
   };
 }
 
@@ -41,7 +54,13 @@ export class ConfigManager {
         enabled: this.parseBoolean(process.env.ENABLE_CHUNKING, false),
         chunkSize: this.parseInteger(process.env.DIFF_CHUNK_SIZE, 4000),
         overlapSize: this.parseInteger(process.env.DIFF_CHUNK_OVERLAP, 200),
-        maxChunks: this.parseInteger(process.env.MAX_CHUNKS, 10)
+        maxChunks: this.parseInteger(process.env.MAX_CHUNKS, 10),
+        concurrency: this.parseInteger(process.env.CHUNK_CONCURRENCY, 3),
+        // A local Ollama server runs one generation at a time anyway
+        providerConcurrency: this.parseKeyValueIntegers(process.env.CHUNK_PROVIDER_CONCURRENCY, { ollama: 1 }),
+        timeoutMs: this.parseInteger(process.env.CHUNK_TIMEOUT_MS, 120000),
+        // Fewer than two summaries per merge would never shrink the tree
+        synthesisFanIn: Math.max(2, this.parseInteger(process.env.CHUNK_SYNTHESIS_FAN_IN, 8))
       },
       fileFiltering: {
         enabled: this.parseBoolean(process.env.ENABLE_FILE_FILTERING, true),
@@ -65,7 +84,13 @@ export class ConfigManager {
         customIgnorePatterns: this.parseCommaSeparatedString(process.env.IGNORE_PATTERNS, [])
       },
       llmPrompt: {
-        maxDiffLength: this.parseInteger(process.env.LLM_PROMPT_MAX_DIFF, 8000)
+        maxDiffLength: this.parseInteger(process.env.LLM_PROMPT_MAX_DIFF, 8000),
+        maxCommitsLength: this.parseInteger(process.env.LLM_PROMPT_MAX_COMMITS, 2000)
+      },
+      fileContext: {
+        enabled: this.parseBoolean(process.env.ENABLE_FILE_CONTEXT, false),
+        maxLength: this.parseInteger(process.env.LLM_PROMPT_MAX_FILE_CONTEXT, 6000),
+        maxFiles: this.parseInteger(process.env.FILE_CONTEXT_MAX_FILES, 10)
       }
     };
   }
@@ -86,8 +111,22 @@ export class ConfigManager {
     return value.split(',').map(s => s.trim()).filter(s => s.length > 0);
   }
 
+  // e.g. "claude=4,ollama=1"
+  private parseKeyValueIntegers(value: string | undefined, defaultValue: Record<string, number>): Record<string, number> {
+    if (!value) return defaultValue;
+    const result: Record<string, number> = {};
+    for (const pair of this.parseCommaSeparatedString(value, [])) {
+      const [key, raw] = pair.split('=').map(s => s.trim());
+      const parsed = parseInt(raw, 10);
+      if (key && !isNaN(parsed)) {
+        result[key.toLowerCase()] = parsed;
+      }
+    }
+    return result;
+  }
+
   getChunkingConfig(): ChunkingFeatureConfig['chunking'] {
-    return { ...this.config.chunking };
+    return { ...this.config.chunking, providerConcurrency: { ...this.config.chunking.providerConcurrency } };
   }
 
   getFileFilteringConfig(): ChunkingFeatureConfig['fileFiltering'] {
@@ -102,11 +141,16 @@ export class ConfigManager {
     return { ...this.config.llmPrompt };
   }
 
+  getFileContextConfig(): ChunkingFeatureConfig['fileContext'] {
+    return { ...this.config.fileContext };
+  }
+
   getFullConfig(): ChunkingFeatureConfig {
     return {
       chunking: this.getChunkingConfig(),
       fileFiltering: this.getFileFilteringConfig(),
-      llmPrompt: this.getLLMPromptConfig()
+      llmPrompt: this.getLLMPromptConfig(),
+      fileContext: this.getFileContextConfig()
     };
   }
 
@@ -117,7 +161,8 @@ export class ConfigManager {
       ...newConfig,
       chunking: { ...this.config.chunking, ...newConfig.chunking },
       fileFiltering: { ...this.config.fileFiltering, ...newConfig.fileFiltering },
-      llmPrompt: { ...this.config.llmPrompt, ...newConfig.llmPrompt }
+      llmPrompt: { ...this.config.llmPrompt, ...newConfig.llmPrompt },
+      fileContext: { ...this.config.fileContext, ...newConfig.fileContext }
     };
   }
 
@@ -142,6 +187,18 @@ export class ConfigManager {
       errors.push('Maximum chunks must be positive');
     }
 
+    if (this.config.chunking.concurrency <= 0 || Object.values(this.config.chunking.providerConcurrency).some(limit => limit <= 0)) {
+      errors.push('Chunk concurrency must be positive');
+    }
+
+    if (this.config.chunking.timeoutMs <= 0) {
+      errors.push('Chunk timeout must be positive');
+    }
+
+    if (this.config.chunking.synthesisFanIn < 2) {
+      errors.push('Chunk synthesis fan-in must be at least 2');
+    }
+
     if (this.config.chunking.overlapSize >= this.config.chunking.chunkSize) {
       errors.push('Overlap size must be smaller than chunk size');
     }
@@ -150,6 +207,18 @@ export class ConfigManager {
       errors.push('LLM prompt max diff length must be positive');
     }
 
+    if (this.config.llmPrompt.maxCommitsLength <= 0) {
+      errors.push('LLM prompt max commits length must be positive');
+    }
+
+    if (this.config.fileContext.maxLength <= 0) {
+      errors.push('File context max length must be positive');
+    }
+
+    if (this.config.fileContext.maxFiles <= 0) {
+      errors.push('File context max files must be positive');
+    }
+
     return {
       isValid: errors.length === 0,
       errors
@@ -1,5 +1,5 @@
 // Input validation and sanitization utilities
-import { TLLMProvider } from '../../types/llm-types';
+import { getKnownProviders } from '../services/openai-compatible-endpoints';
 import { logWarn } from './logger';
 
 export interface TValidationResult {
@@ -19,6 +19,9 @@ export interface TValidationRules {
   sanitize?: boolean;
 }
 
+// Upper bound for suggestReviewers.limit
+const MAX_REVIEWER_SUGGESTIONS = 20;
+
 export class InputValidator {
   // HTML encoding to prevent XSS attacks
   static escapeHtml(input: string): string {
@@ -165,8 +168,8 @@ export class InputValidator {
     result.sanitized = sanitized;
 
     // Use whitelist validation for providers
-    const validProviders = Object.values(TLLMProvider);
-    if (!validProviders.includes(sanitized as TLLMProvider)) {
+    const validProviders = getKnownProviders();
+    if (!validProviders.includes(sanitized)) {
       result.isValid = false;
       result.errors.push(`Provider must be one of: ${validProviders.join(', ')}`);
     }
@@ -174,6 +177,30 @@ export class InputValidator {
     return result;
   }
 
+  // Validate suggestReviewers: a boolean, or { addReviewers?, limit? }
+  static validateReviewerSuggestionOptions(value: any): TValidationResult {
+    const result: TValidationResult = { isValid: true, errors: [] };
+
+    if (value === undefined || typeof value === 'boolean') {
+      return result;
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      result.isValid = false;
+      result.errors.push('suggestReviewers must be a boolean or an object');
+      return result;
+    }
+    if (value.addReviewers !== undefined && typeof value.addReviewers !== 'boolean') {
+      result.isValid = false;
+      result.errors.push('suggestReviewers.addReviewers must be a boolean');
+    }
+    if (value.limit !== undefined && (!Number.isInteger(value.limit) || value.limit < 1 || value.limit > MAX_REVIEWER_SUGGESTIONS)) {
+      result.isValid = false;
+      result.errors.push(`suggestReviewers.limit must be an integer between 1 and ${MAX_REVIEWER_SUGGESTIONS}`);
+    }
+
+    return result;
+  }
+
   // Validate general string input
   static validateString(input: string, rules: TValidationRules): TValidationResult {
     const result: TValidationResult = { isValid: true, errors: [] };
@@ -331,6 +358,17 @@ export class InputValidator {
       }
     }
 
+    if (body.includeFileContext !== undefined && typeof body.includeFileContext !== 'boolean') {
+      result.isValid = false;
+      result.errors.push('includeFileContext must be a boolean');
+    }
+
+    const reviewerValidation = InputValidator.validateReviewerSuggestionOptions(body.suggestReviewers);
+    if (!reviewerValidation.isValid) {
+      result.isValid = false;
+      result.errors.push(...reviewerValidation.errors);
+    }
+
     return result;
   }
 }
@@ -343,4 +381,5 @@ export const validatePRNumber = InputValidator.validatePRNumber;
 export const validateProvider = InputValidator.validateProvider;
 export const validateString = InputValidator.validateString;
 export const validateRequestSize = InputValidator.validateRequestSize;
+export const validateReviewerSuggestionOptions = InputValidator.validateReviewerSuggestionOptions;
 export const validateGenerateDescriptionRequest = InputValidator.validateGenerateDescriptionRequest;
@@ -1,10 +1,16 @@
-// URL parsing utility for Bitbucket PR URLs
+// URL parsing utility for Bitbucket and GitHub PR URLs and GitLab MR URLs
+export type TBitbucketPlatform = 'cloud' | 'server';
+
 export interface ParsedPRUrl {
   workspace: string;
   repository: string;
   prNumber: string;
   isValid: boolean;
   error?: string;
+  // Only set on valid URLs
+  platform?: TBitbucketPlatform | 'github' | 'gitlab';
+  // Base URL of a Bitbucket Server / Data Center or GitLab instance (including any context path)
+  baseUrl?: string;
 }
 
 export class BitbucketUrlParser {
@@ -21,6 +27,12 @@ export class BitbucketUrlParser {
   // General pattern to catch bitbucket PR URLs for validation
   private static readonly GENERAL_PR_PATTERN = /^https?:\/\/bitbucket\.org\/(.+?)\/(.+?)\/(pull-requests?|pullrequests?)\/(.+)$/;
 
+  // Bitbucket Server / Data Center PR URL on any host, e.g.
+  // https://git.example.com/projects/KEY/repos/slug/pull-requests/12/overview
+  // https://git.example.com/users/jdoe/repos/slug/pull-requests/12 (personal repository)
+  private static readonly SERVER_PR_PATTERN =
+    /^(https?:\/\/[^\/\s?#]+(?:\/[^\/\s?#]+)*?)\/(projects|users)\/([^\/\s]+)\/repos\/([^\/\s]+)\/pull-requests\/([^\/\?\s]+)(?:\/[^?\s]*)?(\?.*)?$/i;
+
   /**
    * Parse a Bitbucket PR URL and extract workspace, repository, and PR number
    * @param url - The Bitbucket PR URL to parse
@@ -50,6 +62,12 @@ export class BitbucketUrlParser {
       };
     }
 
+    // Bitbucket Server / Data Center instances are self-hosted, so any host may match
+    const serverMatch = trimmedUrl.match(this.SERVER_PR_PATTERN);
+    if (serverMatch && !/^https?:\/\/bitbucket\.org\//i.test(trimmedUrl)) {
+      return this.parseServerMatch(serverMatch);
+    }
+
     // Check if it's a Bitbucket URL
     if (!trimmedUrl.includes('bitbucket.org')) {
       return {
@@ -84,7 +102,8 @@ export class BitbucketUrlParser {
         workspace,
         repository,
         prNumber,
-        isValid: true
+        isValid: true,
+        platform: 'cloud'
       };
     }
 
@@ -110,7 +129,8 @@ export class BitbucketUrlParser {
           workspace,
           repository,
           prNumber,
-          isValid: true
+          isValid: true,
+          platform: 'cloud'
         };
       }
     }
@@ -125,10 +145,39 @@ export class BitbucketUrlParser {
   }
 
   /**
-   * Validate extracted URL components
+   * Build the parse result for a Bitbucket Server / Data Center URL match
    * @private
    */
-  private static validateComponents(workspace: string, repository: string, prNumber: string): { isValid: boolean; error?: string } {
+  private static parseServerMatch(match: RegExpMatchArray): ParsedPRUrl {
+    const [, baseUrl, ownerType, owner, repository, prNumber] = match;
+    // Personal repositories are addressed as project "~username" in the REST API
+    const projectKey = ownerType.toLowerCase() === 'users' ? `~${owner}` : owner;
+
+    const validation = this.validateComponents(projectKey, repository, prNumber);
+    if (!validation.isValid) {
+      return {
+        workspace: projectKey,
+        repository,
+        prNumber,
+        isValid: false,
+        error: validation.error
+      };
+    }
+
+    return {
+      workspace: projectKey,
+      repository,
+      prNumber,
+      isValid: true,
+      platform: 'server',
+      baseUrl
+    };
+  }
+
+  /**
+   * Validate extracted URL components (shared by every platform's parser)
+   */
+  static validateComponents(workspace: string, repository: string, prNumber: string): { isValid: boolean; error?: string } {
     // Workspace validation
     if (!workspace || workspace.length < 1 || workspace.length > 100) {
       return { isValid: false, error: 'Invalid workspace name' };
@@ -183,7 +232,99 @@ export class BitbucketUrlParser {
     }
     
     const trimmedUrl = url.trim().toLowerCase();
+    if (this.SERVER_PR_PATTERN.test(trimmedUrl)) {
+      return true;
+    }
     return trimmedUrl.includes('bitbucket.org') && 
            (trimmedUrl.includes('/pull-requests/') || trimmedUrl.includes('/pullrequests/'));
   }
+}
+
+export class GitHubUrlParser {
+  // https://github.com/owner/repo/pull/123, optionally followed by /files, /commits, etc.
+  private static readonly PR_PATTERN = /^https?:\/\/(?:www\.)?github\.com\/([^\/\s?#]+)\/([^\/\s?#]+)\/pull\/([^\/\?#\s]+)(?:\/[^?#\s]*)?([?#].*)?$/i;
+
+  /**
+   * Whether the URL points at github.com at all, so the request should be routed to the GitHub parser
+   */
+  static isGitHubUrl(url: string): boolean {
+    return typeof url === 'string' && /^https?:\/\/(?:www\.)?github\.com\//i.test(url.trim());
+  }
+
+  /**
+   * Parse a GitHub PR URL; the owner is returned as the workspace
+   */
+  static parsePRUrl(url: string): ParsedPRUrl {
+    const match = url.trim().match(this.PR_PATTERN);
+    if (!match) {
+      return {
+        workspace: '',
+        repository: '',
+        prNumber: '',
+        isValid: false,
+        error: 'Invalid GitHub PR URL format. Expected: https://github.com/owner/repository/pull/123'
+      };
+    }
+
+    const [, owner, repository, prNumber] = match;
+    const validation = BitbucketUrlParser.validateComponents(owner, repository, prNumber);
+    if (!validation.isValid) {
+      return { workspace: owner, repository, prNumber, isValid: false, error: validation.error };
+    }
+
+    return { workspace: owner, repository, prNumber, isValid: true, platform: 'github' };
+  }
+}
+
+export class GitLabUrlParser {
+  // https://host/group/subgroup/project/-/merge_requests/12, optionally followed by /diffs, /commits, etc.
+  private static readonly MR_PATTERN = /^(https?:\/\/[^\/\s?#]+)((?:\/[^\/\s?#]+)+?)\/-\/merge_requests\/([^\/\?#\s]+)(?:\/[^?#\s]*)?([?#].*)?$/i;
+
+  /**
+   * Whether the URL has GitLab's merge request path, on any host
+   */
+  static isGitLabUrl(url: string): boolean {
+    return typeof url === 'string' && /\/-\/merge_requests\//i.test(url);
+  }
+
+  /**
+   * Parse a GitLab MR URL. The project path may contain subgroups: everything but the last segment is
+   * returned as the workspace. `knownBaseUrls` lets instances served under a context path
+   * (e.g. https://host/gitlab) be told apart from a top-level group.
+   */
+  static parsePRUrl(url: string, knownBaseUrls: string[] = []): ParsedPRUrl {
+    const trimmedUrl = url.trim();
+    const match = trimmedUrl.match(this.MR_PATTERN);
+    if (!match) {
+      return {
+        workspace: '',
+        repository: '',
+        prNumber: '',
+        isValid: false,
+        error: 'Invalid GitLab MR URL format. Expected: https://gitlab.example.com/group/project/-/merge_requests/123'
+      };
+    }
+
+    const [, origin, path, prNumber] = match;
+    const contextPath = knownBaseUrls
+      .map(baseUrl => baseUrl.trim().replace(/\/+$/, ''))
+      .filter(baseUrl => baseUrl.toLowerCase().startsWith(origin.toLowerCase()) && baseUrl.length > origin.length)
+      .map(baseUrl => baseUrl.substring(origin.length))
+      .filter(prefix => path.toLowerCase().startsWith(`${prefix.toLowerCase()}/`))
+      .sort((a, b) => b.length - a.length)[0] || '';
+
+    const segments = path.substring(contextPath.length).split('/').filter(segment => segment.length > 0);
+    if (segments.length < 2) {
+      return { workspace: '', repository: '', prNumber, isValid: false, error: 'Invalid repository name' };
+    }
+    const repository = segments[segments.length - 1];
+    const workspace = segments.slice(0, -1).join('/');
+
+    const validation = BitbucketUrlParser.validateComponents(workspace, repository, prNumber);
+    if (!validation.isValid) {
+      return { workspace, repository, prNumber, isValid: false, error: validation.error };
+    }
+
+    return { workspace, repository, prNumber, isValid: true, platform: 'gitlab', baseUrl: `${origin}${contextPath}` };
+  }
 }
\ No newline at end of file
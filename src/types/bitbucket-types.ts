@@ -4,6 +4,12 @@ export type TBitbucketAPIResponse<T> = {
   success: boolean;
   data?: T;
   error?: string;
+  metadata?: TBitbucketRequestMetadata;
+};
+
+export type TBitbucketRequestMetadata = {
+  // HTTP attempts made, including retries (summed across pages for paginated calls)
+  attempts: number;
 };
 
 export type TPullRequest = {
@@ -20,16 +26,135 @@ export type TPullRequest = {
   source: {
     branch: { name: string };
     repository: { full_name: string };
+    commit?: { hash: string };
   };
   destination: {
     branch: { name: string };
     repository: { full_name: string };
+    commit?: { hash: string };
   };
   links: {
     html: { href: string };
   };
+  // Set once the PR is merged
+  merge_commit?: { hash: string } | null;
+  // Set once the PR is merged or declined
+  closed_on?: string | null;
+  reviewers?: TBitbucketUser[];
+};
+
+export type TBitbucketUser = {
+  display_name: string;
+  uuid: string;
+  account_id?: string;
+  nickname?: string;
 };
 
 export type TPullRequestDiff = {
   diff: string;
 };
+
+export type TPublishMode = 'replace' | 'prepend' | 'section';
+
+export type TPublishDescriptionResult = {
+  mode: TPublishMode;
+  updatedOn: string;
+  url: string;
+};
+
+export type TPullRequestComment = {
+  id: number;
+  content: { raw: string };
+  inline?: {
+    path: string;
+    from?: number | null;
+    to?: number | null;
+  };
+  user?: TBitbucketUser;
+  // Set once the comment thread is resolved
+  resolution?: object | null;
+  deleted?: boolean;
+};
+
+// Code Insights report on a commit, shown in the PR's "Reports" panel
+export type TCodeInsightsResult = 'PASSED' | 'FAILED' | 'PENDING';
+
+export type TCodeInsightsReport = {
+  title: string;
+  details: string;
+  report_type: 'SECURITY' | 'COVERAGE' | 'TEST' | 'BUG';
+  reporter: string;
+  result: TCodeInsightsResult;
+  link?: string;
+  data?: { title: string; type: 'BOOLEAN' | 'DATE' | 'DURATION' | 'LINK' | 'NUMBER' | 'PERCENTAGE' | 'TEXT'; value: any }[];
+};
+
+export type TCodeInsightsSeverity = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+export type TCodeInsightsAnnotation = {
+  // Unique within the report; Bitbucket uses it to replace an annotation on re-upload
+  external_id: string;
+  annotation_type: 'VULNERABILITY' | 'CODE_SMELL' | 'BUG';
+  path: string;
+  line: number;
+  summary: string;
+  details?: string;
+  severity: TCodeInsightsSeverity;
+};
+
+export type TPullRequestCommit = {
+  hash: string;
+  message: string;
+  date: string;
+  author: {
+    raw: string;
+    user?: { display_name: string; uuid?: string };
+  };
+  parents?: { hash: string }[];
+};
+
+export type TPaginatedResponse<T> = {
+  values: T[];
+  next?: string;
+  page?: number;
+  pagelen?: number;
+  size?: number;
+};
+
+// Raw pull request shape returned by Bitbucket Server / Data Center `rest/api/1.0`
+export type TBitbucketServerPullRequest = {
+  id: number;
+  title: string;
+  description?: string;
+  state: string;
+  createdDate: number;
+  updatedDate: number;
+  author: {
+    user: {
+      id: number;
+      name: string;
+      displayName: string;
+    };
+  };
+  fromRef: TBitbucketServerRef;
+  toRef: TBitbucketServerRef;
+  links: {
+    self: { href: string }[];
+  };
+};
+
+export type TBitbucketServerRef = {
+  displayId: string;
+  latestCommit: string;
+  repository: {
+    slug: string;
+    project: { key: string };
+  };
+};
+
+export type TBitbucketAuthType = 'basic' | 'access_token' | 'oauth' | 'anonymous';
+
+export type TBitbucketAuthOptions = {
+  // Token supplied by the caller so the request runs with their own Bitbucket permissions
+  userToken?: string;
+};
@@ -0,0 +1,27 @@
+// TypeScript type definitions for GitHub REST API data
+
+export type TGitHubRef = {
+  ref: string;
+  sha: string;
+  // Null when the fork a PR came from has been deleted
+  repo: { full_name: string } | null;
+};
+
+// Raw pull request shape returned by GitHub `GET /repos/{owner}/{repo}/pulls/{number}`
+export type TGitHubPullRequest = {
+  number: number;
+  title: string;
+  body: string | null;
+  state: 'open' | 'closed';
+  merged_at: string | null;
+  user: {
+    login: string;
+    id: number;
+  };
+  created_at: string;
+  updated_at: string;
+  head: TGitHubRef;
+  base: TGitHubRef;
+  html_url: string;
+  merge_commit_sha?: string | null;
+};
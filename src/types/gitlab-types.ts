@@ -0,0 +1,47 @@
+// TypeScript type definitions for GitLab REST API (v4) data
+
+// Raw merge request shape returned by GitLab `GET /projects/:id/merge_requests/:iid`
+export type TGitLabMergeRequest = {
+  id: number;
+  iid: number;
+  title: string;
+  description: string | null;
+  state: 'opened' | 'closed' | 'merged' | 'locked';
+  author: {
+    id: number;
+    username: string;
+    name: string;
+  };
+  created_at: string;
+  updated_at: string;
+  source_branch: string;
+  target_branch: string;
+  source_project_id: number;
+  target_project_id: number;
+  sha: string;
+  merge_commit_sha?: string | null;
+  diff_refs?: {
+    base_sha: string;
+    head_sha: string;
+    start_sha: string;
+  } | null;
+  references?: { full: string };
+  web_url: string;
+};
+
+export type TGitLabChange = {
+  old_path: string;
+  new_path: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+  // Hunks only (starting at "@@"), without the diff --git/---/+++ header
+  diff: string;
+};
+
+// `GET /projects/:id/merge_requests/:iid/changes`: the merge request plus its per-file diffs
+export type TGitLabMergeRequestChanges = TGitLabMergeRequest & {
+  changes: TGitLabChange[];
+  // True when GitLab truncated the change list
+  overflow?: boolean;
+};
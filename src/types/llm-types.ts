@@ -1,10 +1,14 @@
 // TypeScript type definitions for LLM services
 
-export enum TLLMProvider {
-  OPENAI = 'openai',
-  CLAUDE = 'claude',
-  OLLAMA = 'ollama'
-}
+// Built-in providers. A provider is any id registered with LLMService, so OpenAI-compatible endpoints
+// configured in OPENAI_COMPATIBLE_ENDPOINTS are providers under their own names.
+export const TLLMProvider = {
+  OPENAI: 'openai',
+  CLAUDE: 'claude',
+  OLLAMA: 'ollama',
+  AZURE_OPENAI: 'azure-openai'
+} as const;
+export type TLLMProvider = string;
 
 // DiffChunk type for chunking functionality
 export interface DiffChunk {
@@ -20,6 +24,12 @@ export interface DiffChunk {
   hasOverlap: boolean;
 }
 
+export type TPromptCommit = {
+  hash: string;
+  message: string;
+  author?: string;
+};
+
 export type TLLMPromptData = {
   title: string;
   description: string;
@@ -29,6 +39,18 @@ export type TLLMPromptData = {
   destinationBranch: string;
   repository: string;
   additionalContext?: string;
+  // PR commits in chronological order, rendered into the {{commits}} template variable
+  commits?: TPromptCommit[];
+  // Enclosing functions/classes of the changed hunks, rendered into {{fileContext}}
+  fileContext?: string;
+  // Source commit the previous description was generated against, rendered into {{previousCommit}} (incremental mode)
+  previousCommit?: string;
+  // Per-PR summaries of a release, rendered into {{pullRequestSummaries}} (release notes)
+  pullRequestSummaries?: string;
+  // Summaries of diff parts, rendered into {{chunkSummaries}} (chunk synthesis)
+  chunkSummaries?: string;
+  // The selected template, already rendered, that the synthesis prompt asks the model to follow ({{outputTemplate}})
+  outputTemplate?: string;
   // New properties for chunking and filtering
   chunks?: DiffChunk[];
   requiresChunking?: boolean;
@@ -51,15 +73,114 @@ export type TLLMResponse = {
   success: boolean;
   data?: {
     description: string;
+    // For chunked requests, the provider that produced the last part
     provider: TLLMProvider;
     model?: string;
+    // Chunked requests: which provider produced each chunk
+    parts?: TLLMResponsePart[];
+    // Calls that merged the chunk summaries into the description (chunked requests)
+    synthesis?: TLLMSynthesisStep[];
+    // Providers that failed with a retryable error before the fallback chain moved on
+    fallbacks?: TLLMFallbackAttempt[];
+    // Token usage; summed across chunks for chunked requests
+    usage?: TTokenUsage;
+    // Estimated from usage and the price table; absent when the model has no known price
+    cost?: TCostEstimate;
   };
   error?: string;
+  // The failure is transient (rate limit, quota, outage), so the next provider in the fallback chain may succeed
+  retryable?: boolean;
+};
+
+export type TLLMResponsePart = {
+  chunkIndex: number;
+  provider: TLLMProvider;
+  model?: string;
+  usage?: TTokenUsage;
+};
+
+// One merge of chunk summaries: an intermediate summary of a group of them, or the final description
+export type TLLMSynthesisStep = {
+  final: boolean;
+  provider: TLLMProvider;
+  model?: string;
+  usage?: TTokenUsage;
+};
+
+export type TTokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Prompt size estimated before the call, kept next to the reported count to calibrate the estimate
+  estimatedPromptTokens?: number;
+  // The provider reported no usage, so the counts are estimates
+  estimated?: boolean;
+};
+
+// A named endpoint that speaks the OpenAI chat completions protocol (vLLM, LM Studio, ...)
+export type TOpenAICompatibleEndpoint = {
+  // Up to and including the API version, e.g. http://localhost:8000/v1
+  baseURL: string;
+  apiKey?: string;
+  // Used when a request names no model
+  model: string;
+  headers?: Record<string, string>;
+};
+
+// Token limits of a model, used to size diff chunks
+export type TModelCapabilities = {
+  contextWindow: number;
+  maxOutputTokens: number;
+};
+
+// USD per million tokens
+export type TModelPrice = {
+  input: number;
+  output: number;
+};
+
+export type TCostEstimate = {
+  currency: 'USD';
+  promptCost: number;
+  completionCost: number;
+  totalCost: number;
+};
+
+export type TLLMFallbackAttempt = {
+  provider: TLLMProvider;
+  error: string;
+  chunkIndex?: number;
+};
+
+// Circuit breaker state of a provider: closed (in use), open (skipped until the reset timeout), half-open (one trial allowed)
+export type TCircuitState = 'closed' | 'open' | 'half-open';
+
+export type TProviderHealth = {
+  provider: TLLMProvider;
+  // Outcome of the last probe or call; undefined until the provider has been checked
+  available?: boolean;
+  circuit: TCircuitState;
+  consecutiveFailures: number;
+  lastCheckedAt?: string;
+  lastError?: string;
+};
+
+// The revision a description was last generated against, used as the base for incremental updates
+export type TGenerationRecord = {
+  repository: string;
+  prNumber: string;
+  sourceCommit: string;
+  destinationCommit?: string;
+  provider: TLLMProvider;
+  template?: string;
+  incremental: boolean;
+  generatedAt: string;
 };
 
 export interface ILLMService {
-  generateDescription(request: TLLMRequest): Promise<TLLMResponse>;
-  generateDescriptionWithCallback?(request: TLLMRequest, onToken?: (token: string) => void): Promise<TLLMResponse>;
+  // `signal` aborts the provider call, e.g. when a chunk times out
+  generateDescription(request: TLLMRequest, signal?: AbortSignal): Promise<TLLMResponse>;
+  generateDescriptionWithCallback?(request: TLLMRequest, onToken?: (token: string) => void, signal?: AbortSignal): Promise<TLLMResponse>;
   isAvailable(): Promise<boolean>;
   getProviderName(): TLLMProvider;
 }
@@ -0,0 +1,23 @@
+// TypeScript type definitions for release notes generated from merged pull requests
+
+// How `from`/`to` of a release range are interpreted
+export type TReleaseRangeType = 'date' | 'tag' | 'commit';
+
+export type TReleaseRange = {
+  since: Date;
+  until: Date;
+};
+
+export type TReleaseNoteCategory = 'Feature' | 'Fix' | 'Breaking' | 'Internal';
+
+export type TReleaseNoteEntry = {
+  prNumber: number;
+  title: string;
+  author: string;
+  url: string;
+  mergedOn: string;
+  category?: TReleaseNoteCategory;
+  summary: string;
+  // False when the LLM call failed and the PR title was used instead
+  summarized: boolean;
+};
@@ -0,0 +1,38 @@
+// TypeScript type definitions for structured code review findings
+import { TCodeInsightsResult } from './bitbucket-types';
+
+export type TReviewSeverity = 'critical' | 'major' | 'minor' | 'info';
+
+export type TReviewFinding = {
+  file: string;
+  // Line number in the new (source branch) version of the file
+  line: number;
+  severity: TReviewSeverity;
+  title: string;
+  message: string;
+  suggestion?: string;
+};
+
+export type TMappedReviewFindings = {
+  // Findings whose line falls inside a diff hunk and can be commented inline
+  inline: TReviewFinding[];
+  // Findings that could not be placed on the diff
+  unmapped: TReviewFinding[];
+};
+
+export type TReviewPublishResult = {
+  created: number;
+  updated: number;
+  // Inline comments from an earlier run whose finding is no longer reported
+  resolved: number;
+  summaryCommentId?: number;
+};
+
+export type TReviewPublishTarget = 'comments' | 'report' | 'both';
+
+export type TCodeInsightsPublishResult = {
+  reportId: string;
+  commit: string;
+  result: TCodeInsightsResult;
+  annotations: number;
+};
@@ -0,0 +1,37 @@
+// TypeScript type definitions for reviewer suggestions
+
+export type TCodeOwnersRule = {
+  pattern: string;
+  // As written in CODEOWNERS: `@username`, `@"Display Name"`, `@workspace/team`, `{uuid}` or an email address
+  owners: string[];
+};
+
+export type TReviewerSuggestionSource = 'codeowners' | 'history';
+
+export type TReviewerSuggestion = {
+  // The CODEOWNERS entry, or the display name of a recent committer
+  owner: string;
+  source: TReviewerSuggestionSource;
+  // Bitbucket account, when known
+  uuid?: string;
+  files: string[];
+  changedLines: number;
+  // Share of the diff's changed lines that fall in `files`, 0-1
+  coverage: number;
+};
+
+export type TReviewerSuggestionOptions = {
+  // Also add the suggestions as PR reviewers
+  addReviewers?: boolean;
+  limit?: number;
+};
+
+export type TReviewerSuggestionResult = {
+  suggestions: TReviewerSuggestion[];
+  // Where the CODEOWNERS file was found on the destination branch, if anywhere
+  codeOwnersPath?: string;
+  added?: string[];
+  // Suggestions that could not be mapped to a Bitbucket account (teams, email addresses, unknown names)
+  unresolved?: string[];
+  addError?: string;
+};
@@ -0,0 +1,33 @@
+// TypeScript type definitions for the source-control hosts PRs can be fetched from
+import { TBitbucketAPIResponse, TBitbucketAuthOptions, TPullRequest, TPullRequestDiff } from './bitbucket-types';
+
+// `local` is a diff supplied by the caller rather than fetched from a host
+export type TSourceControlPlatform = 'bitbucket-cloud' | 'bitbucket-server' | 'github' | 'gitlab' | 'local';
+
+// A raw unified diff plus the PR metadata the prompt needs, for describing changes before a PR exists
+export type TRawDiffInput = {
+  diff: string;
+  title: string;
+  description?: string;
+  author?: string;
+  sourceBranch?: string;
+  destinationBranch?: string;
+  repository?: string;
+};
+
+/**
+ * Fetches a PR from one host and normalises it into the Bitbucket Cloud shaped TPullRequest,
+ * so everything from the prompt onwards is host-agnostic
+ */
+export interface ISourceControlAdapter {
+  readonly platform: TSourceControlPlatform;
+  // Used in user-facing errors, e.g. "... is not supported for GitHub pull requests"
+  readonly displayName: string;
+  fetchPullRequest(repository: string, prNumber: string, auth: TBitbucketAuthOptions): Promise<TBitbucketAPIResponse<TPullRequest>>;
+  fetchPullRequestDiff(
+    repository: string,
+    prNumber: string,
+    auth: TBitbucketAuthOptions,
+    pr?: TPullRequest
+  ): Promise<TBitbucketAPIResponse<TPullRequestDiff>>;
+}
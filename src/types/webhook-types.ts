@@ -0,0 +1,65 @@
+// TypeScript type definitions for Bitbucket webhook driven generation
+import { TPublishMode } from './bitbucket-types';
+import { TLLMProvider } from './llm-types';
+
+export type TWebhookEventKey = 'pullrequest:created' | 'pullrequest:updated';
+
+// Where a generated description goes: back onto the PR, or POSTed to an external sink
+export type TWebhookTarget = 'pr' | 'sink';
+
+export type TWebhookRepositoryConfig = {
+  enabled?: boolean;
+  template?: string;
+  provider?: TLLMProvider;
+  target?: TWebhookTarget;
+  publishMode?: TPublishMode;
+  sinkUrl?: string;
+};
+
+export type TWebhookConfig = {
+  defaults: TWebhookRepositoryConfig;
+  // Keyed by `workspace/repo_slug`
+  repositories: Record<string, TWebhookRepositoryConfig>;
+};
+
+// The subset of the Bitbucket Cloud pull request event payload we rely on
+export type TBitbucketWebhookPayload = {
+  pullrequest: {
+    id: number;
+    title: string;
+    state: string;
+    updated_on: string;
+    source: {
+      branch: { name: string };
+      commit: { hash: string };
+    };
+  };
+  repository: {
+    full_name: string;
+  };
+};
+
+export type TWebhookJob = {
+  id: string;
+  event: TWebhookEventKey;
+  repository: string;
+  prNumber: string;
+  sourceCommit: string;
+  receivedAt: string;
+};
+
+export type TWebhookJobStatus = 'published' | 'sent' | 'skipped' | 'failed';
+
+export type TWebhookJobResult = {
+  jobId: string;
+  repository: string;
+  prNumber: string;
+  status: TWebhookJobStatus;
+  error?: string;
+};
+
+export type TWebhookEnqueueResult = {
+  queued: boolean;
+  jobId?: string;
+  reason?: string;
+};
@@ -3,7 +3,7 @@ import request from 'supertest';
 import express from 'express';
 import { generateDescription, generateDescriptionStream } from '../../../src/server/api/generate-description';
 import { getLLMService } from '../../../src/server/services/llm-service-registry';
-import { fetchPullRequest, fetchPullRequestDiff } from '../../../src/server/services/bitbucket-service';
+import { fetchPullRequest, fetchPullRequestCommits, fetchPullRequestDiff } from '../../../src/server/services/bitbucket-service';
 import { TLLMProvider, TLLMResponse, DiffChunk } from '../../../src/types/llm-types';
 
 // Mock dependencies
@@ -13,6 +13,7 @@ jest.mock('../../../src/server/services/bitbucket-service');
 const mockGetLLMService = getLLMService as jest.MockedFunction<typeof getLLMService>;
 const mockFetchPullRequest = fetchPullRequest as jest.MockedFunction<typeof fetchPullRequest>;
 const mockFetchPullRequestDiff = fetchPullRequestDiff as jest.MockedFunction<typeof fetchPullRequestDiff>;
+const mockFetchPullRequestCommits = fetchPullRequestCommits as jest.MockedFunction<typeof fetchPullRequestCommits>;
 
 // Mock LLM service
 const mockLLMService = {
@@ -69,6 +70,7 @@ describe('API Endpoints with Chunked Processing', () => {
         links: { html: { href: 'https://bitbucket.org/test/repo/pull-requests/123' } }
       }
     });
+    mockFetchPullRequestCommits.mockResolvedValue({ success: true, data: [] });
   });
 
   afterAll(() => {
@@ -130,6 +132,55 @@ ${'+'.repeat(700)} more code changes`;
       );
     });
 
+    it('should_pass_commits_oldest_first_without_merge_commits', async () => {
+      // Arrange
+      mockFetchPullRequestDiff.mockResolvedValue({ success: true, data: { diff: 'diff --git a/x b/x\n+line' } });
+      mockFetchPullRequestCommits.mockResolvedValue({
+        success: true,
+        data: [
+          { hash: 'c3', message: 'Merge branch main', date: '', author: { raw: 'A <a@x>' }, parents: [{ hash: 'c2' }, { hash: 'm' }] },
+          { hash: 'c2', message: 'Handle empty input', date: '', author: { raw: 'Jane <jane@x>' }, parents: [{ hash: 'c1' }] },
+          { hash: 'c1', message: 'Add parser', date: '', author: { raw: 'x', user: { display_name: 'Joe' } }, parents: [] }
+        ]
+      });
+      mockLLMService.generateDescription.mockResolvedValue({
+        success: true,
+        data: { description: 'Generated', provider: TLLMProvider.OPENAI, model: 'gpt-3.5-turbo' }
+      });
+
+      // Act
+      const response = await request(app)
+        .post('/api/generate-description')
+        .send({ repository: 'test/repo', prNumber: '123', provider: TLLMProvider.OPENAI });
+
+      // Assert
+      expect(response.status).toBe(200);
+      const prData = mockLLMService.generateDescription.mock.calls[0][0].prData;
+      expect(prData.commits).toEqual([
+        { hash: 'c1', message: 'Add parser', author: 'Joe' },
+        { hash: 'c2', message: 'Handle empty input', author: 'Jane' }
+      ]);
+    });
+
+    it('should_generate_without_commits_when_commit_fetch_fails', async () => {
+      // Arrange
+      mockFetchPullRequestDiff.mockResolvedValue({ success: true, data: { diff: 'diff --git a/x b/x\n+line' } });
+      mockFetchPullRequestCommits.mockResolvedValue({ success: false, error: 'Bitbucket API rate limit exceeded.' });
+      mockLLMService.generateDescription.mockResolvedValue({
+        success: true,
+        data: { description: 'Generated', provider: TLLMProvider.OPENAI, model: 'gpt-3.5-turbo' }
+      });
+
+      // Act
+      const response = await request(app)
+        .post('/api/generate-description')
+        .send({ repository: 'test/repo', prNumber: '123', provider: TLLMProvider.OPENAI });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockLLMService.generateDescription.mock.calls[0][0].prData.commits).toBeUndefined();
+    });
+
     it('should_handle_chunked_processing_with_url_format', async () => {
       // Arrange
       const largeDiff = 'a'.repeat(5000); // Large diff to trigger chunking
@@ -231,6 +282,25 @@ ${'+'.repeat(700)} more code changes`;
       );
     });
 
+    it('should_report_the_bitbucket_attempts_in_the_metadata', async () => {
+      // Arrange
+      mockFetchPullRequest.mockResolvedValue({ ...(await mockFetchPullRequest('test/repo', '123')), metadata: { attempts: 2 } });
+      mockFetchPullRequestDiff.mockResolvedValue({ success: true, data: { diff: 'a'.repeat(3000) }, metadata: { attempts: 3 } });
+      mockLLMService.generateDescription.mockResolvedValue({
+        success: true,
+        data: { description: 'Retried description', provider: TLLMProvider.OPENAI }
+      });
+
+      // Act
+      const response = await request(app)
+        .post('/api/generate-description')
+        .send({ repository: 'test/repo', prNumber: '123', provider: TLLMProvider.OPENAI });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body.data.metadata.apiAttempts).toBe(5);
+    });
+
     it('should_work_normally_with_small_diffs_when_chunking_enabled', async () => {
       // Arrange
       const smallDiff = 'diff --git a/small.js b/small.js\n+small change';
@@ -0,0 +1,151 @@
+// Tests for incremental ("update since last review") generation
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import express from 'express';
+import { generateDescription } from '../../../src/server/api/generate-description';
+import { getLLMService } from '../../../src/server/services/llm-service-registry';
+import {
+  fetchCommitRangeDiff,
+  fetchPullRequest,
+  fetchPullRequestCommits,
+  fetchPullRequestDiff,
+} from '../../../src/server/services/bitbucket-service';
+import { getGenerationHistoryService, resetGenerationHistoryService } from '../../../src/server/services/generation-history-service';
+import { TLLMProvider } from '../../../src/types/llm-types';
+import { TPullRequest } from '../../../src/types/bitbucket-types';
+
+jest.mock('../../../src/server/services/llm-service-registry');
+jest.mock('../../../src/server/services/bitbucket-service');
+
+const mockFetchPullRequest = fetchPullRequest as jest.MockedFunction<typeof fetchPullRequest>;
+const mockFetchPullRequestDiff = fetchPullRequestDiff as jest.MockedFunction<typeof fetchPullRequestDiff>;
+const mockFetchCommitRangeDiff = fetchCommitRangeDiff as jest.MockedFunction<typeof fetchCommitRangeDiff>;
+const mockFetchPullRequestCommits = fetchPullRequestCommits as jest.MockedFunction<typeof fetchPullRequestCommits>;
+const mockLLMService = {
+  generateDescription: jest.fn(),
+  getAvailableProviders: jest.fn()
+};
+
+function buildPR(sourceCommit: string): TPullRequest {
+  return {
+    id: 5,
+    title: 'Add feature',
+    description: 'Existing description',
+    state: 'OPEN',
+    author: { display_name: 'Jane', uuid: '{1}' },
+    created_on: '2024-01-01T00:00:00Z',
+    updated_on: '2024-01-01T00:00:00Z',
+    source: { branch: { name: 'feature' }, repository: { full_name: 'test/repo' }, commit: { hash: sourceCommit } },
+    destination: { branch: { name: 'main' }, repository: { full_name: 'test/repo' }, commit: { hash: 'fff000' } },
+    links: { html: { href: 'https://bitbucket.org/test/repo/pull-requests/5' } }
+  };
+}
+
+function commit(hash: string, message: string) {
+  return { hash, message, date: '2024-01-01T00:00:00Z', author: { raw: 'Jane <jane@example.com>' }, parents: [{ hash: 'x' }] };
+}
+
+describe('POST /api/generate-description (incremental)', () => {
+  let app: express.Application;
+  let historyDirectory: string;
+
+  beforeAll(() => {
+    historyDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'generation-history-'));
+    process.env.GENERATION_HISTORY_PATH = path.join(historyDirectory, 'history.json');
+  });
+
+  afterAll(() => {
+    fs.rmSync(historyDirectory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetGenerationHistoryService();
+
+    app = express();
+    app.use(express.json());
+    app.post('/api/generate-description', generateDescription);
+
+    (getLLMService as jest.Mock).mockReturnValue(mockLLMService);
+    mockLLMService.getAvailableProviders.mockResolvedValue([TLLMProvider.OPENAI]);
+    mockLLMService.generateDescription.mockResolvedValue({
+      success: true,
+      data: { description: '## Update since last review', provider: TLLMProvider.OPENAI, model: 'gpt' }
+    });
+    mockFetchPullRequestDiff.mockResolvedValue({ success: true, data: { diff: 'full diff' } });
+    mockFetchCommitRangeDiff.mockResolvedValue({ success: true, data: { diff: 'incremental diff' } });
+    // Bitbucket lists newest first
+    mockFetchPullRequestCommits.mockResolvedValue({
+      success: true,
+      data: [commit('ccc333', 'Address review'), commit('bbb222', 'Initial work')]
+    });
+  });
+
+  it('should_diff_against_the_commit_of_the_previous_generation', async () => {
+    mockFetchPullRequest.mockResolvedValue({ success: true, data: buildPR('bbb222') });
+    await request(app).post('/api/generate-description').send({ repository: 'test/repo', prNumber: '5' });
+
+    mockFetchPullRequest.mockResolvedValue({ success: true, data: buildPR('ccc333') });
+    const response = await request(app)
+      .post('/api/generate-description')
+      .send({ repository: 'test/repo', prNumber: '5', incremental: true });
+
+    expect(response.status).toBe(200);
+    expect(mockFetchCommitRangeDiff).toHaveBeenCalledWith('test/repo', 'bbb222', 'ccc333', {});
+    expect(response.body.data.metadata.incremental).toEqual({ since: 'bbb222', until: 'ccc333' });
+
+    const llmRequest = mockLLMService.generateDescription.mock.calls[1][0];
+    expect(llmRequest.template).toBe('pr-update-template-en.txt');
+    expect(llmRequest.prData.diff).toBe('incremental diff');
+    expect(llmRequest.prData.previousCommit).toBe('bbb222');
+    expect(llmRequest.prData.commits.map((c: { hash: string }) => c.hash)).toEqual(['ccc333']);
+
+    // The incremental run becomes the base for the next one
+    expect(getGenerationHistoryService().get('test/repo', '5')?.sourceCommit).toBe('ccc333');
+  });
+
+  it('should_accept_an_explicit_since_commit', async () => {
+    mockFetchPullRequest.mockResolvedValue({ success: true, data: buildPR('ccc333') });
+
+    const response = await request(app)
+      .post('/api/generate-description')
+      .send({ repository: 'test/repo', prNumber: '6', incremental: true, sinceCommit: 'aaa111' });
+
+    expect(response.status).toBe(200);
+    expect(mockFetchCommitRangeDiff).toHaveBeenCalledWith('test/repo', 'aaa111', 'ccc333', {});
+  });
+
+  it('should_reject_when_nothing_was_generated_before', async () => {
+    mockFetchPullRequest.mockResolvedValue({ success: true, data: buildPR('ccc333') });
+
+    const response = await request(app)
+      .post('/api/generate-description')
+      .send({ repository: 'test/repo', prNumber: '7', incremental: true });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('No previous generation');
+    expect(mockLLMService.generateDescription).not.toHaveBeenCalled();
+  });
+
+  it('should_reject_when_no_new_commits_were_pushed', async () => {
+    mockFetchPullRequest.mockResolvedValue({ success: true, data: buildPR('ccc333') });
+    await request(app).post('/api/generate-description').send({ repository: 'test/repo', prNumber: '8' });
+
+    const response = await request(app)
+      .post('/api/generate-description')
+      .send({ repository: 'test/repo', prNumber: '8', incremental: true });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('No new commits');
+  });
+
+  it('should_not_allow_publishing_an_incremental_update', async () => {
+    const response = await request(app)
+      .post('/api/generate-description')
+      .send({ repository: 'test/repo', prNumber: '9', incremental: true, publish: true });
+
+    expect(response.status).toBe(400);
+  });
+});
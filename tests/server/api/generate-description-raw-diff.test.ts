@@ -0,0 +1,111 @@
+// Tests for generating from a raw pasted diff instead of a fetched PR
+import request from 'supertest';
+import express from 'express';
+import { generateDescription } from '../../../src/server/api/generate-description';
+import server from '../../../src/server/index';
+import { getLLMService } from '../../../src/server/services/llm-service-registry';
+import * as bitbucketService from '../../../src/server/services/bitbucket-service';
+import { TLLMProvider } from '../../../src/types/llm-types';
+
+jest.mock('../../../src/server/services/llm-service-registry');
+jest.mock('../../../src/server/services/bitbucket-service');
+
+const mockLLMService = {
+  generateDescription: jest.fn(),
+  getAvailableProviders: jest.fn()
+};
+
+const rawDiff = {
+  diff: 'diff --git a/app.ts b/app.ts\n--- a/app.ts\n+++ b/app.ts\n@@ -1 +1,2 @@\n export const a = 1;\n+export const b = 2;\n',
+  title: 'Add b',
+  sourceBranch: 'feature/b',
+  destinationBranch: 'develop',
+  repository: 'team/app'
+};
+
+describe('POST /api/generate-description (raw diff)', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.post('/api/generate-description', generateDescription);
+
+    (getLLMService as jest.Mock).mockReturnValue(mockLLMService);
+    mockLLMService.getAvailableProviders.mockResolvedValue([TLLMProvider.OPENAI]);
+    mockLLMService.generateDescription.mockResolvedValue({
+      success: true,
+      data: { description: '## Summary', provider: TLLMProvider.OPENAI, model: 'gpt' }
+    });
+  });
+
+  it('should_send_the_pasted_diff_to_the_llm_without_calling_bitbucket', async () => {
+    const response = await request(app).post('/api/generate-description').send({ rawDiff });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.generatedDescription).toBe('## Summary');
+
+    const prData = mockLLMService.generateDescription.mock.calls[0][0].prData;
+    expect(prData).toMatchObject({
+      title: 'Add b',
+      diff: rawDiff.diff,
+      sourceBranch: 'feature/b',
+      destinationBranch: 'develop',
+      repository: 'team/app'
+    });
+    for (const fn of Object.values(bitbucketService)) {
+      if (jest.isMockFunction(fn)) {
+        expect(fn).not.toHaveBeenCalled();
+      }
+    }
+  });
+
+  it('should_require_a_title', async () => {
+    const response = await request(app).post('/api/generate-description').send({ rawDiff: { diff: rawDiff.diff } });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('rawDiff.title is required');
+  });
+
+  it('should_reject_a_raw_diff_combined_with_a_pr', async () => {
+    const response = await request(app)
+      .post('/api/generate-description')
+      .send({ rawDiff, prUrl: 'https://bitbucket.org/team/app/pull-requests/1' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should_not_allow_publishing_a_raw_diff', async () => {
+    const response = await request(app).post('/api/generate-description').send({ rawDiff, publish: true });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Publishing is not supported for local diff pull requests');
+  });
+
+  it('should_accept_code_that_looks_suspicious_through_the_full_app_middleware', async () => {
+    const diff = [
+      'diff --git a/src/app.ts b/src/app.ts',
+      '--- a/src/app.ts',
+      '+++ b/src/app.ts',
+      '@@ -1 +1,4 @@',
+      "+import { x } from '../lib/x';",
+      '+const response = await fetch(url);',
+      '+button.onclick = () => x(response);'
+    ].join('\n');
+
+    const response = await request(server).post('/api/generate-description').send({ rawDiff: { ...rawDiff, diff } });
+
+    expect(response.status).toBe(200);
+    expect(mockLLMService.generateDescription.mock.calls[0][0].prData.diff).toBe(diff);
+  });
+
+  it('should_still_scan_the_other_raw_diff_fields', async () => {
+    const response = await request(server)
+      .post('/api/generate-description')
+      .send({ rawDiff: { ...rawDiff, title: '<script>alert(1)</script>' } });
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -1,6 +1,9 @@
 // Tests for URL parsing in the generate description API
 import request from 'supertest';
 import app from '../../../src/server/index';
+import { fetchGitHubPullRequest, fetchGitHubPullRequestDiff } from '../../../src/server/services/github-service';
+import { fetchGitLabMergeRequest } from '../../../src/server/services/gitlab-service';
+import { fetchPullRequest } from '../../../src/server/services/bitbucket-service';
 
 // Mock the dependencies to avoid external API calls
 jest.mock('../../../src/server/services/bitbucket-service', () => ({
@@ -21,7 +24,39 @@ jest.mock('../../../src/server/services/bitbucket-service', () => ({
   fetchPullRequestDiff: jest.fn().mockResolvedValue({
     success: true,
     data: { diff: 'test diff content' }
-  })
+  }),
+  fetchPullRequestCommits: jest.fn().mockResolvedValue({ success: true, data: [] })
+}));
+
+jest.mock('../../../src/server/services/github-service', () => ({
+  fetchGitHubPullRequest: jest.fn().mockResolvedValue({
+    success: true,
+    data: {
+      title: 'GitHub PR',
+      description: '',
+      author: { display_name: 'octocat' },
+      source: { branch: { name: 'feature' }, repository: { full_name: 'octo/repo' } },
+      destination: { branch: { name: 'main' }, repository: { full_name: 'octo/repo' } },
+      links: { html: { href: 'https://github.com/octo/repo/pull/7' } }
+    }
+  }),
+  fetchGitHubPullRequestDiff: jest.fn().mockResolvedValue({ success: true, data: { diff: 'github diff' } })
+}));
+
+jest.mock('../../../src/server/services/gitlab-service', () => ({
+  getConfiguredGitLabHosts: jest.fn().mockReturnValue(['https://gitlab.example.com']),
+  fetchGitLabMergeRequest: jest.fn().mockResolvedValue({
+    success: true,
+    data: {
+      title: 'GitLab MR',
+      description: '',
+      author: { display_name: 'Jane Doe' },
+      source: { branch: { name: 'feature' }, repository: { full_name: 'platform/infra/deployer' } },
+      destination: { branch: { name: 'main' }, repository: { full_name: 'platform/infra/deployer' } },
+      links: { html: { href: 'https://gitlab.example.com/platform/infra/deployer/-/merge_requests/42' } }
+    }
+  }),
+  fetchGitLabMergeRequestDiff: jest.fn().mockResolvedValue({ success: true, data: { diff: 'gitlab diff' } })
 }));
 
 jest.mock('../../../src/server/services/llm-service-registry', () => ({
@@ -54,6 +89,47 @@ describe('Generate Description API - URL Support', () => {
         expect(response.body.data.generatedDescription).toBe('Generated test description');
       });
 
+      test('should fetch GitHub PR URLs through the GitHub adapter', async () => {
+        (fetchPullRequest as jest.Mock).mockClear();
+
+        const response = await request(app)
+          .post('/api/generate-description')
+          .send({
+            prUrl: 'https://github.com/octo/repo/pull/7/files',
+            provider: 'openai'
+          });
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.originalPR.url).toBe('https://github.com/octo/repo/pull/7');
+        expect(fetchGitHubPullRequest).toHaveBeenCalledWith('octo/repo', '7');
+        expect(fetchGitHubPullRequestDiff).toHaveBeenCalledWith('octo/repo', '7');
+        expect(fetchPullRequest).not.toHaveBeenCalled();
+      });
+
+      test('should fetch GitLab MR URLs through the GitLab adapter', async () => {
+        const response = await request(app)
+          .post('/api/generate-description')
+          .send({
+            prUrl: 'https://gitlab.example.com/platform/infra/deployer/-/merge_requests/42',
+            provider: 'openai'
+          });
+
+        expect(response.status).toBe(200);
+        expect(fetchGitLabMergeRequest).toHaveBeenCalledWith('https://gitlab.example.com', 'platform/infra/deployer', '42');
+      });
+
+      test('should reject publishing to GitHub PRs', async () => {
+        const response = await request(app)
+          .post('/api/generate-description')
+          .send({
+            prUrl: 'https://github.com/octo/repo/pull/7',
+            publish: true
+          });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Publishing is not supported for GitHub pull requests');
+      });
+
       test('should accept PR URL with additional paths', async () => {
         const response = await request(app)
           .post('/api/generate-description')
@@ -70,7 +146,7 @@ describe('Generate Description API - URL Support', () => {
         const response = await request(app)
           .post('/api/generate-description')
           .send({
-            prUrl: 'https://github.com/user/repo/pull/123',
+            prUrl: 'https://example.com/user/repo/pull/123',
             provider: 'openai'
           });
 
@@ -7,5 +7,23 @@ describe('POST /api/generate-description', () => {
     expect(res.status).toBe(400);
     expect(res.body.error).toBeDefined();
   });
+
+  it('should return 400 for an invalid reviewer suggestion limit', async () => {
+    for (const limit of [0, 2.5, '3', 1000]) {
+      const res = await request(app)
+        .post('/api/generate-description')
+        .send({ repository: 'workspace/repo', prNumber: '1', suggestReviewers: { limit } });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('suggestReviewers.limit must be an integer between 1 and 20');
+    }
+  });
+
+  it('should treat a null publish option as not publishing', async () => {
+    const res = await request(app)
+      .post('/api/generate-description')
+      .send({ repository: 'workspace/repo', prNumber: '1', publish: null });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Bitbucket credentials not set.');
+  });
   // Add more tests for valid/invalid requests and error handling
 });
@@ -0,0 +1,37 @@
+// Tests for publishing a generated description through the full app middleware
+import request from 'supertest';
+import app from '../../../src/server/index';
+import { DescriptionPublisherService } from '../../../src/server/services/description-publisher-service';
+
+const mockPublish = jest.spyOn(DescriptionPublisherService.prototype, 'publish');
+
+describe('POST /api/publish-description', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPublish.mockResolvedValue({
+      success: true,
+      data: { mode: 'section', updatedOn: '2024-01-02T00:00:00Z', url: 'https://bitbucket.org/workspace/repo/pull-requests/1' }
+    });
+  });
+
+  it('should_publish_descriptions_whose_text_looks_suspicious', async () => {
+    const description = '## Summary\nLets users select a template from the dropdown.\n\n' +
+      'Moves `../lib/x` and wires `onClick={save}` on the button.';
+
+    const res = await request(app)
+      .post('/api/publish-description')
+      .send({ repository: 'workspace/repo', prNumber: '1', description, expectedUpdatedOn: '2024-01-01T00:00:00Z' });
+
+    expect(res.status).toBe(200);
+    expect(mockPublish).toHaveBeenCalledWith('workspace/repo', '1', description, expect.objectContaining({ mode: 'section' }));
+  });
+
+  it('should_still_scan_the_other_fields', async () => {
+    const res = await request(app)
+      .post('/api/publish-description')
+      .send({ repository: 'workspace/repo', prNumber: '1', description: 'Fine', expectedUpdatedOn: '<script>x</script>' });
+
+    expect(res.status).toBe(403);
+    expect(mockPublish).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+// Tests for streaming release notes over a range of merged PRs
+import request from 'supertest';
+import express from 'express';
+import { releaseNotes } from '../../../src/server/api/release-notes';
+import { getLLMService } from '../../../src/server/services/llm-service-registry';
+import { fetchMergedPullRequests, fetchRefDate } from '../../../src/server/services/bitbucket-service';
+import { ReleaseNotesService } from '../../../src/server/services/release-notes-service';
+import { TLLMProvider } from '../../../src/types/llm-types';
+import { TPullRequest } from '../../../src/types/bitbucket-types';
+
+jest.mock('../../../src/server/services/llm-service-registry');
+jest.mock('../../../src/server/services/bitbucket-service');
+
+const mockFetchMergedPullRequests = fetchMergedPullRequests as jest.MockedFunction<typeof fetchMergedPullRequests>;
+const mockFetchRefDate = fetchRefDate as jest.MockedFunction<typeof fetchRefDate>;
+const mockLLMService = {
+  generateDescription: jest.fn(),
+  generateDescriptionStream: jest.fn(),
+  getAvailableProviders: jest.fn()
+};
+
+function buildPR(id: number, title: string): TPullRequest {
+  return {
+    id,
+    title,
+    description: `Description of ${title}`,
+    state: 'MERGED',
+    author: { display_name: 'Jane', uuid: '{1}' },
+    created_on: '2024-01-01T00:00:00Z',
+    updated_on: `2024-01-0${id}T00:00:00Z`,
+    source: { branch: { name: `feature-${id}` }, repository: { full_name: 'test/repo' } },
+    destination: { branch: { name: 'main' }, repository: { full_name: 'test/repo' } },
+    links: { html: { href: `https://bitbucket.org/test/repo/pull-requests/${id}` } }
+  };
+}
+
+function parseEvents(text: string): { event: string; data: any }[] {
+  return text
+    .split('\n\n')
+    .filter(block => block.trim().length > 0)
+    .map(block => {
+      const [eventLine, dataLine] = block.split('\n');
+      return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+    });
+}
+
+describe('POST /api/release-notes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.post('/api/release-notes', releaseNotes);
+
+    (getLLMService as jest.Mock).mockReturnValue(mockLLMService);
+    mockLLMService.getAvailableProviders.mockResolvedValue([TLLMProvider.OPENAI]);
+    // Bitbucket lists newest first
+    mockFetchMergedPullRequests.mockResolvedValue({
+      success: true,
+      data: [buildPR(3, 'Drop Node 16'), buildPR(2, 'Fix login redirect'), buildPR(1, 'Add dark mode')]
+    });
+    mockLLMService.generateDescription.mockImplementation(async ({ prData }) => ({
+      success: true,
+      data: { description: `[Feature] Summary of ${prData.title}`, provider: TLLMProvider.OPENAI, model: 'gpt' }
+    }));
+    mockLLMService.generateDescriptionStream.mockImplementation(async (_request, onToken) => {
+      onToken('## Release ');
+      onToken('Notes');
+      return { success: true, data: { description: '## Release Notes', provider: TLLMProvider.OPENAI, model: 'gpt' } };
+    });
+  });
+
+  it('should_summarise_each_pr_and_stream_the_grouped_notes', async () => {
+    const response = await request(app)
+      .post('/api/release-notes')
+      .send({ repository: 'test/repo', from: '2024-01-01', to: '2024-02-01' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    const events = parseEvents(response.text);
+    expect(events.map(e => e.event)).toEqual(['start', 'progress', 'progress', 'progress', 'token', 'token', 'complete']);
+
+    const [, range] = mockFetchMergedPullRequests.mock.calls[0];
+    expect(range.since.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(range.until.toISOString()).toBe('2024-02-01T00:00:00.000Z');
+
+    // Oldest first, in merge order
+    expect(events[1].data.entry).toMatchObject({ prNumber: 1, category: 'Feature', summary: 'Summary of Add dark mode' });
+    expect(mockLLMService.generateDescription.mock.calls[0][0].template).toBe('release-note-item-template-en.txt');
+
+    const finalRequest = mockLLMService.generateDescriptionStream.mock.calls[0][0];
+    expect(finalRequest.template).toBe('release-notes-template-en.txt');
+    expect(finalRequest.prData.pullRequestSummaries).toContain('#3 [Feature] Summary of Drop Node 16');
+
+    const complete = events[events.length - 1].data;
+    expect(complete.releaseNotes).toBe('## Release Notes');
+    expect(complete.metadata.pullRequestCount).toBe(3);
+  });
+
+  it('should_resolve_tags_to_commit_dates', async () => {
+    mockFetchRefDate
+      .mockResolvedValueOnce({ success: true, data: '2024-01-01T00:00:00+00:00' })
+      .mockResolvedValueOnce({ success: true, data: '2024-01-10T00:00:00+00:00' });
+
+    await request(app)
+      .post('/api/release-notes')
+      .send({ repository: 'test/repo', rangeType: 'tag', from: 'v1.0.0', to: 'v1.1.0', language: 'zh' });
+
+    expect(mockFetchRefDate).toHaveBeenCalledWith('test/repo', 'tag', 'v1.0.0', {});
+    expect(mockFetchRefDate).toHaveBeenCalledWith('test/repo', 'tag', 'v1.1.0', {});
+    expect(mockFetchMergedPullRequests.mock.calls[0][1].until.toISOString()).toBe('2024-01-10T00:00:00.000Z');
+    expect(mockLLMService.generateDescriptionStream.mock.calls[0][0].template).toBe('release-notes-template-zh.txt');
+  });
+
+  it('should_fall_back_to_the_title_when_a_summary_fails', async () => {
+    mockLLMService.generateDescription.mockResolvedValueOnce({ success: false, error: 'rate limited' });
+
+    const response = await request(app)
+      .post('/api/release-notes')
+      .send({ repository: 'test/repo', from: '2024-01-01' });
+
+    const complete = parseEvents(response.text).find(e => e.event === 'complete')!.data;
+    expect(complete.entries[0]).toMatchObject({ summary: 'Add dark mode', summarized: false });
+    expect(complete.metadata.unsummarizedCount).toBe(1);
+  });
+
+  it('should_send_an_error_event_for_an_unknown_tag', async () => {
+    mockFetchRefDate.mockResolvedValue({ success: false, error: 'Unknown tag: v9' });
+
+    const response = await request(app)
+      .post('/api/release-notes')
+      .send({ repository: 'test/repo', rangeType: 'tag', from: 'v9' });
+
+    expect(parseEvents(response.text)).toEqual([{ event: 'error', data: { error: 'Unknown tag: v9' } }]);
+    expect(mockFetchMergedPullRequests).not.toHaveBeenCalled();
+  });
+
+  it('should_send_an_error_event_for_an_invalid_request', async () => {
+    const response = await request(app).post('/api/release-notes').send({ repository: 'test/repo' });
+
+    expect(parseEvents(response.text)).toEqual([{ event: 'error', data: { error: 'from is required' } }]);
+  });
+});
+
+describe('ReleaseNotesService.parseEntry', () => {
+  const service = new ReleaseNotesService();
+
+  it('should_split_the_category_from_the_summary', () => {
+    expect(service.parseEntry('- [breaking] Removes the v1 API\n')).toEqual({ category: 'Breaking', summary: 'Removes the v1 API' });
+  });
+
+  it('should_keep_unclassified_output_as_the_summary', () => {
+    expect(service.parseEntry('Adds dark mode')).toEqual({ summary: 'Adds dark mode' });
+  });
+});
@@ -0,0 +1,93 @@
+// Tests for publishing review findings as inline comments and a Code Insights report
+import request from 'supertest';
+import express from 'express';
+import { reviewComments } from '../../../src/server/api/review-comments';
+import { getLLMService } from '../../../src/server/services/llm-service-registry';
+import { getSourceControlAdapter } from '../../../src/server/services/source-control-adapter';
+import { fetchPromptCommits } from '../../../src/server/services/commit-history-service';
+import { fetchPromptFileContext } from '../../../src/server/services/file-context-service';
+import { ReviewCommentPublisherService } from '../../../src/server/services/review-comment-publisher-service';
+import { CodeInsightsPublisherService } from '../../../src/server/services/code-insights-publisher-service';
+import { TLLMProvider } from '../../../src/types/llm-types';
+
+jest.mock('../../../src/server/services/llm-service-registry');
+jest.mock('../../../src/server/services/source-control-adapter');
+jest.mock('../../../src/server/services/commit-history-service');
+jest.mock('../../../src/server/services/file-context-service');
+jest.mock('../../../src/server/services/review-comment-publisher-service');
+jest.mock('../../../src/server/services/code-insights-publisher-service');
+
+const mockLLMService = {
+  generateDescription: jest.fn(),
+  getAvailableProviders: jest.fn()
+};
+const mockAdapter = {
+  platform: 'bitbucket-cloud',
+  displayName: 'Bitbucket Cloud',
+  fetchPullRequest: jest.fn(),
+  fetchPullRequestDiff: jest.fn()
+};
+const mockCommentsPublish = ReviewCommentPublisherService.prototype.publish as jest.Mock;
+const mockReportPublish = CodeInsightsPublisherService.prototype.publish as jest.Mock;
+
+const COMMENTS_RESULT = { created: 1, updated: 0 };
+
+describe('POST /api/review-comments', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.post('/api/review-comments', reviewComments);
+
+    (getLLMService as jest.Mock).mockReturnValue(mockLLMService);
+    (getSourceControlAdapter as jest.Mock).mockReturnValue(mockAdapter);
+    (fetchPromptCommits as jest.Mock).mockResolvedValue([]);
+    (fetchPromptFileContext as jest.Mock).mockResolvedValue(undefined);
+    mockLLMService.getAvailableProviders.mockResolvedValue([TLLMProvider.OPENAI]);
+    mockLLMService.generateDescription.mockResolvedValue({
+      success: true,
+      data: { description: '[]', provider: TLLMProvider.OPENAI, model: 'gpt' }
+    });
+    mockAdapter.fetchPullRequest.mockResolvedValue({
+      success: true,
+      data: {
+        id: 5,
+        title: 'Add feature',
+        description: '',
+        author: { display_name: 'Jane' },
+        source: { branch: { name: 'feature' }, repository: { full_name: 'test/repo' }, commit: { hash: 'abc123' } },
+        destination: { branch: { name: 'main' }, repository: { full_name: 'test/repo' } }
+      }
+    });
+    mockAdapter.fetchPullRequestDiff.mockResolvedValue({ success: true, data: { diff: 'diff --git a/x b/x' } });
+    mockCommentsPublish.mockResolvedValue({ success: true, data: COMMENTS_RESULT });
+  });
+
+  it('should_keep_the_posted_comments_when_the_report_fails', async () => {
+    mockReportPublish.mockResolvedValue({ success: false, error: 'Report rejected' });
+
+    const response = await request(app)
+      .post('/api/review-comments')
+      .send({ repository: 'test/repo', prNumber: '5', publishTo: 'both' });
+
+    expect(response.status).toBe(207);
+    expect(response.body.success).toBe(true);
+    expect(response.body.data.comments).toEqual(COMMENTS_RESULT);
+    expect(response.body.data.report).toEqual({ error: 'Report rejected' });
+  });
+
+  it('should_fail_when_only_the_report_was_requested_and_it_fails', async () => {
+    mockReportPublish.mockResolvedValue({ success: false, error: 'Report rejected' });
+
+    const response = await request(app)
+      .post('/api/review-comments')
+      .send({ repository: 'test/repo', prNumber: '5', publishTo: 'report' });
+
+    expect(response.status).toBe(502);
+    expect(response.body.error).toBe('Report rejected');
+    expect(mockCommentsPublish).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,112 @@
+// Tests for the Bitbucket webhook endpoint
+import crypto from 'crypto';
+import request from 'supertest';
+import app from '../../../src/server/index';
+import { getWebhookService } from '../../../src/server/services/webhook-service';
+
+const mockEnqueue = jest.fn();
+
+jest.mock('../../../src/server/services/webhook-service', () => {
+  const actual = jest.requireActual('../../../src/server/services/webhook-service');
+  return {
+    ...actual,
+    getWebhookService: jest.fn(() => ({ enqueue: mockEnqueue }))
+  };
+});
+
+const SECRET = 'webhook-secret';
+
+const payload = {
+  pullrequest: {
+    id: 7,
+    title: 'Add feature',
+    state: 'OPEN',
+    updated_on: '2024-01-01T00:00:00Z',
+    source: { branch: { name: 'feature' }, commit: { hash: 'abc123' } }
+  },
+  repository: { full_name: 'workspace/repo' }
+};
+
+function sign(body: string, secret: string = SECRET): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function deliver(body: string, headers: Record<string, string>) {
+  let req = request(app)
+    .post('/webhooks/bitbucket')
+    .set('Content-Type', 'application/json')
+    .set('User-Agent', 'Bitbucket-Webhooks/2.0');
+  for (const [name, value] of Object.entries(headers)) {
+    req = req.set(name, value);
+  }
+  return req.send(body);
+}
+
+describe('POST /webhooks/bitbucket', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.BITBUCKET_WEBHOOK_SECRET = SECRET;
+    mockEnqueue.mockReturnValue({ queued: true, jobId: 'job-1' });
+  });
+
+  afterAll(() => {
+    delete process.env.BITBUCKET_WEBHOOK_SECRET;
+  });
+
+  it('should_queue_generation_for_signed_pull_request_event', async () => {
+    const body = JSON.stringify(payload);
+
+    const response = await deliver(body, { 'X-Event-Key': 'pullrequest:created', 'X-Hub-Signature': sign(body) });
+
+    expect(response.status).toBe(202);
+    expect(response.body.data).toEqual({ queued: true, jobId: 'job-1' });
+    expect(getWebhookService().enqueue).toHaveBeenCalledWith('pullrequest:created', payload);
+  });
+
+  it('should_reject_invalid_signature', async () => {
+    const body = JSON.stringify(payload);
+
+    const response = await deliver(body, {
+      'X-Event-Key': 'pullrequest:updated',
+      'X-Hub-Signature': sign(body, 'wrong-secret')
+    });
+
+    expect(response.status).toBe(401);
+    expect(mockEnqueue).not.toHaveBeenCalled();
+  });
+
+  it('should_reject_missing_signature', async () => {
+    const response = await deliver(JSON.stringify(payload), { 'X-Event-Key': 'pullrequest:updated' });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should_acknowledge_unhandled_events_without_queueing', async () => {
+    const body = JSON.stringify(payload);
+
+    const response = await deliver(body, { 'X-Event-Key': 'pullrequest:approved', 'X-Hub-Signature': sign(body) });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.queued).toBe(false);
+    expect(mockEnqueue).not.toHaveBeenCalled();
+  });
+
+  it('should_return_ok_when_event_is_ignored', async () => {
+    mockEnqueue.mockReturnValue({ queued: false, reason: 'Description already generated for commit abc123' });
+    const body = JSON.stringify(payload);
+
+    const response = await deliver(body, { 'X-Event-Key': 'pullrequest:updated', 'X-Hub-Signature': sign(body) });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.reason).toContain('already generated');
+  });
+
+  it('should_refuse_deliveries_when_secret_is_not_configured', async () => {
+    delete process.env.BITBUCKET_WEBHOOK_SECRET;
+    const body = JSON.stringify(payload);
+
+    const response = await deliver(body, { 'X-Event-Key': 'pullrequest:created', 'X-Hub-Signature': sign(body) });
+
+    expect(response.status).toBe(503);
+  });
+});
@@ -0,0 +1,181 @@
+// Tests for the happyfriday command-line interface
+import { CLI_EXIT_CODES, runCli } from '../../../src/cli/happyfriday';
+import { getLLMService } from '../../../src/server/services/llm-service-registry';
+import {
+  fetchPullRequest,
+  fetchPullRequestCommits,
+  fetchPullRequestDiff
+} from '../../../src/server/services/bitbucket-service';
+import { TLLMProvider } from '../../../src/types/llm-types';
+import { TPullRequest } from '../../../src/types/bitbucket-types';
+
+jest.mock('../../../src/server/services/llm-service-registry');
+jest.mock('../../../src/server/services/bitbucket-service');
+
+const mockFetchPullRequest = fetchPullRequest as jest.MockedFunction<typeof fetchPullRequest>;
+const mockFetchPullRequestDiff = fetchPullRequestDiff as jest.MockedFunction<typeof fetchPullRequestDiff>;
+const mockFetchPullRequestCommits = fetchPullRequestCommits as jest.MockedFunction<typeof fetchPullRequestCommits>;
+const mockLLMService = {
+  generateDescription: jest.fn(),
+  generateDescriptionStream: jest.fn(),
+  getAvailableProviders: jest.fn(),
+  getRegisteredProviders: jest.fn()
+};
+
+const PR_URL = 'https://bitbucket.org/test/repo/pull-requests/5';
+
+const pr: TPullRequest = {
+  id: 5,
+  title: 'Add feature',
+  description: '',
+  state: 'OPEN',
+  author: { display_name: 'Jane', uuid: '{1}' },
+  created_on: '2024-01-01T00:00:00Z',
+  updated_on: '2024-01-01T00:00:00Z',
+  source: { branch: { name: 'feature' }, repository: { full_name: 'test/repo' } },
+  destination: { branch: { name: 'main' }, repository: { full_name: 'test/repo' } },
+  links: { html: { href: PR_URL } }
+};
+
+async function run(...argv: string[]) {
+  const output = { stdout: '', stderr: '' };
+  const exitCode = await runCli(argv, {
+    stdout: text => { output.stdout += text; },
+    stderr: text => { output.stderr += text; }
+  });
+  return { exitCode, ...output };
+}
+
+describe('happyfriday CLI', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (getLLMService as jest.Mock).mockReturnValue(mockLLMService);
+    mockLLMService.getAvailableProviders.mockResolvedValue([TLLMProvider.OPENAI]);
+    mockLLMService.getRegisteredProviders.mockReturnValue([TLLMProvider.OPENAI, TLLMProvider.CLAUDE, 'vllm']);
+    mockLLMService.generateDescription.mockResolvedValue({
+      success: true,
+      data: { description: '## Summary', provider: TLLMProvider.OPENAI, model: 'gpt' }
+    });
+    mockFetchPullRequest.mockResolvedValue({ success: true, data: pr });
+    mockFetchPullRequestDiff.mockResolvedValue({ success: true, data: { diff: 'diff --git a/x b/x' } });
+    mockFetchPullRequestCommits.mockResolvedValue({ success: true, data: [] });
+  });
+
+  it('should_print_the_generated_description', async () => {
+    const result = await run('generate', PR_URL, '--template', 'pr-description-template-en.txt', '--model', 'gpt-4o');
+
+    expect(result.exitCode).toBe(CLI_EXIT_CODES.SUCCESS);
+    expect(result.stdout).toBe('## Summary\n');
+    expect(mockFetchPullRequest).toHaveBeenCalledWith('test/repo', '5', {});
+    const llmRequest = mockLLMService.generateDescription.mock.calls[0][0];
+    expect(llmRequest.provider).toBe(TLLMProvider.OPENAI);
+    expect(llmRequest.template).toBe('pr-description-template-en.txt');
+    expect(llmRequest.options).toEqual({ model: 'gpt-4o' });
+    expect(llmRequest.prData.diff).toBe('diff --git a/x b/x');
+  });
+
+  it('should_use_the_review_template_for_reviews', async () => {
+    const result = await run('review', PR_URL, '--json');
+
+    expect(result.exitCode).toBe(CLI_EXIT_CODES.SUCCESS);
+    expect(mockLLMService.generateDescription.mock.calls[0][0].template).toBe('pr-review-template-en.txt');
+    const body = JSON.parse(result.stdout);
+    expect(body.success).toBe(true);
+    expect(body.data.review).toBe('## Summary');
+    expect(body.data.originalPR.url).toBe(PR_URL);
+  });
+
+  it('should_stream_tokens_as_json_events', async () => {
+    mockLLMService.generateDescriptionStream.mockImplementation(async (_request, onToken) => {
+      onToken('## ');
+      onToken('Summary');
+      return { success: true, data: { description: '## Summary', provider: TLLMProvider.CLAUDE, model: 'claude' } };
+    });
+
+    const result = await run('generate', PR_URL, '--provider', 'claude', '--stream', '--json');
+
+    expect(result.exitCode).toBe(CLI_EXIT_CODES.SUCCESS);
+    const events = result.stdout.trim().split('\n').map(line => JSON.parse(line));
+    expect(events.map(event => event.event)).toEqual(['token', 'token', 'complete']);
+    expect(events[2].data.data.metadata.provider).toBe(TLLMProvider.CLAUDE);
+    expect(mockLLMService.getAvailableProviders).not.toHaveBeenCalled();
+  });
+
+  it('should_print_a_chunked_streamed_description_once', async () => {
+    mockLLMService.generateDescriptionStream.mockImplementation(async (_request, onToken) => {
+      onToken('Chunk one', 0);
+      onToken('Chunk two', 1);
+      // The synthesis streams without a chunk index
+      onToken('## ');
+      onToken('Summary');
+      return { success: true, data: { description: '## Summary', provider: TLLMProvider.CLAUDE, model: 'claude' } };
+    });
+
+    const result = await run('generate', PR_URL, '--provider', 'claude', '--stream');
+
+    expect(result.exitCode).toBe(CLI_EXIT_CODES.SUCCESS);
+    expect(result.stdout).toBe('## Summary\n');
+  });
+
+  it('should_exit_with_the_input_code_for_bad_arguments', async () => {
+    expect((await run('generate', 'https://example.com/not-a-pr')).exitCode).toBe(CLI_EXIT_CODES.INPUT);
+    expect((await run('generate', PR_URL, '--provider', 'nope')).exitCode).toBe(CLI_EXIT_CODES.INPUT);
+    expect((await run('generate', PR_URL, '--template', 'missing.txt')).exitCode).toBe(CLI_EXIT_CODES.INPUT);
+    expect((await run('generate', PR_URL, '--verbose')).exitCode).toBe(CLI_EXIT_CODES.INPUT);
+    expect((await run('deploy')).exitCode).toBe(CLI_EXIT_CODES.INPUT);
+    expect(mockFetchPullRequest).not.toHaveBeenCalled();
+  });
+
+  it('should_exit_with_the_source_control_code_when_bitbucket_fails', async () => {
+    mockFetchPullRequest.mockResolvedValue({ success: false, error: 'Pull request not found' });
+
+    const result = await run('generate', PR_URL);
+
+    expect(result.exitCode).toBe(CLI_EXIT_CODES.SOURCE_CONTROL);
+    expect(result.stderr).toContain('Pull request not found');
+    expect(mockLLMService.generateDescription).not.toHaveBeenCalled();
+  });
+
+  it('should_exit_with_the_llm_code_when_generation_fails', async () => {
+    mockLLMService.generateDescription.mockResolvedValue({ success: false, error: 'Rate limited' });
+
+    const result = await run('generate', PR_URL, '--json');
+
+    expect(result.exitCode).toBe(CLI_EXIT_CODES.LLM);
+    const body = JSON.parse(result.stdout);
+    expect(body).toMatchObject({ success: false, error: 'Rate limited', exitCode: CLI_EXIT_CODES.LLM });
+  });
+
+  it('should_exit_with_the_llm_code_when_no_provider_is_available', async () => {
+    mockLLMService.getAvailableProviders.mockResolvedValue([]);
+
+    expect((await run('generate', PR_URL)).exitCode).toBe(CLI_EXIT_CODES.LLM);
+  });
+
+  it('should_exit_with_the_llm_code_when_a_provider_is_not_configured', async () => {
+    (getLLMService as jest.Mock).mockImplementation(() => {
+      throw new Error('Anthropic API key not found');
+    });
+
+    const result = await run('generate', PR_URL, '--provider', 'claude');
+
+    expect(result.exitCode).toBe(CLI_EXIT_CODES.LLM);
+    expect(result.stderr).toContain('Anthropic API key not found');
+    expect((await run('providers')).exitCode).toBe(CLI_EXIT_CODES.LLM);
+  });
+
+  it('should_list_templates_and_providers', async () => {
+    const templates = await run('templates', 'list', '--json');
+    expect(templates.exitCode).toBe(CLI_EXIT_CODES.SUCCESS);
+    expect(JSON.parse(templates.stdout).data.templates.map((t: { filename: string }) => t.filename))
+      .toContain('pr-review-template-en.txt');
+
+    const providers = await run('providers');
+    expect(providers.exitCode).toBe(CLI_EXIT_CODES.SUCCESS);
+    expect(providers.stdout).toContain('openai  available');
+    expect(providers.stdout).toContain('claude  not configured');
+    // OpenAI-compatible endpoints are listed under their configured names
+    expect(providers.stdout).toContain('vllm    not configured');
+  });
+});
@@ -21,7 +21,8 @@ jest.mock('../../../src/server/services/bitbucket-service', () => ({
   fetchPullRequestDiff: jest.fn().mockResolvedValue({
     success: true,
     data: { diff: 'mock diff content for integration test' }
-  })
+  }),
+  fetchPullRequestCommits: jest.fn().mockResolvedValue({ success: true, data: [] })
 }));
 
 jest.mock('../../../src/server/services/llm-service-registry', () => ({
@@ -81,7 +82,8 @@ describe('URL Parsing Integration Tests', () => {
           provider: 'openai',
           model: 'gpt-3.5-turbo',
           processingTimeMs: expect.any(Number),
-          diffSize: expect.any(Number)
+          diffSize: expect.any(Number),
+          apiAttempts: expect.any(Number)
         }
       });
     });
@@ -123,7 +125,7 @@ describe('URL Parsing Integration Tests', () => {
 
     test('should reject invalid URL formats comprehensively', async () => {
       const invalidUrls = [
-        'https://github.com/user/repo/pull/123',
+        'https://github.com/user/repo/issues/123',
         'https://bitbucket.org/workspace',
         'https://bitbucket.org/workspace/repo',
         'https://bitbucket.org/workspace/repo/issues/123',
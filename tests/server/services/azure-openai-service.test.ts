@@ -0,0 +1,116 @@
+// Tests for the Azure OpenAI provider
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { DefaultAzureCredential, getBearerTokenProvider } from '@azure/identity';
+import { AzureOpenAIService } from '../../../src/server/services/azure-openai-service';
+import { TLLMProvider, TLLMRequest } from '../../../src/types/llm-types';
+
+// Stands in for AzureChatOpenAI, recording how each deployment client was configured
+const createdClients: Record<string, any>[] = [];
+jest.mock('@langchain/openai', () => {
+  const { FakeListChatModel: FakeModel } = jest.requireActual('@langchain/core/utils/testing');
+  return {
+    AzureChatOpenAI: class extends (FakeModel as typeof FakeListChatModel) {
+      constructor(fields: Record<string, any>) {
+        super({ responses: ['Azure description'] });
+        createdClients.push(fields);
+      }
+    }
+  };
+});
+
+jest.mock('@azure/identity', () => ({
+  DefaultAzureCredential: jest.fn(),
+  getBearerTokenProvider: jest.fn(() => async () => 'default-credential-token')
+}));
+
+const AZURE_ENV = ['AZURE_OPENAI_ENDPOINT', 'AZURE_OPENAI_DEPLOYMENT', 'AZURE_OPENAI_API_VERSION', 'AZURE_OPENAI_API_KEY', 'AZURE_OPENAI_AD_TOKEN', 'AZURE_OPENAI_MODEL'];
+
+function buildRequest(options?: TLLMRequest['options']): TLLMRequest {
+  return {
+    provider: TLLMProvider.AZURE_OPENAI,
+    prData: {
+      title: 'Add feature', description: 'Adds a feature', diff: 'diff --git a/a.ts b/a.ts\n+x', author: 'tester',
+      sourceBranch: 'feature', destinationBranch: 'main', repository: 'test/repo'
+    },
+    template: 'pr-description-template-en.txt',
+    options
+  };
+}
+
+describe('AzureOpenAIService', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    createdClients.length = 0;
+    AZURE_ENV.forEach(name => delete process.env[name]);
+    process.env.AZURE_OPENAI_ENDPOINT = 'https://example.openai.azure.com';
+    process.env.AZURE_OPENAI_DEPLOYMENT = 'pr-writer';
+    process.env.AZURE_OPENAI_MODEL = 'gpt-4o';
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should_generate_with_the_configured_deployment_and_report_the_model_behind_it', async () => {
+    process.env.AZURE_OPENAI_API_KEY = 'key';
+
+    const response = await new AzureOpenAIService().generateDescription(buildRequest());
+
+    expect(response.success).toBe(true);
+    expect(response.data).toMatchObject({ description: 'Azure description', provider: TLLMProvider.AZURE_OPENAI, model: 'gpt-4o' });
+    expect(createdClients[0]).toMatchObject({
+      azureOpenAIEndpoint: 'https://example.openai.azure.com',
+      azureOpenAIApiDeploymentName: 'pr-writer',
+      azureOpenAIApiVersion: '2024-10-21',
+      azureOpenAIApiKey: 'key'
+    });
+  });
+
+  it('should_stream_tokens_and_authenticate_with_the_ad_token_when_no_key_is_set', async () => {
+    process.env.AZURE_OPENAI_AD_TOKEN = 'entra-token';
+    const tokens: string[] = [];
+
+    const response = await new AzureOpenAIService().generateDescriptionWithCallback(buildRequest({ model: 'other-deployment' }), token => tokens.push(token));
+
+    expect(response.data?.description).toBe('Azure description');
+    expect(response.data?.model).toBe('other-deployment');
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe('Azure description');
+    expect(createdClients[0].azureOpenAIApiDeploymentName).toBe('other-deployment');
+    expect(createdClients[0].azureOpenAIApiKey).toBeUndefined();
+    expect(await createdClients[0].azureADTokenProvider()).toBe('entra-token');
+  });
+
+  it('should_authenticate_with_the_default_azure_credential_when_no_key_or_token_is_set', async () => {
+    await new AzureOpenAIService().generateDescription(buildRequest());
+
+    expect(getBearerTokenProvider).toHaveBeenCalledWith(
+      expect.any(DefaultAzureCredential),
+      'https://cognitiveservices.azure.com/.default'
+    );
+    expect(await createdClients[0].azureADTokenProvider()).toBe('default-credential-token');
+  });
+
+  it('should_ask_the_given_token_provider_for_a_token_on_every_request', async () => {
+    process.env.AZURE_OPENAI_AD_TOKEN = 'entra-token';
+    let issued = 0;
+    const service = new AzureOpenAIService(async () => `refreshed-token-${++issued}`);
+
+    await service.generateDescription(buildRequest());
+
+    expect(await createdClients[0].azureADTokenProvider()).toBe('refreshed-token-1');
+    expect(await createdClients[0].azureADTokenProvider()).toBe('refreshed-token-2');
+  });
+
+  it('should_be_unavailable_without_an_endpoint_or_a_deployment', async () => {
+    process.env.AZURE_OPENAI_API_KEY = 'key';
+    delete process.env.AZURE_OPENAI_ENDPOINT;
+    expect(await new AzureOpenAIService().isAvailable()).toBe(false);
+
+    process.env.AZURE_OPENAI_ENDPOINT = 'https://example.openai.azure.com';
+    delete process.env.AZURE_OPENAI_DEPLOYMENT;
+    expect(await new AzureOpenAIService().isAvailable()).toBe(false);
+    expect(createdClients).toHaveLength(0);
+  });
+});
@@ -0,0 +1,144 @@
+// Tests for Bitbucket credential providers
+import axios from 'axios';
+import {
+  AccessTokenCredentialProvider,
+  BasicAuthCredentialProvider,
+  OAuthClientCredentialsProvider,
+  getDefaultCredentialProvider,
+  resetDefaultCredentialProvider,
+  resolveCredentialProvider,
+} from '../../../src/server/services/bitbucket-auth-service';
+
+jest.mock('axios');
+
+const mockAxios = axios as jest.Mocked<typeof axios>;
+
+const AUTH_ENV_VARS = [
+  'BITBUCKET_ACCESS_TOKEN',
+  'BITBUCKET_OAUTH_CLIENT_ID',
+  'BITBUCKET_OAUTH_CLIENT_SECRET',
+  'BITBUCKET_USERNAME',
+  'BITBUCKET_APP_PASSWORD',
+];
+
+describe('Bitbucket Auth Service', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    AUTH_ENV_VARS.forEach(name => delete process.env[name]);
+    resetDefaultCredentialProvider();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+    resetDefaultCredentialProvider();
+  });
+
+  describe('default provider selection', () => {
+    it('should_prefer_access_token_over_other_credentials', () => {
+      process.env.BITBUCKET_ACCESS_TOKEN = 'repo-token';
+      process.env.BITBUCKET_USERNAME = 'user';
+      process.env.BITBUCKET_APP_PASSWORD = 'pass';
+
+      expect(getDefaultCredentialProvider()?.type).toBe('access_token');
+    });
+
+    it('should_use_oauth_when_consumer_is_configured', () => {
+      process.env.BITBUCKET_OAUTH_CLIENT_ID = 'id';
+      process.env.BITBUCKET_OAUTH_CLIENT_SECRET = 'secret';
+
+      expect(getDefaultCredentialProvider()?.type).toBe('oauth');
+    });
+
+    it('should_fall_back_to_app_password', async () => {
+      process.env.BITBUCKET_USERNAME = 'user';
+      process.env.BITBUCKET_APP_PASSWORD = 'pass';
+
+      const provider = getDefaultCredentialProvider();
+
+      expect(provider?.type).toBe('basic');
+      expect(await provider?.getAuthorizationHeader()).toBe(`Basic ${Buffer.from('user:pass').toString('base64')}`);
+    });
+
+    it('should_return_null_without_credentials', () => {
+      expect(getDefaultCredentialProvider()).toBeNull();
+    });
+  });
+
+  describe('per-request user tokens', () => {
+    it('should_use_caller_token_instead_of_service_account', async () => {
+      process.env.BITBUCKET_USERNAME = 'user';
+      process.env.BITBUCKET_APP_PASSWORD = 'pass';
+
+      const provider = resolveCredentialProvider({ userToken: 'caller-token' });
+
+      expect(await provider?.getAuthorizationHeader()).toBe('Bearer caller-token');
+    });
+
+    it('should_scope_cache_per_user_token', () => {
+      const first = new AccessTokenCredentialProvider('token-a', false);
+      const second = new AccessTokenCredentialProvider('token-b', false);
+
+      expect(first.getCacheScope()).not.toBe(second.getCacheScope());
+      expect(first.getCacheScope()).not.toContain('token-a');
+      expect(new BasicAuthCredentialProvider('user', 'pass').getCacheScope()).toBe('shared');
+    });
+  });
+
+  describe('OAuth client credentials', () => {
+    it('should_request_token_once_and_reuse_it', async () => {
+      mockAxios.post.mockResolvedValue({ data: { access_token: 'oauth-1', expires_in: 7200 } } as any);
+      const provider = new OAuthClientCredentialsProvider('id', 'secret', 'https://auth.example.com/token');
+
+      const [first, second] = await Promise.all([
+        provider.getAuthorizationHeader(),
+        provider.getAuthorizationHeader()
+      ]);
+
+      expect(first).toBe('Bearer oauth-1');
+      expect(second).toBe('Bearer oauth-1');
+      expect(mockAxios.post).toHaveBeenCalledTimes(1);
+      expect(mockAxios.post).toHaveBeenCalledWith(
+        'https://auth.example.com/token',
+        'grant_type=client_credentials',
+        expect.objectContaining({ auth: { username: 'id', password: 'secret' } })
+      );
+    });
+
+    it('should_refresh_token_before_it_expires', async () => {
+      mockAxios.post
+        .mockResolvedValueOnce({ data: { access_token: 'oauth-1', expires_in: 30, refresh_token: 'refresh-1' } } as any)
+        .mockResolvedValueOnce({ data: { access_token: 'oauth-2', expires_in: 7200 } } as any);
+      const provider = new OAuthClientCredentialsProvider('id', 'secret');
+
+      await provider.getAuthorizationHeader();
+      const refreshed = await provider.getAuthorizationHeader();
+
+      expect(refreshed).toBe('Bearer oauth-2');
+      expect(mockAxios.post.mock.calls[1][1]).toBe('grant_type=refresh_token&refresh_token=refresh-1');
+    });
+
+    it('should_fetch_new_token_after_invalidate', async () => {
+      mockAxios.post
+        .mockResolvedValueOnce({ data: { access_token: 'oauth-1', expires_in: 7200 } } as any)
+        .mockResolvedValueOnce({ data: { access_token: 'oauth-2', expires_in: 7200 } } as any);
+      const provider = new OAuthClientCredentialsProvider('id', 'secret');
+
+      await provider.getAuthorizationHeader();
+      provider.invalidate();
+
+      expect(await provider.getAuthorizationHeader()).toBe('Bearer oauth-2');
+    });
+
+    it('should_report_token_endpoint_errors', async () => {
+      mockAxios.post.mockRejectedValue({
+        message: 'Request failed',
+        response: { status: 400, data: { error_description: 'Invalid client' } }
+      });
+      const provider = new OAuthClientCredentialsProvider('id', 'bad-secret');
+
+      await expect(provider.getAuthorizationHeader()).rejects.toThrow('Failed to obtain Bitbucket OAuth token: Invalid client');
+    });
+  });
+});
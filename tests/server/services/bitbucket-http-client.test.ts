@@ -0,0 +1,161 @@
+// Tests for Bitbucket API retries against a local stub server
+import http from 'http';
+import { AddressInfo } from 'net';
+import { BitbucketHttpClient, parseRetryAfter } from '../../../src/server/services/bitbucket-http-client';
+import { AccessTokenCredentialProvider, resetDefaultCredentialProvider } from '../../../src/server/services/bitbucket-auth-service';
+import { fetchPullRequest, updatePullRequestDescription } from '../../../src/server/services/bitbucket-service';
+
+type TStubResponse = { status: number; body?: any; headers?: Record<string, string>; delayMs?: number };
+
+describe('BitbucketHttpClient', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let responses: TStubResponse[];
+  let requests: Array<{ method?: string; url?: string; authorization?: string }>;
+  const credentials = new AccessTokenCredentialProvider('stub-token');
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push({ method: req.method, url: req.url, authorization: req.headers.authorization });
+      const next = responses.shift() || { status: 200, body: {} };
+      setTimeout(() => {
+        if (res.destroyed) {
+          return;
+        }
+        res.writeHead(next.status, { 'Content-Type': 'application/json', ...next.headers });
+        res.end(JSON.stringify(next.body ?? {}));
+      }, next.delayMs || 0);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    responses = [];
+    requests = [];
+  });
+
+  const client = (overrides = {}) => new BitbucketHttpClient({
+    maxRetries: 3, baseDelayMs: 10, maxDelayMs: 50, deadlineMs: 5000, timeoutMs: 1000, ...overrides
+  });
+
+  it('should_retry_server_errors_and_report_attempts', async () => {
+    responses = [{ status: 503 }, { status: 502 }, { status: 200, body: { ok: true } }];
+
+    const response = await client().send(credentials, { method: 'get', url: `${baseUrl}/pr` });
+
+    expect(response.data).toEqual({ ok: true });
+    expect(response.attempts).toBe(3);
+    expect(requests.every(req => req.authorization === 'Bearer stub-token')).toBe(true);
+  });
+
+  it('should_wait_for_retry_after_on_rate_limit', async () => {
+    responses = [{ status: 429, headers: { 'Retry-After': '1' } }, { status: 200, body: { ok: true } }];
+
+    const started = Date.now();
+    const response = await client().send(credentials, { method: 'get', url: `${baseUrl}/pr` });
+
+    expect(response.attempts).toBe(2);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(950);
+  });
+
+  it('should_not_retry_client_errors', async () => {
+    responses = [{ status: 404, body: { error: { message: 'Not found' } } }];
+
+    await expect(client().send(credentials, { method: 'get', url: `${baseUrl}/pr` }))
+      .rejects.toMatchObject({ attempts: 1, response: { status: 404 } });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should_give_up_when_retry_after_exceeds_deadline', async () => {
+    responses = [{ status: 429, headers: { 'Retry-After': '30' } }];
+
+    await expect(client({ deadlineMs: 2000 }).send(credentials, { method: 'get', url: `${baseUrl}/pr` }))
+      .rejects.toMatchObject({ attempts: 1, response: { status: 429 } });
+  });
+
+  it('should_stop_after_max_retries', async () => {
+    responses = [{ status: 500 }, { status: 500 }, { status: 500 }];
+
+    await expect(client({ maxRetries: 2 }).send(credentials, { method: 'get', url: `${baseUrl}/pr` }))
+      .rejects.toMatchObject({ attempts: 3 });
+  });
+
+  it('should_retry_timed_out_requests', async () => {
+    responses = [{ status: 200, delayMs: 500 }, { status: 200, body: { ok: true } }];
+
+    const response = await client({ timeoutMs: 100 }).send(credentials, { method: 'get', url: `${baseUrl}/pr` });
+
+    expect(response.data).toEqual({ ok: true });
+    expect(response.attempts).toBe(2);
+  });
+
+  it('should_not_retry_posts_after_server_errors', async () => {
+    responses = [{ status: 503 }];
+
+    await expect(client().send(credentials, { method: 'post', url: `${baseUrl}/comments`, data: {} }))
+      .rejects.toMatchObject({ attempts: 1 });
+  });
+
+  it('should_parse_retry_after_dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+
+  describe('through bitbucket-service', () => {
+    beforeAll(() => {
+      process.env.BITBUCKET_API_URL = baseUrl;
+      process.env.BITBUCKET_ACCESS_TOKEN = 'stub-token';
+      process.env.BITBUCKET_RETRY_BASE_DELAY_MS = '10';
+      resetDefaultCredentialProvider();
+    });
+
+    afterAll(() => {
+      delete process.env.BITBUCKET_API_URL;
+      delete process.env.BITBUCKET_ACCESS_TOKEN;
+      delete process.env.BITBUCKET_RETRY_BASE_DELAY_MS;
+      resetDefaultCredentialProvider();
+    });
+
+    it('should_include_attempts_in_response_metadata', async () => {
+      responses = [{ status: 503 }, { status: 200, body: { id: 1, title: 'Retried' } }];
+
+      const result = await fetchPullRequest('workspace/repo', '1');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.title).toBe('Retried');
+      expect(result.metadata).toEqual({ attempts: 2 });
+      expect(requests[0].url).toBe('/repositories/workspace/repo/pullrequests/1');
+    });
+
+    it('should_report_attempts_when_retries_are_exhausted', async () => {
+      process.env.BITBUCKET_MAX_RETRIES = '1';
+      responses = [{ status: 429 }, { status: 429 }];
+
+      const result = await fetchPullRequest('workspace/repo', '2');
+      delete process.env.BITBUCKET_MAX_RETRIES;
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Bitbucket API rate limit exceeded.');
+      expect(result.metadata).toEqual({ attempts: 2 });
+    });
+
+    it('should_only_blame_write_access_for_a_forbidden_write', async () => {
+      responses = [{ status: 403 }, { status: 403 }];
+
+      const read = await fetchPullRequest('workspace/repo', '3');
+      const write = await updatePullRequestDescription('workspace/repo', '3', 'New description');
+
+      expect(read.error).toBe('Bitbucket denied access to this resource.');
+      expect(write.error).toBe('Bitbucket credentials do not have write access to this pull request.');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+// Tests for listing the PRs merged in a date range
+import axios from 'axios';
+import { fetchMergedPullRequests } from '../../../src/server/services/bitbucket-service';
+import { resetDefaultCredentialProvider } from '../../../src/server/services/bitbucket-auth-service';
+import { TPullRequest } from '../../../src/types/bitbucket-types';
+
+jest.mock('axios');
+
+const mockAxios = axios as jest.Mocked<typeof axios>;
+
+function buildPR(id: number, updatedOn: string, merge: { closedOn?: string; mergeCommit?: string }): TPullRequest {
+  return {
+    id,
+    title: `PR ${id}`,
+    description: '',
+    state: 'MERGED',
+    author: { display_name: 'Jane', uuid: '{1}' },
+    created_on: '2024-01-01T00:00:00Z',
+    updated_on: updatedOn,
+    source: { branch: { name: `feature-${id}` }, repository: { full_name: 'test/repo' } },
+    destination: { branch: { name: 'main' }, repository: { full_name: 'test/repo' } },
+    links: { html: { href: `https://bitbucket.org/test/repo/pull-requests/${id}` } },
+    ...(merge.closedOn && { closed_on: merge.closedOn }),
+    ...(merge.mergeCommit && { merge_commit: { hash: merge.mergeCommit } })
+  };
+}
+
+describe('fetchMergedPullRequests', () => {
+  const range = { since: new Date('2024-03-01T00:00:00Z'), until: new Date('2024-03-31T00:00:00Z') };
+
+  beforeAll(() => {
+    process.env.BITBUCKET_ACCESS_TOKEN = 'test-token';
+    resetDefaultCredentialProvider();
+  });
+
+  afterAll(() => {
+    delete process.env.BITBUCKET_ACCESS_TOKEN;
+    resetDefaultCredentialProvider();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should_filter_on_the_merge_date_rather_than_the_last_update', async () => {
+    mockAxios.get.mockImplementation(async (url: string) => {
+      if (url.includes('/commit/')) {
+        return { data: { date: '2024-03-10T00:00:00Z' } } as any;
+      }
+      return {
+        data: {
+          values: [
+            // Merged in the range, commented on after it
+            buildPR(1, '2024-04-15T00:00:00Z', { closedOn: '2024-03-05T00:00:00Z' }),
+            // Merged before the range, commented on in it
+            buildPR(2, '2024-03-20T00:00:00Z', { closedOn: '2024-02-20T00:00:00Z' }),
+            // No closed_on: dated by its merge commit
+            buildPR(3, '2024-03-12T00:00:00Z', { mergeCommit: 'abc1234' })
+          ]
+        }
+      } as any;
+    });
+
+    const response = await fetchMergedPullRequests('test/repo', range);
+
+    expect(response.success).toBe(true);
+    expect(response.data?.map(pr => [pr.id, pr.closed_on])).toEqual([
+      [3, '2024-03-10T00:00:00Z'],
+      [1, '2024-03-05T00:00:00Z']
+    ]);
+    const query = new URL(mockAxios.get.mock.calls[0][0] as string).searchParams.get('q');
+    expect(query).toBe('state = "MERGED" AND updated_on >= 2024-03-01T00:00:00+00:00');
+  });
+
+  it('should_keep_the_latest_merges_and_stop_paging_once_no_later_pr_can_make_the_list', async () => {
+    process.env.RELEASE_NOTES_MAX_PRS = '2';
+    const pages: Record<string, { values: TPullRequest[]; next?: string }> = {
+      first: {
+        values: [
+          // Updated last, but merged before the other two
+          buildPR(10, '2024-04-20T00:00:00Z', { closedOn: '2024-03-01T00:00:00Z' }),
+          buildPR(11, '2024-04-10T00:00:00Z', { closedOn: '2024-03-25T00:00:00Z' }),
+          buildPR(12, '2024-03-28T00:00:00Z', { closedOn: '2024-03-20T00:00:00Z' })
+        ],
+        next: 'https://api.bitbucket.org/page/second'
+      },
+      second: {
+        // Last updated before the oldest merge kept, so merged before it too
+        values: [buildPR(13, '2024-03-15T00:00:00Z', { closedOn: '2024-03-14T00:00:00Z' })],
+        next: 'https://api.bitbucket.org/page/third'
+      }
+    };
+    mockAxios.get.mockImplementation(async (url: string) =>
+      ({ data: url.endsWith('/page/second') ? pages.second : pages.first }) as any);
+
+    const response = await fetchMergedPullRequests('test/repo', range);
+    delete process.env.RELEASE_NOTES_MAX_PRS;
+
+    expect(response.data?.map(pr => pr.id)).toEqual([11, 12]);
+    expect(mockAxios.get).toHaveBeenCalledTimes(2);
+  });
+});
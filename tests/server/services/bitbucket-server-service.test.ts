@@ -0,0 +1,100 @@
+// Tests for the Bitbucket Server / Data Center client
+import axios from 'axios';
+import {
+  fetchServerPullRequest,
+  fetchServerPullRequestDiff,
+  mapServerPullRequest,
+} from '../../../src/server/services/bitbucket-server-service';
+import { TBitbucketServerPullRequest } from '../../../src/types/bitbucket-types';
+
+jest.mock('axios');
+
+const mockAxios = axios as jest.Mocked<typeof axios>;
+
+const serverPullRequest: TBitbucketServerPullRequest = {
+  id: 42,
+  title: 'Add feature',
+  description: 'Implements the feature',
+  state: 'OPEN',
+  createdDate: Date.UTC(2024, 0, 1),
+  updatedDate: Date.UTC(2024, 0, 2),
+  author: { user: { id: 7, name: 'jdoe', displayName: 'Jane Doe' } },
+  fromRef: { displayId: 'feature/x', latestCommit: 'abc', repository: { slug: 'repo', project: { key: 'PROJ' } } },
+  toRef: { displayId: 'main', latestCommit: 'def', repository: { slug: 'repo', project: { key: 'PROJ' } } },
+  links: { self: [{ href: 'https://git.example.com/projects/PROJ/repos/repo/pull-requests/42' }] }
+};
+
+describe('Bitbucket Server Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.BITBUCKET_SERVER_URL = 'https://git.example.com/, https://other.example.com';
+    process.env.BITBUCKET_SERVER_TOKEN = 'dc-token';
+  });
+
+  afterAll(() => {
+    delete process.env.BITBUCKET_SERVER_URL;
+    delete process.env.BITBUCKET_SERVER_TOKEN;
+  });
+
+  it('should_map_data_center_pull_request_to_cloud_shape', () => {
+    const pr = mapServerPullRequest(serverPullRequest);
+
+    expect(pr).toEqual({
+      id: 42,
+      title: 'Add feature',
+      description: 'Implements the feature',
+      state: 'OPEN',
+      author: { display_name: 'Jane Doe', uuid: '7' },
+      created_on: '2024-01-01T00:00:00.000Z',
+      updated_on: '2024-01-02T00:00:00.000Z',
+      source: { branch: { name: 'feature/x' }, commit: { hash: 'abc' }, repository: { full_name: 'PROJ/repo' } },
+      destination: { branch: { name: 'main' }, commit: { hash: 'def' }, repository: { full_name: 'PROJ/repo' } },
+      links: { html: { href: 'https://git.example.com/projects/PROJ/repos/repo/pull-requests/42' } }
+    });
+  });
+
+  it('should_call_rest_api_with_bearer_token', async () => {
+    mockAxios.get.mockResolvedValue({ data: serverPullRequest } as any);
+
+    const result = await fetchServerPullRequest('https://git.example.com', 'PROJ/repo', '42');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.title).toBe('Add feature');
+    expect(mockAxios.get).toHaveBeenCalledWith(
+      'https://git.example.com/rest/api/1.0/projects/PROJ/repos/repo/pull-requests/42',
+      expect.objectContaining({ headers: { Authorization: 'Bearer dc-token' } })
+    );
+  });
+
+  it('should_fetch_raw_diff_from_diff_resource', async () => {
+    mockAxios.get.mockResolvedValue({ data: 'diff --git a/x b/x\n+line' } as any);
+
+    const result = await fetchServerPullRequestDiff('https://git.example.com', 'PROJ/repo', '43');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.diff).toContain('diff --git');
+    expect(mockAxios.get.mock.calls[0][0]).toBe(
+      'https://git.example.com/rest/api/1.0/projects/PROJ/repos/repo/pull-requests/43.diff'
+    );
+  });
+
+  it('should_refuse_to_send_token_to_unconfigured_instances', async () => {
+    const result = await fetchServerPullRequest('https://evil.example.com', 'PROJ/repo', '44');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not configured');
+    expect(mockAxios.get).not.toHaveBeenCalled();
+  });
+
+  it('should_surface_data_center_error_messages', async () => {
+    mockAxios.get.mockRejectedValue({
+      message: 'Request failed',
+      response: { status: 404, data: { errors: [{ message: 'Pull request 45 does not exist.' }] } }
+    });
+
+    const result = await fetchServerPullRequest('https://git.example.com', 'PROJ/repo', '45');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Pull request 45 does not exist.');
+  });
+});
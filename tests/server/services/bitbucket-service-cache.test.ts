@@ -0,0 +1,155 @@
+// Tests for revision-aware caching of Bitbucket PR metadata and diffs
+import axios from 'axios';
+import { fetchPullRequest, fetchPullRequestDiff } from '../../../src/server/services/bitbucket-service';
+import { resetDefaultCredentialProvider } from '../../../src/server/services/bitbucket-auth-service';
+import { TPullRequest } from '../../../src/types/bitbucket-types';
+
+jest.mock('axios');
+
+const mockAxios = axios as jest.Mocked<typeof axios>;
+
+function buildPR(id: number, sourceCommit?: string, destinationCommit?: string, updatedOn = '2024-01-01T00:00:00Z'): TPullRequest {
+  return {
+    id,
+    title: 'Test PR',
+    description: '',
+    state: 'OPEN',
+    author: { display_name: 'Jane', uuid: '{1}' },
+    created_on: '2024-01-01T00:00:00Z',
+    updated_on: updatedOn,
+    source: {
+      branch: { name: 'feature' },
+      repository: { full_name: 'test/repo' },
+      ...(sourceCommit && { commit: { hash: sourceCommit } })
+    },
+    destination: {
+      branch: { name: 'main' },
+      repository: { full_name: 'test/repo' },
+      ...(destinationCommit && { commit: { hash: destinationCommit } })
+    },
+    links: { html: { href: `https://bitbucket.org/test/repo/pull-requests/${id}` } }
+  };
+}
+
+describe('Bitbucket Service caching', () => {
+  beforeAll(() => {
+    process.env.BITBUCKET_ACCESS_TOKEN = 'test-token';
+    resetDefaultCredentialProvider();
+  });
+
+  afterAll(() => {
+    delete process.env.BITBUCKET_ACCESS_TOKEN;
+    resetDefaultCredentialProvider();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('diffs', () => {
+    it('should_serve_unchanged_revision_from_cache', async () => {
+      mockAxios.get.mockResolvedValue({ data: 'diff --git a/x b/x' } as any);
+      const pr = buildPR(1, 'aaa', 'bbb');
+
+      await fetchPullRequestDiff('test/repo', '1', {}, pr);
+      const second = await fetchPullRequestDiff('test/repo', '1', {}, pr);
+
+      expect(second.data?.diff).toBe('diff --git a/x b/x');
+      expect(mockAxios.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should_refetch_after_a_new_commit_is_pushed', async () => {
+      mockAxios.get
+        .mockResolvedValueOnce({ data: 'old diff' } as any)
+        .mockResolvedValueOnce({ data: 'new diff' } as any);
+
+      await fetchPullRequestDiff('test/repo', '2', {}, buildPR(2, 'aaa', 'bbb'));
+      const afterPush = await fetchPullRequestDiff('test/repo', '2', {}, buildPR(2, 'ccc', 'bbb'));
+
+      expect(afterPush.data?.diff).toBe('new diff');
+      expect(mockAxios.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should_not_cache_diffs_without_commit_hashes', async () => {
+      mockAxios.get.mockResolvedValue({ data: 'diff' } as any);
+      const pr = buildPR(3);
+
+      await fetchPullRequestDiff('test/repo', '3', {}, pr);
+      await fetchPullRequestDiff('test/repo', '3', {}, pr);
+
+      expect(mockAxios.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should_keep_user_token_diffs_separate_from_shared_cache', async () => {
+      mockAxios.get.mockResolvedValue({ data: 'diff' } as any);
+      const pr = buildPR(4, 'aaa', 'bbb');
+
+      await fetchPullRequestDiff('test/repo', '4', {}, pr);
+      await fetchPullRequestDiff('test/repo', '4', { userToken: 'caller' }, pr);
+
+      expect(mockAxios.get).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('pull request metadata', () => {
+    it('should_revalidate_with_etag_and_reuse_on_not_modified', async () => {
+      const pr = buildPR(10, 'aaa', 'bbb');
+      mockAxios.get
+        .mockResolvedValueOnce({ status: 200, data: pr, headers: { etag: '"v1"' } } as any)
+        .mockResolvedValueOnce({ status: 304, data: '', headers: { etag: '"v1"' } } as any);
+
+      await fetchPullRequest('test/repo', '10');
+      const second = await fetchPullRequest('test/repo', '10');
+
+      expect(second.data).toEqual(pr);
+      expect(mockAxios.get.mock.calls[1][1]).toEqual(expect.objectContaining({
+        headers: expect.objectContaining({ 'If-None-Match': '"v1"' })
+      }));
+    });
+
+    it('should_check_updated_on_when_no_etag_is_available', async () => {
+      const pr = buildPR(11, 'aaa', 'bbb');
+      mockAxios.get
+        .mockResolvedValueOnce({ status: 200, data: pr, headers: {} } as any)
+        .mockResolvedValueOnce({ status: 200, data: { updated_on: pr.updated_on, source: pr.source, destination: pr.destination } } as any);
+
+      await fetchPullRequest('test/repo', '11');
+      const second = await fetchPullRequest('test/repo', '11');
+
+      expect(second.data).toEqual(pr);
+      expect(mockAxios.get).toHaveBeenCalledTimes(2);
+      expect(mockAxios.get.mock.calls[1][1]).toEqual(expect.objectContaining({
+        params: { fields: 'updated_on,source.commit.hash,destination.commit.hash' }
+      }));
+    });
+
+    it('should_fetch_full_pull_request_when_revision_changed', async () => {
+      const pr = buildPR(12, 'aaa', 'bbb');
+      const pushed = buildPR(12, 'ccc', 'bbb', '2024-01-02T00:00:00Z');
+      mockAxios.get
+        .mockResolvedValueOnce({ status: 200, data: pr, headers: {} } as any)
+        .mockResolvedValueOnce({ status: 200, data: { updated_on: pushed.updated_on, source: pushed.source, destination: pushed.destination } } as any)
+        .mockResolvedValueOnce({ status: 200, data: pushed, headers: {} } as any);
+
+      await fetchPullRequest('test/repo', '12');
+      const second = await fetchPullRequest('test/repo', '12');
+
+      expect(second.data?.source.commit?.hash).toBe('ccc');
+      expect(mockAxios.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should_fetch_pull_request_to_key_diff_when_payload_is_not_given', async () => {
+      mockAxios.get
+        .mockResolvedValueOnce({ status: 200, data: buildPR(13, 'aaa', 'bbb'), headers: { etag: '"v1"' } } as any)
+        .mockResolvedValueOnce({ data: 'diff' } as any)
+        .mockResolvedValueOnce({ status: 304, data: '', headers: {} } as any);
+
+      await fetchPullRequestDiff('test/repo', '13');
+      const second = await fetchPullRequestDiff('test/repo', '13');
+
+      expect(second.data?.diff).toBe('diff');
+      // PR, diff, then only a 304 revalidation
+      expect(mockAxios.get).toHaveBeenCalledTimes(3);
+    });
+  });
+});
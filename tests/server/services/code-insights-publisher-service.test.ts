@@ -0,0 +1,81 @@
+// Tests for publishing review findings as a Bitbucket Code Insights report
+import { CodeInsightsPublisherService } from '../../../src/server/services/code-insights-publisher-service';
+import {
+  createCommitReport,
+  createReportAnnotations,
+  deleteCommitReport,
+} from '../../../src/server/services/bitbucket-service';
+import { TReviewFinding } from '../../../src/types/review-types';
+
+jest.mock('../../../src/server/services/bitbucket-service');
+
+const mockCreateReport = createCommitReport as jest.MockedFunction<typeof createCommitReport>;
+const mockDeleteReport = deleteCommitReport as jest.MockedFunction<typeof deleteCommitReport>;
+const mockCreateAnnotations = createReportAnnotations as jest.MockedFunction<typeof createReportAnnotations>;
+
+function finding(severity: TReviewFinding['severity'], line: number): TReviewFinding {
+  return { file: 'src/app.ts', line, severity, title: `${severity} issue`, message: 'Explain the issue.' };
+}
+
+describe('CodeInsightsPublisherService', () => {
+  let service: CodeInsightsPublisherService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new CodeInsightsPublisherService();
+    mockDeleteReport.mockResolvedValue({ success: true });
+    mockCreateReport.mockImplementation(async (repo, commit, id, report) => ({ success: true, data: report }));
+    mockCreateAnnotations.mockImplementation(async (repo, commit, id, annotations) => ({ success: true, data: annotations }));
+  });
+
+  it('should_replace_the_report_and_upload_annotations', async () => {
+    const result = await service.publish('test/repo', 'abc1234', {
+      inline: [finding('minor', 3)],
+      unmapped: [{ ...finding('major', 40), suggestion: 'Add a guard.' }]
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: { reportId: 'happyfriday-review', commit: 'abc1234', result: 'FAILED', annotations: 2 }
+    });
+    expect(mockDeleteReport).toHaveBeenCalledWith('test/repo', 'abc1234', 'happyfriday-review', {});
+    expect(mockDeleteReport.mock.invocationCallOrder[0]).toBeLessThan(mockCreateReport.mock.invocationCallOrder[0]);
+
+    const annotations = mockCreateAnnotations.mock.calls[0][3];
+    // Most severe first
+    expect(annotations.map(a => a.severity)).toEqual(['HIGH', 'MEDIUM']);
+    expect(annotations[0]).toMatchObject({
+      path: 'src/app.ts',
+      line: 40,
+      summary: 'major issue',
+      details: 'Explain the issue.\n\nSuggestion: Add a guard.'
+    });
+  });
+
+  it('should_pass_when_only_minor_findings_remain', () => {
+    const report = service.buildReport({ inline: [finding('minor', 1), finding('info', 2)], unmapped: [] });
+
+    expect(report.result).toBe('PASSED');
+    expect(report.details).toBe('Found 2 issue(s): 1 minor, 1 info.');
+    expect(report.data?.[0]).toEqual({ title: 'Findings', type: 'NUMBER', value: 2 });
+  });
+
+  it('should_upload_annotations_in_batches_of_100', async () => {
+    const inline = Array.from({ length: 150 }, (_, i) => finding('info', i + 1));
+
+    const result = await service.publish('test/repo', 'abc1234', { inline, unmapped: [] });
+
+    expect(result.data?.annotations).toBe(150);
+    expect(mockCreateAnnotations.mock.calls.map(call => call[3].length)).toEqual([100, 50]);
+    expect(new Set(mockCreateAnnotations.mock.calls.flatMap(call => call[3].map(a => a.external_id))).size).toBe(150);
+  });
+
+  it('should_stop_when_the_report_cannot_be_created', async () => {
+    mockCreateReport.mockResolvedValue({ success: false, error: 'Bitbucket credentials were rejected.' });
+
+    const result = await service.publish('test/repo', 'abc1234', { inline: [finding('critical', 1)], unmapped: [] });
+
+    expect(result).toEqual({ success: false, error: 'Bitbucket credentials were rejected.' });
+    expect(mockCreateAnnotations).not.toHaveBeenCalled();
+  });
+});
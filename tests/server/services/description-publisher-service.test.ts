@@ -0,0 +1,129 @@
+// Tests for publishing generated descriptions back to Bitbucket
+import { DescriptionPublisherService } from '../../../src/server/services/description-publisher-service';
+import { fetchPullRequest, updatePullRequestDescription } from '../../../src/server/services/bitbucket-service';
+
+jest.mock('../../../src/server/services/bitbucket-service');
+
+const mockFetchPullRequest = fetchPullRequest as jest.MockedFunction<typeof fetchPullRequest>;
+const mockUpdatePullRequestDescription = updatePullRequestDescription as jest.MockedFunction<
+  typeof updatePullRequestDescription
+>;
+
+const START = DescriptionPublisherService.SECTION_START;
+const END = DescriptionPublisherService.SECTION_END;
+
+function buildPR(description: string, updatedOn: string) {
+  return {
+    id: 1,
+    title: 'Test PR',
+    description,
+    state: 'OPEN',
+    author: { display_name: 'Test Author', uuid: '{uuid}' },
+    created_on: '2024-01-01T00:00:00Z',
+    updated_on: updatedOn,
+    source: { branch: { name: 'feature' }, repository: { full_name: 'test/repo' } },
+    destination: { branch: { name: 'main' }, repository: { full_name: 'test/repo' } },
+    links: { html: { href: 'https://bitbucket.org/test/repo/pull-requests/1' } }
+  };
+}
+
+describe('DescriptionPublisherService', () => {
+  let service: DescriptionPublisherService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new DescriptionPublisherService();
+  });
+
+  describe('mergeDescription', () => {
+    it('should_replace_existing_description_with_marked_section', () => {
+      const merged = service.mergeDescription('Hand written notes', 'Generated', 'replace');
+
+      expect(merged).toBe(`${START}\nGenerated\n${END}`);
+    });
+
+    it('should_prepend_generated_description_above_existing_text', () => {
+      const merged = service.mergeDescription('Hand written notes', 'Generated', 'prepend');
+
+      expect(merged).toBe(`${START}\nGenerated\n${END}\n\nHand written notes`);
+    });
+
+    it('should_not_stack_sections_when_prepending_twice', () => {
+      const first = service.mergeDescription('Notes', 'First', 'prepend');
+      const second = service.mergeDescription(first, 'Second', 'prepend');
+
+      expect(second).toBe(`${START}\nSecond\n${END}\n\nNotes`);
+    });
+
+    it('should_update_only_the_marked_section', () => {
+      const current = `Intro\n\n${START}\nOld\n${END}\n\nFooter`;
+
+      const merged = service.mergeDescription(current, 'New', 'section');
+
+      expect(merged).toBe(`Intro\n\n${START}\nNew\n${END}\n\nFooter`);
+    });
+
+    it('should_append_section_when_markers_are_missing', () => {
+      const merged = service.mergeDescription('Intro', 'New', 'section');
+
+      expect(merged).toBe(`Intro\n\n${START}\nNew\n${END}`);
+    });
+  });
+
+  describe('publish', () => {
+    it('should_refuse_to_overwrite_when_pr_changed_since_fetch', async () => {
+      mockFetchPullRequest.mockResolvedValue({ success: true, data: buildPR('Notes', '2024-01-02T00:00:00Z') });
+
+      const result = await service.publish('test/repo', '1', 'Generated', {
+        mode: 'replace',
+        expectedUpdatedOn: '2024-01-01T00:00:00Z'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.conflict).toBe(true);
+      expect(mockUpdatePullRequestDescription).not.toHaveBeenCalled();
+    });
+
+    it('should_bypass_cache_and_write_merged_description', async () => {
+      mockFetchPullRequest.mockResolvedValue({ success: true, data: buildPR('Notes', '2024-01-01T00:00:00Z') });
+      mockUpdatePullRequestDescription.mockResolvedValue({
+        success: true,
+        data: buildPR('ignored', '2024-01-03T00:00:00Z')
+      });
+
+      const result = await service.publish('test/repo', '1', 'Generated', {
+        mode: 'section',
+        expectedUpdatedOn: '2024-01-01T00:00:00Z',
+        auth: { userToken: 'user-token' }
+      });
+
+      expect(mockFetchPullRequest).toHaveBeenCalledWith('test/repo', '1', { userToken: 'user-token', bypassCache: true });
+      expect(mockUpdatePullRequestDescription).toHaveBeenCalledWith(
+        'test/repo',
+        '1',
+        `Notes\n\n${START}\nGenerated\n${END}`,
+        { userToken: 'user-token' }
+      );
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        mode: 'section',
+        updatedOn: '2024-01-03T00:00:00Z',
+        url: 'https://bitbucket.org/test/repo/pull-requests/1'
+      });
+    });
+
+    it('should_surface_bitbucket_update_errors', async () => {
+      mockFetchPullRequest.mockResolvedValue({ success: true, data: buildPR('', '2024-01-01T00:00:00Z') });
+      mockUpdatePullRequestDescription.mockResolvedValue({ success: false, error: 'Bitbucket API rate limit exceeded.' });
+
+      const result = await service.publish('test/repo', '1', 'Generated', {
+        mode: 'replace',
+        expectedUpdatedOn: '2024-01-01T00:00:00Z'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.conflict).toBeUndefined();
+      expect(result.error).toBe('Bitbucket API rate limit exceeded.');
+    });
+  });
+});
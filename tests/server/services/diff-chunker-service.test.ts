@@ -1,5 +1,6 @@
 // Test file for DiffChunkerService
 import { DiffChunkerService, DiffChunk } from '../../../src/server/services/diff-chunker-service';
+import { TLLMProvider } from '../../../src/types/llm-types';
 
 describe('DiffChunkerService', () => {
   let service: DiffChunkerService;
@@ -227,4 +228,27 @@ diff --git a/file2.txt b/file2.txt
       });
     });
   });
+
+  describe('token budgets', () => {
+    it('should_size_chunks_in_tokens_when_a_budget_is_set', () => {
+      // Arrange: three files of ~60 tokens each (240 characters at 4 per token)
+      const diff = ['a.ts', 'b.ts', 'c.ts']
+        .map(file => `diff --git a/${file} b/${file}\n` + '+' + 'x'.repeat(200))
+        .join('\n');
+      const tokenService = new DiffChunkerService({
+        chunkSize: 100,
+        overlapSize: 20,
+        maxChunks: 5,
+        enabled: true,
+        tokenBudget: 130,
+        provider: TLLMProvider.OPENAI
+      });
+
+      // Act
+      const result = tokenService.chunkDiff(diff);
+
+      // Assert: the 100-character chunk size is ignored in favour of the token budget
+      expect(result.map(chunk => chunk.context.files)).toEqual([['a.ts', 'b.ts'], ['c.ts']]);
+    });
+  });
 });
\ No newline at end of file
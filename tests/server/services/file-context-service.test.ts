@@ -0,0 +1,165 @@
+// Tests for enclosing-function context around changed hunks
+import { FileContextService, fetchPromptFileContext } from '../../../src/server/services/file-context-service';
+import { FileFilterService } from '../../../src/server/services/file-filter-service';
+import { fetchFileContent } from '../../../src/server/services/bitbucket-service';
+import { getConfigManager } from '../../../src/server/utils/config-manager';
+import { TPullRequest } from '../../../src/types/bitbucket-types';
+
+jest.mock('../../../src/server/services/bitbucket-service');
+
+const mockFetchFileContent = fetchFileContent as jest.MockedFunction<typeof fetchFileContent>;
+
+const source = [
+  "import { helper } from './helper';",          // 1
+  '',                                             // 2
+  'export class Calculator {',                    // 3
+  '  private total = 0;',                         // 4
+  '',                                             // 5
+  '  add(value: number): number {',               // 6
+  '    if (value < 0) {',                         // 7
+  "      throw new Error('negative');",           // 8
+  '    }',                                        // 9
+  '    this.total += value;',                     // 10
+  '    return this.total;',                       // 11
+  '  }',                                          // 12
+  '',                                             // 13
+  '  reset(): void {',                            // 14
+  '    this.total = 0;',                          // 15
+  '  }',                                          // 16
+  '}',                                            // 17
+  '',                                             // 18
+  'export function format(value: number): string {', // 19
+  '  return helper(value);',                      // 20
+  '}'                                             // 21
+].join('\n');
+
+// Changes line 10 inside Calculator.add
+const diff = [
+  'diff --git a/src/calculator.ts b/src/calculator.ts',
+  'index 111..222 100644',
+  '--- a/src/calculator.ts',
+  '+++ b/src/calculator.ts',
+  '@@ -8,5 +8,5 @@ export class Calculator {',
+  "       throw new Error('negative');",
+  '     }',
+  '-    this.total = value;',
+  '+    this.total += value;',
+  '     return this.total;',
+  '   }',
+  ''
+].join('\n');
+
+const pythonSource = [
+  'class Greeter:',
+  '    def greet(self, name):',
+  "        message = 'hi ' + name",
+  '        return message',
+  '',
+  '    def leave(self):',
+  "        return 'bye'"
+].join('\n');
+
+describe('FileContextService', () => {
+  const service = new FileContextService(new FileFilterService({ ignorePatterns: ['*.lock'], enabled: true }));
+
+  describe('getChangedRanges', () => {
+    it('should_track_changed_lines_in_new_file_numbering', () => {
+      expect(service.getChangedRanges(diff).get('src/calculator.ts')).toEqual([{ start: 10, end: 10 }]);
+    });
+
+    it('should_skip_ignored_added_and_deleted_files', () => {
+      const multiFileDiff = [
+        'diff --git a/yarn.lock b/yarn.lock',
+        '--- a/yarn.lock',
+        '+++ b/yarn.lock',
+        '@@ -1 +1 @@',
+        '+changed',
+        'diff --git a/new.ts b/new.ts',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/new.ts',
+        '@@ -0,0 +1 @@',
+        '+export const x = 1;',
+        'diff --git a/old.ts b/old.ts',
+        '--- a/old.ts',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-export const y = 2;'
+      ].join('\n');
+
+      expect(service.getChangedRanges(multiFileDiff).size).toBe(0);
+    });
+  });
+
+  describe('findEnclosingRange', () => {
+    const lines = source.split('\n');
+
+    it('should_return_innermost_enclosing_method', () => {
+      expect(service.findEnclosingRange(lines, { start: 10, end: 10 })).toEqual({ start: 6, end: 12 });
+    });
+
+    it('should_return_class_when_change_is_outside_methods', () => {
+      expect(service.findEnclosingRange(lines, { start: 4, end: 4 })).toEqual({ start: 3, end: 17 });
+    });
+
+    it('should_fall_back_to_window_when_nothing_encloses_the_change', () => {
+      expect(service.findEnclosingRange(lines, { start: 1, end: 1 })).toEqual({ start: 1, end: 16 });
+    });
+
+    it('should_use_indentation_for_python_blocks', () => {
+      expect(service.findEnclosingRange(pythonSource.split('\n'), { start: 3, end: 3 })).toEqual({ start: 2, end: 4 });
+    });
+  });
+
+  describe('buildFileContext', () => {
+    it('should_render_enclosing_function_with_line_numbers', async () => {
+      const context = await service.buildFileContext(diff, async () => source, { maxLength: 2000, maxFiles: 10 });
+
+      expect(context).toContain('### src/calculator.ts (lines 6-12)');
+      expect(context).toContain(' 6 |   add(value: number): number {');
+      expect(context).toContain('12 |   }');
+      expect(context).not.toContain('reset()');
+    });
+
+    it('should_omit_sections_that_exceed_the_budget', async () => {
+      const context = await service.buildFileContext(diff, async () => source, { maxLength: 50, maxFiles: 10 });
+
+      expect(context).toBe('... (1 more sections omitted to fit the context budget)');
+    });
+
+    it('should_skip_files_that_could_not_be_loaded', async () => {
+      const context = await service.buildFileContext(diff, async () => undefined, { maxLength: 2000, maxFiles: 10 });
+
+      expect(context).toBe('');
+    });
+  });
+});
+
+describe('fetchPromptFileContext', () => {
+  const pr = {
+    source: { branch: { name: 'feature' }, repository: { full_name: 'workspace/repo' }, commit: { hash: 'abc1234' } }
+  } as TPullRequest;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getConfigManager().reset();
+  });
+
+  it('should_do_nothing_unless_enabled_or_requested', async () => {
+    expect(await fetchPromptFileContext('workspace/repo', pr, diff, 'bitbucket-cloud', {})).toBeUndefined();
+    expect(mockFetchFileContent).not.toHaveBeenCalled();
+  });
+
+  it('should_fetch_changed_files_at_the_source_commit', async () => {
+    mockFetchFileContent.mockResolvedValue({ success: true, data: source });
+
+    const context = await fetchPromptFileContext('workspace/repo', pr, diff, 'bitbucket-cloud', { userToken: 't' }, true);
+
+    expect(mockFetchFileContent).toHaveBeenCalledWith('workspace/repo', 'abc1234', 'src/calculator.ts', { userToken: 't' });
+    expect(context).toContain('add(value: number)');
+  });
+
+  it('should_skip_data_center_pull_requests', async () => {
+    expect(await fetchPromptFileContext('PROJ/repo', pr, diff, 'bitbucket-server', {}, true)).toBeUndefined();
+  });
+});
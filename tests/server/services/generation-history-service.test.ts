@@ -0,0 +1,54 @@
+// Tests for the persisted generation history used by incremental mode
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GenerationHistoryService } from '../../../src/server/services/generation-history-service';
+import { TLLMProvider } from '../../../src/types/llm-types';
+
+describe('GenerationHistoryService', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'generation-history-'));
+    filePath = path.join(directory, 'nested', 'history.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const record = (prNumber: string, sourceCommit: string) => ({
+    repository: 'test/repo',
+    prNumber,
+    sourceCommit,
+    provider: TLLMProvider.OPENAI,
+    incremental: false,
+    generatedAt: '2024-01-01T00:00:00.000Z'
+  });
+
+  it('should_persist_records_across_instances', () => {
+    new GenerationHistoryService(filePath).record(record('1', 'abc123'));
+
+    expect(new GenerationHistoryService(filePath).get('test/repo', '1')?.sourceCommit).toBe('abc123');
+  });
+
+  it('should_keep_only_the_latest_generation_per_pull_request', () => {
+    const service = new GenerationHistoryService(filePath);
+    service.record(record('1', 'abc123'));
+    service.record(record('1', 'def456'));
+    service.record(record('2', 'fff000'));
+
+    const reloaded = new GenerationHistoryService(filePath);
+    expect(reloaded.get('test/repo', '1')?.sourceCommit).toBe('def456');
+    expect(reloaded.get('test/repo', '2')?.sourceCommit).toBe('fff000');
+  });
+
+  it('should_start_empty_when_the_file_is_unreadable', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, 'not json');
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(new GenerationHistoryService(filePath).get('test/repo', '1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+// Tests for the GitHub pull request client
+import axios from 'axios';
+import {
+  fetchGitHubPullRequest,
+  fetchGitHubPullRequestDiff,
+  mapGitHubPullRequest,
+} from '../../../src/server/services/github-service';
+import { TGitHubPullRequest } from '../../../src/types/github-types';
+
+jest.mock('axios');
+
+const mockAxios = axios as jest.Mocked<typeof axios>;
+
+const gitHubPullRequest: TGitHubPullRequest = {
+  number: 7,
+  title: 'Add feature',
+  body: null,
+  state: 'closed',
+  merged_at: '2024-01-03T00:00:00Z',
+  user: { login: 'octocat', id: 1 },
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-03T00:00:00Z',
+  head: { ref: 'feature', sha: 'abc123', repo: { full_name: 'fork/repo' } },
+  base: { ref: 'main', sha: 'def456', repo: { full_name: 'octo/repo' } },
+  html_url: 'https://github.com/octo/repo/pull/7',
+  merge_commit_sha: 'fff000'
+};
+
+describe('GitHub Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.GITHUB_TOKEN = 'gh-token';
+  });
+
+  afterAll(() => {
+    delete process.env.GITHUB_TOKEN;
+  });
+
+  it('should_map_github_pull_request_to_cloud_shape', () => {
+    expect(mapGitHubPullRequest(gitHubPullRequest)).toEqual({
+      id: 7,
+      title: 'Add feature',
+      description: '',
+      state: 'MERGED',
+      author: { display_name: 'octocat', uuid: '1' },
+      created_on: '2024-01-01T00:00:00Z',
+      updated_on: '2024-01-03T00:00:00Z',
+      source: { branch: { name: 'feature' }, repository: { full_name: 'fork/repo' }, commit: { hash: 'abc123' } },
+      destination: { branch: { name: 'main' }, repository: { full_name: 'octo/repo' }, commit: { hash: 'def456' } },
+      links: { html: { href: 'https://github.com/octo/repo/pull/7' } },
+      merge_commit: { hash: 'fff000' }
+    });
+  });
+
+  it('should_fall_back_to_the_base_repository_when_the_fork_is_gone', () => {
+    const pr = mapGitHubPullRequest({ ...gitHubPullRequest, state: 'open', merged_at: null, head: { ...gitHubPullRequest.head, repo: null } });
+
+    expect(pr.state).toBe('OPEN');
+    expect(pr.source.repository.full_name).toBe('octo/repo');
+  });
+
+  it('should_call_rest_api_with_bearer_token', async () => {
+    mockAxios.get.mockResolvedValue({ data: gitHubPullRequest } as any);
+
+    const result = await fetchGitHubPullRequest('octo/repo', '7');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.title).toBe('Add feature');
+    expect(mockAxios.get).toHaveBeenCalledWith(
+      'https://api.github.com/repos/octo/repo/pulls/7',
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer gh-token', Accept: 'application/vnd.github+json' })
+      })
+    );
+  });
+
+  it('should_fetch_the_diff_media_type_without_a_token_for_public_repositories', async () => {
+    delete process.env.GITHUB_TOKEN;
+    mockAxios.get.mockResolvedValue({ data: 'diff --git a/x b/x\n+line' } as any);
+
+    const result = await fetchGitHubPullRequestDiff('octo/public', '8');
+
+    expect(result.data?.diff).toContain('diff --git');
+    const headers = mockAxios.get.mock.calls[0][1]?.headers as Record<string, string>;
+    expect(headers.Accept).toBe('application/vnd.github.diff');
+    expect(headers).not.toHaveProperty('Authorization');
+  });
+
+  it('should_explain_not_found_as_missing_access', async () => {
+    mockAxios.get.mockRejectedValue({ message: 'Request failed', response: { status: 404, data: { message: 'Not Found' } } });
+
+    const result = await fetchGitHubPullRequest('octo/private', '9');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('GITHUB_TOKEN');
+  });
+});
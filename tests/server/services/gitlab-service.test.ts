@@ -0,0 +1,106 @@
+// Tests for the GitLab merge request client, against recorded API responses
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import {
+  fetchGitLabMergeRequest,
+  fetchGitLabMergeRequestDiff,
+  mapGitLabMergeRequest,
+} from '../../../src/server/services/gitlab-service';
+import { FileFilterService } from '../../../src/server/services/file-filter-service';
+
+jest.mock('axios');
+
+const mockAxios = axios as jest.Mocked<typeof axios>;
+
+function loadFixture(name: string): any {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, '../fixtures/gitlab', name), 'utf-8'));
+}
+
+describe('GitLab Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.GITLAB_URL = 'https://gitlab.com, https://gitlab.example.com/';
+    process.env.GITLAB_TOKEN = 'gl-token';
+  });
+
+  afterAll(() => {
+    delete process.env.GITLAB_URL;
+    delete process.env.GITLAB_TOKEN;
+  });
+
+  it('should_map_merge_request_to_cloud_shape', () => {
+    const pr = mapGitLabMergeRequest(loadFixture('merge-request.json'), 'platform/infra/deployer');
+
+    expect(pr).toEqual({
+      id: 42,
+      title: 'Add retry budget to the deploy client',
+      description: 'Retries failed deploy calls with exponential backoff.\n\nCloses #118',
+      state: 'OPEN',
+      author: { display_name: 'Jane Doe', uuid: '381' },
+      created_on: '2024-03-04T09:12:44.351Z',
+      updated_on: '2024-03-05T16:02:10.118Z',
+      source: {
+        branch: { name: 'feature/deploy-retries' },
+        repository: { full_name: 'platform/infra/deployer' },
+        commit: { hash: '9f2c41d0b7e65a3c8d1e4f5a6b7c8d9e0f1a2b3c' }
+      },
+      destination: {
+        branch: { name: 'main' },
+        repository: { full_name: 'platform/infra/deployer' },
+        commit: { hash: '1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d' }
+      },
+      links: { html: { href: 'https://gitlab.example.com/platform/infra/deployer/-/merge_requests/42' } },
+      merge_commit: null
+    });
+  });
+
+  it('should_call_the_api_with_the_encoded_project_path_and_bearer_token', async () => {
+    mockAxios.get.mockResolvedValue({ data: loadFixture('merge-request.json') } as any);
+
+    const result = await fetchGitLabMergeRequest('https://gitlab.example.com', 'platform/infra/deployer', '42');
+
+    expect(result.success).toBe(true);
+    expect(mockAxios.get).toHaveBeenCalledWith(
+      'https://gitlab.example.com/api/v4/projects/platform%2Finfra%2Fdeployer/merge_requests/42',
+      expect.objectContaining({ headers: { Authorization: 'Bearer gl-token' } })
+    );
+  });
+
+  it('should_rebuild_a_unified_diff_from_the_changes_api', async () => {
+    mockAxios.get.mockResolvedValue({ data: loadFixture('merge-request-changes.json') } as any);
+
+    const result = await fetchGitLabMergeRequestDiff('https://gitlab.example.com', 'platform/infra/deployer', '43');
+
+    expect(mockAxios.get.mock.calls[0][0]).toBe(
+      'https://gitlab.example.com/api/v4/projects/platform%2Finfra%2Fdeployer/merge_requests/43/changes'
+    );
+    const diff = result.data!.diff;
+    expect(diff).toContain('diff --git a/src/deploy/client.ts b/src/deploy/client.ts\n--- a/src/deploy/client.ts\n+++ b/src/deploy/client.ts\n@@ -12,7 +12,12 @@');
+    expect(diff).toContain('diff --git a/src/deploy/retries.ts b/src/deploy/retries.ts\nnew file mode 100644\n--- /dev/null\n+++ b/src/deploy/retries.ts\n');
+    expect(diff).toContain('deleted file mode 100644\n--- a/src/deploy/legacy-client.ts\n+++ /dev/null\n');
+    // The rest of the pipeline reads it like a Bitbucket diff
+    expect(new FileFilterService().extractModifiedFiles(diff)).toEqual([
+      'src/deploy/client.ts',
+      'src/deploy/retries.ts',
+      'src/deploy/legacy-client.ts'
+    ]);
+  });
+
+  it('should_refuse_to_call_unconfigured_instances', async () => {
+    const result = await fetchGitLabMergeRequest('https://evil.example.com', 'group/project', '44');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not configured');
+    expect(mockAxios.get).not.toHaveBeenCalled();
+  });
+
+  it('should_explain_not_found_as_missing_access', async () => {
+    mockAxios.get.mockRejectedValue({ message: 'Request failed', response: { status: 404, data: { message: '404 Project Not Found' } } });
+
+    const result = await fetchGitLabMergeRequest('https://gitlab.com', 'group/private', '45');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('GITLAB_TOKEN');
+  });
+});
@@ -38,11 +38,13 @@ describe('LangChain Integration', () => {
       const { OpenAIService } = await import('../../../src/server/services/openai-service');
       const { ClaudeService } = await import('../../../src/server/services/claude-service');
       const { OllamaService } = await import('../../../src/server/services/ollama-service');
+      const { AzureOpenAIService } = await import('../../../src/server/services/azure-openai-service');
       
       const services = [
         new OpenAIService(),
         new ClaudeService(),
-        new OllamaService()
+        new OllamaService(),
+        new AzureOpenAIService()
       ];
 
       for (const service of services) {
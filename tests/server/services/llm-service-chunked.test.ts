@@ -2,6 +2,9 @@
 import { TLLMProvider, TLLMRequest, TLLMResponse, ILLMService, TLLMPromptData, DiffChunk } from '../../../src/types/llm-types';
 import { LLMService } from '../../../src/server/services/llm-service';
 import { ChunkResult, AggregatedResult } from '../../../src/server/services/result-aggregator-service';
+import { getConfigManager } from '../../../src/server/utils/config-manager';
+import { ReviewFindingsService } from '../../../src/server/services/review-findings-service';
+import { ModelCapabilityRegistry } from '../../../src/server/services/model-capability-registry';
 
 // Mock individual LLM service for testing
 class MockILLMService implements ILLMService {
@@ -22,6 +25,11 @@ class MockILLMService implements ILLMService {
       };
     }
 
+    // Synthesis calls answer with the chunk summaries they were given
+    if (request.prData.chunkSummaries) {
+      return { success: true, data: { description: request.prData.chunkSummaries, provider: TLLMProvider.OPENAI } };
+    }
+
     const response = this.responses[this.callCount] || `Mock response ${this.callCount + 1}`;
     this.callCount++;
 
@@ -195,6 +203,9 @@ describe('LLM Service Chunked Request Handling', () => {
         private callIndex = 0;
         
         async generateDescription(request: TLLMRequest): Promise<TLLMResponse> {
+          if (request.prData.chunkSummaries) {
+            return super.generateDescription(request);
+          }
           this.callIndex++;
           if (this.callIndex === 2) {
             return { success: false, error: 'Simulated failure on chunk 2' };
@@ -429,4 +440,280 @@ describe('LLM Service Chunked Request Handling', () => {
       expect(result.data?.description).toBe('Normal response');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('LLM Service Parallel Chunk Processing', () => {
+  // Answers each chunk after a per-chunk delay, tracking how many calls are in flight
+  class DelayedService implements ILLMService {
+    inFlight = 0;
+    maxInFlight = 0;
+    aborted = 0;
+
+    constructor(private provider: TLLMProvider, private delays: Record<string, number>) {}
+
+    async generateDescription(request: TLLMRequest, signal?: AbortSignal): Promise<TLLMResponse> {
+      this.inFlight++;
+      this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+      const delay = this.delays[request.prData.diff] ?? 0;
+      // A negative delay never answers unless the call is aborted
+      await new Promise<void>(resolve => {
+        if (delay >= 0) {
+          setTimeout(resolve, delay);
+        }
+        signal?.addEventListener('abort', () => resolve());
+      });
+      this.inFlight--;
+      if (signal?.aborted) {
+        this.aborted++;
+        return { success: false, error: 'Aborted' };
+      }
+      // Synthesis calls answer with the chunk summaries they were given
+      const description = request.prData.chunkSummaries || `${this.provider}: ${request.prData.diff}`;
+      return { success: true, data: { description, provider: this.provider } };
+    }
+
+    async generateDescriptionWithCallback(
+      request: TLLMRequest,
+      onToken?: (token: string) => void,
+      signal?: AbortSignal
+    ): Promise<TLLMResponse> {
+      const label = request.prData.chunkSummaries ? 'synthesis' : request.prData.diff;
+      onToken?.(`${label} starts`);
+      const response = await this.generateDescription(request, signal);
+      onToken?.(`${label} ends`);
+      return response;
+    }
+
+    async isAvailable(): Promise<boolean> {
+      return true;
+    }
+
+    getProviderName(): TLLMProvider {
+      return this.provider;
+    }
+  }
+
+  function buildRequest(chunkCount: number): TLLMRequest {
+    const chunks: DiffChunk[] = Array.from({ length: chunkCount }, (_, index) => ({
+      content: `chunk ${index + 1}`,
+      index,
+      totalChunks: chunkCount,
+      context: { files: [`file${index + 1}.ts`], changeType: 'modify' },
+      hasOverlap: false
+    }));
+    return {
+      provider: TLLMProvider.CLAUDE,
+      prData: {
+        title: 'Parallel PR', description: '', diff: '', author: 'tester', sourceBranch: 'feature',
+        destinationBranch: 'main', repository: 'test/repo', chunks, requiresChunking: true
+      }
+    };
+  }
+
+  function setChunking(settings: { concurrency?: number; providerConcurrency?: Record<string, number>; timeoutMs?: number }) {
+    getConfigManager().updateConfig({ chunking: { ...getConfigManager().getChunkingConfig(), ...settings } });
+  }
+
+  afterEach(() => {
+    getConfigManager().reset();
+  });
+
+  it('should_bound_concurrency_per_provider_and_keep_chunk_order', async () => {
+    setChunking({ concurrency: 1, providerConcurrency: { claude: 2 } });
+    // Later chunks finish first
+    const claude = new DelayedService(TLLMProvider.CLAUDE, { 'chunk 1': 60, 'chunk 2': 40, 'chunk 3': 20, 'chunk 4': 0 });
+    const llmService = new LLMService([]);
+    llmService.registerService(TLLMProvider.CLAUDE, claude);
+
+    const response = await llmService.generateDescriptionChunked(buildRequest(4));
+
+    expect(claude.maxInFlight).toBe(2);
+    expect(response.data?.parts?.map(part => part.chunkIndex)).toEqual([0, 1, 2, 3]);
+    const description = response.data!.description;
+    expect(description.indexOf('chunk 1')).toBeLessThan(description.indexOf('chunk 2'));
+    expect(description.indexOf('chunk 3')).toBeLessThan(description.indexOf('chunk 4'));
+  });
+
+  it('should_time_out_a_chunk_and_retry_it_on_the_next_provider', async () => {
+    setChunking({ timeoutMs: 50 });
+    const claude = new DelayedService(TLLMProvider.CLAUDE, { 'chunk 2': -1 });
+    const llmService = new LLMService([TLLMProvider.CLAUDE, TLLMProvider.OPENAI]);
+    llmService.registerService(TLLMProvider.CLAUDE, claude);
+    llmService.registerService(TLLMProvider.OPENAI, new DelayedService(TLLMProvider.OPENAI, {}));
+
+    const response = await llmService.generateDescriptionChunked(buildRequest(2));
+
+    expect(response.data?.parts?.map(part => part.provider)).toEqual([TLLMProvider.CLAUDE, TLLMProvider.OPENAI]);
+    expect(response.data?.fallbacks).toEqual([
+      { provider: TLLMProvider.CLAUDE, error: 'Chunk 2 timed out after 50ms', chunkIndex: 1 }
+    ]);
+    // The timed-out call was aborted rather than left running outside the concurrency limit
+    expect(claude.aborted).toBe(1);
+    expect(claude.inFlight).toBe(0);
+  });
+
+  it('should_stream_each_chunk_on_its_own_channel', async () => {
+    const llmService = new LLMService([]);
+    llmService.registerService(TLLMProvider.CLAUDE, new DelayedService(TLLMProvider.CLAUDE, { 'chunk 1': 30 }));
+    const channels: Record<number, string[]> = {};
+    const synthesis: string[] = [];
+
+    await llmService.generateDescriptionStreamChunked(buildRequest(2), (token, chunkIndex) => {
+      if (chunkIndex === undefined) {
+        synthesis.push(token);
+      } else {
+        (channels[chunkIndex] ||= []).push(token);
+      }
+    });
+
+    expect(channels).toEqual({
+      0: ['chunk 1 starts', 'chunk 1 ends'],
+      1: ['chunk 2 starts', 'chunk 2 ends']
+    });
+    // The final description streams once the chunks are done, outside the chunk channels
+    expect(synthesis).toEqual(['synthesis starts', 'synthesis ends']);
+  });
+});
+
+describe('LLM Service Chunk Synthesis', () => {
+  // Records every request and answers chunks with a summary and merges with the summaries they were given
+  class RecordingService implements ILLMService {
+    calls: TLLMRequest[] = [];
+
+    async generateDescription(request: TLLMRequest): Promise<TLLMResponse> {
+      this.calls.push(request);
+      const description = request.prData.chunkSummaries
+        ? `Merged: ${request.prData.chunkSummaries}`
+        : `- Summary of ${request.prData.diff}`;
+      return { success: true, data: { description, provider: TLLMProvider.CLAUDE } };
+    }
+
+    async isAvailable(): Promise<boolean> {
+      return true;
+    }
+
+    getProviderName(): TLLMProvider {
+      return TLLMProvider.CLAUDE;
+    }
+  }
+
+  function buildRequest(chunkCount: number): TLLMRequest {
+    const chunks: DiffChunk[] = Array.from({ length: chunkCount }, (_, index) => ({
+      content: `chunk ${index + 1}`,
+      index,
+      totalChunks: chunkCount,
+      context: { files: [`file${index + 1}.ts`], changeType: 'modify' },
+      hasOverlap: false
+    }));
+    return {
+      provider: TLLMProvider.CLAUDE,
+      template: 'pr-description-template-en.txt',
+      prData: {
+        title: 'Large PR', description: '', diff: 'full diff', author: 'tester', sourceBranch: 'feature',
+        destinationBranch: 'main', repository: 'test/repo', chunks, requiresChunking: true
+      }
+    };
+  }
+
+  afterEach(() => {
+    getConfigManager().reset();
+  });
+
+  it('should_summarise_each_chunk_and_synthesise_the_description_with_the_selected_template', async () => {
+    const claude = new RecordingService();
+    const llmService = new LLMService([]);
+    llmService.registerService(TLLMProvider.CLAUDE, claude);
+
+    const response = await llmService.generateDescriptionChunked(buildRequest(2));
+
+    expect(claude.calls.map(call => call.template)).toEqual([
+      'pr-chunk-summary-template-en.txt',
+      'pr-chunk-summary-template-en.txt',
+      'pr-synthesis-template-en.txt'
+    ]);
+    const synthesis = claude.calls[2].prData;
+    expect(synthesis.chunkSummaries).toBe('[1]\n- Summary of chunk 1\n\n[2]\n- Summary of chunk 2');
+    // The selected template is rendered with the summaries standing in for the diff
+    expect(synthesis.outputTemplate).toContain('## Background (Why)');
+    expect(synthesis.outputTemplate).toContain('(see the summaries of the changes above)');
+    expect(synthesis.outputTemplate).not.toContain('full diff');
+    expect(response.data?.description).toBe(`Merged: ${synthesis.chunkSummaries}`);
+    expect(response.data?.synthesis).toEqual([{ final: true, provider: TLLMProvider.CLAUDE }]);
+  });
+
+  it('should_merge_the_summaries_of_very_large_prs_as_a_tree', async () => {
+    getConfigManager().updateConfig({ chunking: { ...getConfigManager().getChunkingConfig(), synthesisFanIn: 2 } });
+    const claude = new RecordingService();
+    const llmService = new LLMService([]);
+    llmService.registerService(TLLMProvider.CLAUDE, claude);
+
+    const response = await llmService.generateDescriptionChunked(buildRequest(4));
+
+    const merges = claude.calls.filter(call => call.template === 'pr-summary-merge-template-en.txt');
+    expect(merges.map(call => call.prData.chunkSummaries)).toEqual([
+      '[1]\n- Summary of chunk 1\n\n[2]\n- Summary of chunk 2',
+      '[1]\n- Summary of chunk 3\n\n[2]\n- Summary of chunk 4'
+    ]);
+    expect(claude.calls[claude.calls.length - 1].template).toBe('pr-synthesis-template-en.txt');
+    expect(response.data?.synthesis?.map(step => step.final)).toEqual([false, false, true]);
+  });
+
+  it('should_review_each_chunk_with_a_findings_template_and_join_the_findings', async () => {
+    const claude = new RecordingService();
+    claude.generateDescription = async (request: TLLMRequest) => {
+      claude.calls.push(request);
+      const file = request.prData.diff.replace('chunk ', 'file') + '.ts';
+      const description = JSON.stringify([{ file, line: 3, severity: 'minor', title: 'Nit', message: `In ${file}` }]);
+      return { success: true, data: { description, provider: TLLMProvider.CLAUDE } };
+    };
+    const llmService = new LLMService([]);
+    llmService.registerService(TLLMProvider.CLAUDE, claude);
+
+    const response = await llmService.generateDescriptionChunked({ ...buildRequest(2), template: 'pr-review-inline-template-en.txt' });
+
+    expect(claude.calls.map(call => call.template)).toEqual([
+      'pr-review-inline-template-en.txt',
+      'pr-review-inline-template-en.txt'
+    ]);
+    expect(response.data?.synthesis).toBeUndefined();
+    const findings = new ReviewFindingsService().parseFindings(response.data!.description);
+    expect(findings.map(finding => `${finding.file}:${finding.line}`)).toEqual(['file1.ts:3', 'file2.ts:3']);
+  });
+});
+describe('LLM Service Chunk Token Budget', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    getConfigManager().reset();
+  });
+
+  it('should_size_chunks_for_the_smallest_context_window_in_the_fallback_chain', async () => {
+    getConfigManager().updateConfig({ chunking: { ...getConfigManager().getChunkingConfig(), enabled: true } });
+    const windows: Partial<Record<TLLMProvider, number>> = {
+      [TLLMProvider.CLAUDE]: 150000,
+      [TLLMProvider.OLLAMA]: 3000,
+      [TLLMProvider.OPENAI]: 1000
+    };
+    const budgetFor = jest
+      .spyOn(ModelCapabilityRegistry.prototype, 'getChunkTokenBudget')
+      .mockImplementation(async request => windows[request.provider]!);
+    const llmService = new LLMService([TLLMProvider.CLAUDE, TLLMProvider.OLLAMA, TLLMProvider.OPENAI]);
+    llmService.registerService(TLLMProvider.CLAUDE, new MockILLMService());
+    llmService.registerService(TLLMProvider.OLLAMA, new MockILLMService());
+    const request: TLLMRequest = {
+      provider: TLLMProvider.CLAUDE,
+      prData: {
+        title: 'Budget PR', description: '', diff: 'diff', author: 'tester', sourceBranch: 'feature',
+        destinationBranch: 'main', repository: 'test/repo'
+      },
+      options: { model: 'claude-3-opus' }
+    };
+
+    const budget = await (llmService as any).getChunkTokenBudget(request);
+
+    // OpenAI is in the chain but not registered, so its smaller window does not count
+    expect(budget).toEqual({ provider: TLLMProvider.OLLAMA, tokens: 3000 });
+    expect(budgetFor).toHaveBeenCalledTimes(2);
+    // The fallback is asked about its own default model, not the one named for Claude
+    expect(budgetFor.mock.calls[1][0]).toMatchObject({ provider: TLLMProvider.OLLAMA, options: { model: undefined } });
+  });
+});
@@ -0,0 +1,146 @@
+// Tests for the LLM provider fallback chain
+import { TLLMProvider, TLLMRequest, TLLMResponse, ILLMService, DiffChunk } from '../../../src/types/llm-types';
+import { LLMService } from '../../../src/server/services/llm-service';
+import { getConfigManager } from '../../../src/server/utils/config-manager';
+
+// Service that plays back a scripted response per call
+class ScriptedService implements ILLMService {
+  calls: TLLMRequest[] = [];
+
+  constructor(private provider: TLLMProvider, private script: (callIndex: number) => TLLMResponse, private available = true) {}
+
+  async generateDescription(request: TLLMRequest): Promise<TLLMResponse> {
+    this.calls.push(request);
+    return this.script(this.calls.length - 1);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.available;
+  }
+
+  getProviderName(): TLLMProvider {
+    return this.provider;
+  }
+}
+
+const succeed = (provider: TLLMProvider, description: string): TLLMResponse =>
+  ({ success: true, data: { description, provider, model: `${provider}-model` } });
+const rateLimited: TLLMResponse = { success: false, error: 'claude service error: rate limit exceeded', retryable: true };
+
+function buildRequest(chunkCount = 0): TLLMRequest {
+  const chunks: DiffChunk[] = Array.from({ length: chunkCount }, (_, index) => ({
+    content: `chunk ${index + 1}`,
+    index,
+    totalChunks: chunkCount,
+    context: { files: [`file${index + 1}.ts`], changeType: 'modify' },
+    hasOverlap: false
+  }));
+  return {
+    provider: TLLMProvider.CLAUDE,
+    prData: {
+      title: 'Test PR',
+      description: '',
+      diff: 'diff --git a/file1.ts b/file1.ts\n+change',
+      author: 'tester',
+      sourceBranch: 'feature',
+      destinationBranch: 'main',
+      repository: 'test/repo',
+      ...(chunkCount > 0 && { chunks, requiresChunking: true })
+    },
+    options: { model: 'claude-3-opus' }
+  };
+}
+
+describe('LLMService fallback chain', () => {
+  afterEach(() => {
+    getConfigManager().reset();
+  });
+
+  it('should_parse_the_configured_chain', () => {
+    expect(LLMService.parseFallbackChain('Claude, openai,unknown,claude,ollama')).toEqual([
+      TLLMProvider.CLAUDE,
+      TLLMProvider.OPENAI,
+      TLLMProvider.OLLAMA
+    ]);
+    expect(LLMService.parseFallbackChain(undefined)).toEqual([]);
+    expect(new LLMService([TLLMProvider.CLAUDE, TLLMProvider.OPENAI, TLLMProvider.OLLAMA]).getProviderChain(TLLMProvider.OPENAI))
+      .toEqual([TLLMProvider.OPENAI, TLLMProvider.CLAUDE, TLLMProvider.OLLAMA]);
+  });
+
+  it('should_fall_back_on_retryable_errors_and_drop_the_requested_model', async () => {
+    const llmService = new LLMService([TLLMProvider.CLAUDE, TLLMProvider.OPENAI, TLLMProvider.OLLAMA]);
+    const claude = new ScriptedService(TLLMProvider.CLAUDE, () => rateLimited);
+    const openai = new ScriptedService(TLLMProvider.OPENAI, () => succeed(TLLMProvider.OPENAI, 'From OpenAI'));
+    llmService.registerService(TLLMProvider.CLAUDE, claude);
+    llmService.registerService(TLLMProvider.OPENAI, openai);
+
+    const response = await llmService.generateDescription(buildRequest());
+
+    expect(response.success).toBe(true);
+    expect(response.data?.provider).toBe(TLLMProvider.OPENAI);
+    expect(response.data?.fallbacks).toEqual([{ provider: TLLMProvider.CLAUDE, error: rateLimited.error }]);
+    expect(openai.calls[0].provider).toBe(TLLMProvider.OPENAI);
+    expect(openai.calls[0].options?.model).toBeUndefined();
+  });
+
+  it('should_not_fall_back_on_non_retryable_errors', async () => {
+    const llmService = new LLMService([TLLMProvider.CLAUDE, TLLMProvider.OPENAI]);
+    const openai = new ScriptedService(TLLMProvider.OPENAI, () => succeed(TLLMProvider.OPENAI, 'From OpenAI'));
+    llmService.registerService(TLLMProvider.CLAUDE, new ScriptedService(TLLMProvider.CLAUDE, () => ({
+      success: false,
+      error: 'claude service error: prompt is too long',
+      retryable: false
+    })));
+    llmService.registerService(TLLMProvider.OPENAI, openai);
+
+    const response = await llmService.generateDescription(buildRequest());
+
+    expect(response).toMatchObject({ success: false, error: 'claude service error: prompt is too long' });
+    expect(openai.calls).toHaveLength(0);
+  });
+
+  it('should_skip_unavailable_providers', async () => {
+    const llmService = new LLMService([TLLMProvider.CLAUDE, TLLMProvider.OLLAMA]);
+    llmService.registerService(TLLMProvider.CLAUDE, new ScriptedService(TLLMProvider.CLAUDE, () => rateLimited, false));
+    llmService.registerService(TLLMProvider.OLLAMA, new ScriptedService(TLLMProvider.OLLAMA, () => succeed(TLLMProvider.OLLAMA, 'Local')));
+
+    const response = await llmService.generateDescription(buildRequest());
+
+    expect(response.data?.provider).toBe(TLLMProvider.OLLAMA);
+    expect(response.data?.fallbacks?.[0].error).toContain('not available');
+  });
+
+  it('should_continue_a_chunked_request_on_the_next_provider', async () => {
+    // One chunk at a time, so the scripted call order is the chunk order
+    getConfigManager().updateConfig({ chunking: { ...getConfigManager().getChunkingConfig(), concurrency: 1 } });
+    const llmService = new LLMService([TLLMProvider.CLAUDE, TLLMProvider.OPENAI]);
+    // Claude handles the first chunk, then runs out of quota
+    const claude = new ScriptedService(TLLMProvider.CLAUDE, call => call === 0 ? succeed(TLLMProvider.CLAUDE, 'Part one') : rateLimited);
+    const openai = new ScriptedService(TLLMProvider.OPENAI, call => succeed(TLLMProvider.OPENAI, call === 0 ? 'Part two' : 'Part three'));
+    llmService.registerService(TLLMProvider.CLAUDE, claude);
+    llmService.registerService(TLLMProvider.OPENAI, openai);
+
+    const response = await llmService.generateDescriptionChunked(buildRequest(3));
+
+    expect(response.success).toBe(true);
+    expect(claude.calls).toHaveLength(2);
+    // The chunk that hit the limit is retried, and the rest and the synthesis stay on OpenAI
+    expect(openai.calls.map(call => call.prData.chunkSummaries ? 'synthesis' : call.prData.diff)).toEqual(['chunk 2', 'chunk 3', 'synthesis']);
+    expect(response.data?.parts).toEqual([
+      { chunkIndex: 0, provider: TLLMProvider.CLAUDE, model: 'claude-model' },
+      { chunkIndex: 1, provider: TLLMProvider.OPENAI, model: 'openai-model' },
+      { chunkIndex: 2, provider: TLLMProvider.OPENAI, model: 'openai-model' }
+    ]);
+    expect(response.data?.fallbacks).toEqual([{ provider: TLLMProvider.CLAUDE, error: rateLimited.error, chunkIndex: 1 }]);
+    expect(response.data?.provider).toBe(TLLMProvider.OPENAI);
+  });
+
+  it('should_classify_provider_errors', () => {
+    expect(LLMService.isRetryableError({ status: 429 })).toBe(true);
+    expect(LLMService.isRetryableError({ response: { status: 503 } })).toBe(true);
+    expect(LLMService.isRetryableError({ code: 'ECONNREFUSED' })).toBe(true);
+    expect(LLMService.isRetryableError(new Error('You exceeded your current quota'))).toBe(true);
+    expect(LLMService.isRetryableError({ status: 400, message: 'rate limit' })).toBe(false);
+    expect(LLMService.isRetryableError(new Error('Invalid API key'))).toBe(false);
+  });
+});
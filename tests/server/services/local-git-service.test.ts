@@ -0,0 +1,66 @@
+// Tests for reading branch changes from a local git checkout
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalGitService } from '../../../src/server/services/local-git-service';
+
+describe('LocalGitService', () => {
+  let directory: string;
+
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: directory, encoding: 'utf-8' });
+  const commit = (file: string, content: string, message: string) => {
+    fs.writeFileSync(path.join(directory, file), content);
+    git('add', file);
+    git('commit', '-q', '-m', message);
+  };
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'local-git-'));
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.name', 'Jane Doe');
+    git('config', 'user.email', 'jane@example.com');
+    commit('app.ts', 'export const a = 1;\n', 'Initial commit');
+    git('checkout', '-q', '-b', 'feature/totals');
+    commit('app.ts', 'export const a = 1;\nexport const total = a + 1;\n', 'Add total\n\nNeeded by the report.');
+    commit('report.ts', 'export {};\n', 'Add report stub');
+    // A commit on main after the branch point must not show up in base...head
+    git('checkout', '-q', 'main');
+    commit('other.ts', 'export {};\n', 'Unrelated change');
+    git('checkout', '-q', 'feature/totals');
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should_diff_against_the_merge_base_and_fill_in_pr_metadata', async () => {
+    const input = await new LocalGitService(directory).readDiffInput('main');
+
+    expect(input.diff).toContain('+export const total = a + 1;');
+    expect(input.diff).toContain('b/report.ts');
+    expect(input.diff).not.toContain('other.ts');
+    expect(input).toMatchObject({
+      title: 'Add total',
+      author: 'Jane Doe',
+      sourceBranch: 'feature/totals',
+      destinationBranch: 'main',
+      repository: path.basename(directory)
+    });
+  });
+
+  it('should_list_branch_commits_oldest_first', async () => {
+    const commits = await new LocalGitService(directory).readCommits('main');
+
+    expect(commits.map(c => c.message)).toEqual(['Add total\n\nNeeded by the report.', 'Add report stub']);
+    expect(commits[0].author).toBe('Jane Doe');
+  });
+
+  it('should_reject_option_like_refs', async () => {
+    await expect(new LocalGitService(directory).readDiffInput('--output=/tmp/x')).rejects.toThrow('Invalid git ref');
+  });
+
+  it('should_surface_git_errors', async () => {
+    await expect(new LocalGitService(directory).readDiffInput('no-such-branch')).rejects.toThrow('git diff failed');
+  });
+});
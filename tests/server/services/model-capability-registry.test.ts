@@ -0,0 +1,51 @@
+// Tests for model token limits and token-based chunk budgets
+import { ModelCapabilityRegistry } from '../../../src/server/services/model-capability-registry';
+import { TLLMProvider, TLLMRequest } from '../../../src/types/llm-types';
+
+function buildRequest(provider: TLLMProvider, options?: TLLMRequest['options']): TLLMRequest {
+  return {
+    provider,
+    prData: {
+      title: 'Add feature',
+      description: 'Adds a feature',
+      diff: 'diff --git a/a.ts b/a.ts\n+' + 'x'.repeat(100000),
+      author: 'tester',
+      sourceBranch: 'feature',
+      destinationBranch: 'main',
+      repository: 'test/repo'
+    },
+    template: 'pr-description-template-en.txt',
+    options
+  };
+}
+
+describe('ModelCapabilityRegistry', () => {
+  it('should_look_up_models_by_the_longest_prefix_and_fall_back_to_provider_defaults', () => {
+    const registry = new ModelCapabilityRegistry({ 'llama3.1': { contextWindow: 32768, maxOutputTokens: 4096 } });
+
+    expect(registry.get(TLLMProvider.CLAUDE, 'claude-3-5-sonnet-20241022')).toEqual({ contextWindow: 200000, maxOutputTokens: 8192 });
+    expect(registry.get(TLLMProvider.CLAUDE, 'claude-3-opus-20240229')).toEqual({ contextWindow: 200000, maxOutputTokens: 4096 });
+    expect(registry.get(TLLMProvider.OPENAI, 'gpt-4o-mini')).toEqual({ contextWindow: 128000, maxOutputTokens: 16384 });
+    expect(registry.get(TLLMProvider.OLLAMA, 'llama3.1:8b')).toEqual({ contextWindow: 32768, maxOutputTokens: 4096 });
+    expect(registry.get(TLLMProvider.OLLAMA, 'mistral')).toEqual({ contextWindow: 4096, maxOutputTokens: 2048 });
+  });
+
+  it('should_leave_room_for_the_template_and_reserved_output', async () => {
+    const registry = new ModelCapabilityRegistry({});
+
+    const claude = await registry.getChunkTokenBudget(buildRequest(TLLMProvider.CLAUDE, { model: 'claude-3-5-sonnet-20241022' }));
+    const ollama = await registry.getChunkTokenBudget(buildRequest(TLLMProvider.OLLAMA, { model: 'llama2', maxTokens: 500 }));
+
+    // The diff itself never counts against the budget
+    expect(claude).toBeGreaterThan(150000);
+    expect(claude).toBeLessThan((200000 - 1000) * 0.9);
+    expect(ollama).toBeLessThan((4096 - 500) * 0.9);
+    expect(ollama).toBeGreaterThan(claude / 100);
+  });
+
+  it('should_keep_a_minimum_budget_when_the_template_fills_the_context', async () => {
+    const registry = new ModelCapabilityRegistry({ tiny: { contextWindow: 600, maxOutputTokens: 500 } });
+
+    expect(await registry.getChunkTokenBudget(buildRequest(TLLMProvider.OLLAMA, { model: 'tiny' }))).toBe(256);
+  });
+});
@@ -0,0 +1,97 @@
+// Tests for named OpenAI-compatible endpoints registered as providers
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { OpenAICompatibleService } from '../../../src/server/services/openai-compatible-service';
+import {
+  parseOpenAICompatibleEndpoints,
+  resetOpenAICompatibleEndpoints
+} from '../../../src/server/services/openai-compatible-endpoints';
+import { LLMServiceRegistry } from '../../../src/server/services/llm-service-registry';
+import { LLMService } from '../../../src/server/services/llm-service';
+import { TLLMProvider, TLLMRequest } from '../../../src/types/llm-types';
+
+// Stands in for ChatOpenAI, recording how each client was configured
+const createdClients: Record<string, any>[] = [];
+jest.mock('@langchain/openai', () => {
+  const { FakeListChatModel: FakeModel } = jest.requireActual('@langchain/core/utils/testing');
+  return {
+    ChatOpenAI: class extends (FakeModel as typeof FakeListChatModel) {
+      constructor(fields: Record<string, any>) {
+        super({ responses: ['Local description'] });
+        createdClients.push(fields);
+      }
+    }
+  };
+});
+
+const ENDPOINTS = {
+  vllm: { baseURL: 'http://localhost:8000/v1/', model: 'meta-llama/Llama-3.1-8B-Instruct', headers: { 'X-Team': 'web' } },
+  'lm-studio': { baseURL: 'http://localhost:1234/v1', model: 'qwen2.5-coder', apiKey: 'lm-key' }
+};
+
+describe('OpenAI-compatible endpoints', () => {
+  const originalEndpoints = process.env.OPENAI_COMPATIBLE_ENDPOINTS;
+
+  beforeEach(() => {
+    createdClients.length = 0;
+  });
+
+  afterEach(() => {
+    if (originalEndpoints === undefined) {
+      delete process.env.OPENAI_COMPATIBLE_ENDPOINTS;
+    } else {
+      process.env.OPENAI_COMPATIBLE_ENDPOINTS = originalEndpoints;
+    }
+    resetOpenAICompatibleEndpoints();
+    LLMServiceRegistry.reset();
+  });
+
+  it('should_parse_named_endpoints_and_skip_invalid_or_reserved_ones', () => {
+    const endpoints = parseOpenAICompatibleEndpoints(JSON.stringify({
+      ...ENDPOINTS,
+      openai: { baseURL: 'http://localhost:9000/v1', model: 'shadow' },
+      'No Spaces': { baseURL: 'http://localhost:9000/v1', model: 'm' },
+      incomplete: { baseURL: 'http://localhost:9000/v1' }
+    }));
+
+    expect(endpoints).toEqual({
+      vllm: { baseURL: 'http://localhost:8000/v1', model: 'meta-llama/Llama-3.1-8B-Instruct', headers: { 'X-Team': 'web' } },
+      'lm-studio': { baseURL: 'http://localhost:1234/v1', model: 'qwen2.5-coder', apiKey: 'lm-key' }
+    });
+    expect(parseOpenAICompatibleEndpoints('not json')).toEqual({});
+    for (const notAnObject of ['null', '[]', '"vllm"', '42']) {
+      expect(parseOpenAICompatibleEndpoints(notAnObject)).toEqual({});
+    }
+  });
+
+  it('should_register_each_endpoint_as_a_provider_under_its_name', () => {
+    process.env.OPENAI_COMPATIBLE_ENDPOINTS = JSON.stringify(ENDPOINTS);
+
+    const llmService = LLMServiceRegistry.getInstance();
+
+    expect(llmService.getRegisteredProviders()).toEqual([
+      TLLMProvider.OPENAI, TLLMProvider.CLAUDE, TLLMProvider.OLLAMA, TLLMProvider.AZURE_OPENAI, 'vllm', 'lm-studio'
+    ]);
+    expect(LLMService.parseFallbackChain('vllm, unknown, claude')).toEqual(['vllm', TLLMProvider.CLAUDE]);
+  });
+
+  it('should_generate_against_the_endpoint_with_its_model_and_headers', async () => {
+    const service = new OpenAICompatibleService('vllm', parseOpenAICompatibleEndpoints(JSON.stringify(ENDPOINTS)).vllm);
+    const request: TLLMRequest = {
+      provider: 'vllm',
+      prData: {
+        title: 'Add feature', description: '', diff: 'diff --git a/a.ts b/a.ts\n+x', author: 'tester',
+        sourceBranch: 'feature', destinationBranch: 'main', repository: 'test/repo'
+      },
+      template: 'pr-description-template-en.txt'
+    };
+
+    const response = await service.generateDescription(request);
+
+    expect(response.data).toMatchObject({ description: 'Local description', provider: 'vllm', model: 'meta-llama/Llama-3.1-8B-Instruct' });
+    expect(createdClients[0]).toMatchObject({
+      model: 'meta-llama/Llama-3.1-8B-Instruct',
+      configuration: { baseURL: 'http://localhost:8000/v1', defaultHeaders: { 'X-Team': 'web' } }
+    });
+    expect(service.getProviderName()).toBe('vllm');
+  });
+});
@@ -0,0 +1,111 @@
+// Tests for cached provider availability and per-provider circuit breakers
+import { ProviderHealthMonitor } from '../../../src/server/services/provider-health-monitor';
+import { LLMService } from '../../../src/server/services/llm-service';
+import { TLLMProvider, TLLMRequest, TLLMResponse, ILLMService } from '../../../src/types/llm-types';
+
+const options = { ttlMs: 1000, failureThreshold: 2, resetTimeoutMs: 5000, probeIntervalMs: 0 };
+
+describe('ProviderHealthMonitor', () => {
+  let now: number;
+  let probe: jest.Mock<Promise<boolean>, [TLLMProvider]>;
+  let monitor: ProviderHealthMonitor;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    probe = jest.fn().mockResolvedValue(true);
+    monitor = new ProviderHealthMonitor(probe, () => [TLLMProvider.CLAUDE, TLLMProvider.OPENAI], options);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should_cache_probe_results_until_the_ttl_expires', async () => {
+    const [first, second] = await Promise.all([
+      monitor.isAvailable(TLLMProvider.CLAUDE),
+      monitor.isAvailable(TLLMProvider.CLAUDE)
+    ]);
+    expect([first, second]).toEqual([true, true]);
+    // Concurrent callers share one probe
+    expect(probe).toHaveBeenCalledTimes(1);
+
+    now += 999;
+    await monitor.isAvailable(TLLMProvider.CLAUDE);
+    expect(probe).toHaveBeenCalledTimes(1);
+
+    now += 1;
+    await monitor.isAvailable(TLLMProvider.CLAUDE);
+    expect(probe).toHaveBeenCalledTimes(2);
+  });
+
+  it('should_open_the_circuit_after_consecutive_failures_and_trial_it_after_the_reset_timeout', async () => {
+    monitor.recordFailure(TLLMProvider.CLAUDE, 'rate limit exceeded');
+    expect(monitor.getHealth()[0].circuit).toBe('closed');
+    monitor.recordFailure(TLLMProvider.CLAUDE, 'rate limit exceeded');
+
+    expect(await monitor.isAvailable(TLLMProvider.CLAUDE)).toBe(false);
+    expect(probe).not.toHaveBeenCalled();
+    expect(monitor.getHealth()[0]).toMatchObject({ circuit: 'open', consecutiveFailures: 2, lastError: 'rate limit exceeded' });
+
+    now += 5000;
+    expect(monitor.getHealth()[0].circuit).toBe('half-open');
+    // A failed trial re-opens the circuit straight away
+    probe.mockResolvedValueOnce(false);
+    expect(await monitor.isAvailable(TLLMProvider.CLAUDE)).toBe(false);
+    expect(monitor.getHealth()[0].circuit).toBe('open');
+
+    now += 5000;
+    expect(await monitor.isAvailable(TLLMProvider.CLAUDE)).toBe(true);
+    expect(monitor.getHealth()[0]).toMatchObject({ circuit: 'closed', consecutiveFailures: 0, available: true });
+  });
+
+  it('should_report_every_provider_without_probing', async () => {
+    probe.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+    await monitor.isAvailable(TLLMProvider.OPENAI);
+
+    expect(monitor.getHealth()).toEqual([
+      { provider: TLLMProvider.CLAUDE, circuit: 'closed', consecutiveFailures: 0 },
+      {
+        provider: TLLMProvider.OPENAI,
+        available: false,
+        circuit: 'closed',
+        consecutiveFailures: 1,
+        lastCheckedAt: new Date(now).toISOString(),
+        lastError: 'Availability probe failed'
+      }
+    ]);
+    expect(probe).toHaveBeenCalledTimes(1);
+  });
+
+  it('should_skip_a_provider_with_an_open_circuit_in_the_fallback_chain', async () => {
+    const failing: ILLMService = {
+      generateDescription: jest.fn().mockResolvedValue({ success: false, error: 'claude service error: overloaded', retryable: true }),
+      isAvailable: jest.fn().mockResolvedValue(true),
+      getProviderName: () => TLLMProvider.CLAUDE
+    };
+    const backup: ILLMService = {
+      generateDescription: jest.fn().mockResolvedValue({ success: true, data: { description: 'Backup', provider: TLLMProvider.OPENAI } }),
+      isAvailable: jest.fn().mockResolvedValue(true),
+      getProviderName: () => TLLMProvider.OPENAI
+    };
+    const llmService = new LLMService([TLLMProvider.CLAUDE, TLLMProvider.OPENAI]);
+    llmService.registerService(TLLMProvider.CLAUDE, failing);
+    llmService.registerService(TLLMProvider.OPENAI, backup);
+    const request: TLLMRequest = {
+      provider: TLLMProvider.CLAUDE,
+      prData: { title: 'PR', description: '', diff: '+change', author: 'a', sourceBranch: 'f', destinationBranch: 'main', repository: 'r' }
+    };
+
+    const responses: TLLMResponse[] = [];
+    for (let i = 0; i < 4; i++) {
+      responses.push(await llmService.generateDescription(request));
+    }
+
+    expect(responses.every(response => response.data?.provider === TLLMProvider.OPENAI)).toBe(true);
+    // The default threshold is three failures; after that Claude is no longer called
+    expect(failing.generateDescription).toHaveBeenCalledTimes(3);
+    expect(failing.isAvailable).toHaveBeenCalledTimes(1);
+    expect(llmService.getHealthMonitor().getHealth().find(health => health.provider === TLLMProvider.CLAUDE)?.circuit).toBe('open');
+  });
+});
@@ -315,4 +315,70 @@ describe('ResultAggregatorService', () => {
       expect(formatted).toContain('user features');
     });
   });
+
+  describe('synthesizeResults', () => {
+    const buildChunks = (count: number): DiffChunk[] => Array.from({ length: count }, (_, index) => ({
+      content: `chunk ${index + 1}`,
+      index,
+      totalChunks: count,
+      context: { files: [`file${index + 1}.js`], changeType: 'modify' },
+      hasOverlap: false
+    }));
+    const buildResults = (count: number): ChunkResult[] => Array.from({ length: count }, (_, index) => ({
+      chunkIndex: index,
+      description: `s${index + 1}`,
+      success: true
+    }));
+
+    it('should_merge_summaries_level_by_level_when_they_exceed_the_fan_in', async () => {
+      // Arrange
+      const calls: { summaries: string[]; final: boolean }[] = [];
+      const reduce = async (summaries: string[], final: boolean) => {
+        calls.push({ summaries, final });
+        return final ? `Description of ${summaries.join('+')}` : `(${summaries.join('+')})`;
+      };
+
+      // Act
+      const aggregated = await service.synthesizeResults(buildChunks(5), buildResults(5), reduce, 2);
+
+      // Assert
+      expect(calls).toEqual([
+        { summaries: ['s1', 's2'], final: false },
+        { summaries: ['s3', 's4'], final: false },
+        { summaries: ['(s1+s2)', '(s3+s4)'], final: false },
+        { summaries: ['((s1+s2)+(s3+s4))', 's5'], final: true }
+      ]);
+      expect(aggregated.description).toBe('Description of ((s1+s2)+(s3+s4))+s5');
+    });
+
+    it('should_merge_in_pairs_when_the_fan_in_is_below_two', async () => {
+      // Arrange
+      const reduce = async (summaries: string[]) => `(${summaries.join('+')})`;
+
+      // Act
+      const [one, zero] = await Promise.all([
+        service.synthesizeResults(buildChunks(3), buildResults(3), reduce, 1),
+        service.synthesizeResults(buildChunks(3), buildResults(3), reduce, 0)
+      ]);
+
+      // Assert
+      expect(one.description).toBe('((s1+s2)+s3)');
+      expect(zero.description).toBe('((s1+s2)+s3)');
+    });
+
+    it('should_join_the_summaries_when_synthesis_fails', async () => {
+      // Arrange
+      const results = buildResults(3);
+      results[1] = { chunkIndex: 1, description: '', success: false, error: 'Timed out' };
+      const reduce = jest.fn().mockRejectedValue(new Error('Synthesis timed out'));
+
+      // Act
+      const aggregated = await service.synthesizeResults(buildChunks(3), results, reduce, 8);
+
+      // Assert
+      expect(aggregated.success).toBe(true);
+      expect(aggregated.description).toBe('• s1\n• s3\n\n(Note: Some changes could not be processed)');
+      expect(aggregated.failedChunks).toBe(1);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,161 @@
+// Tests for posting review findings as Bitbucket PR comments
+import { ReviewCommentPublisherService } from '../../../src/server/services/review-comment-publisher-service';
+import {
+  createPullRequestComment,
+  fetchCurrentUser,
+  fetchPullRequestComments,
+  resolvePullRequestComment,
+  updatePullRequestComment,
+} from '../../../src/server/services/bitbucket-service';
+import { TReviewFinding } from '../../../src/types/review-types';
+
+jest.mock('../../../src/server/services/bitbucket-service');
+
+const mockFetchComments = fetchPullRequestComments as jest.MockedFunction<typeof fetchPullRequestComments>;
+const mockCreateComment = createPullRequestComment as jest.MockedFunction<typeof createPullRequestComment>;
+const mockUpdateComment = updatePullRequestComment as jest.MockedFunction<typeof updatePullRequestComment>;
+const mockResolveComment = resolvePullRequestComment as jest.MockedFunction<typeof resolvePullRequestComment>;
+const mockFetchCurrentUser = fetchCurrentUser as jest.MockedFunction<typeof fetchCurrentUser>;
+
+const BOT = { display_name: 'Review Bot', uuid: '{bot}' };
+const HUMAN = { display_name: 'Jane', uuid: '{jane}' };
+
+describe('ReviewCommentPublisherService', () => {
+  let service: ReviewCommentPublisherService;
+
+  const inlineFinding: TReviewFinding = {
+    file: 'src/app.ts',
+    line: 11,
+    severity: 'major',
+    title: 'Binds all interfaces',
+    message: 'Listening on 0.0.0.0 exposes the server.'
+  };
+  const unmappedFinding: TReviewFinding = {
+    file: 'src/app.ts',
+    line: 99,
+    severity: 'minor',
+    title: 'Missing test',
+    message: 'start() has no test.'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ReviewCommentPublisherService();
+    mockCreateComment.mockImplementation(async (repo, pr, raw) => ({
+      success: true,
+      data: { id: 500, content: { raw } }
+    }));
+    mockUpdateComment.mockImplementation(async (repo, pr, id, raw) => ({
+      success: true,
+      data: { id, content: { raw } }
+    }));
+    mockResolveComment.mockResolvedValue({ success: true });
+    mockFetchCurrentUser.mockResolvedValue({ success: true, data: BOT });
+  });
+
+  it('should_post_inline_comments_and_summary_on_first_run', async () => {
+    mockFetchComments.mockResolvedValue({ success: true, data: [] });
+
+    const result = await service.publish('test/repo', '1', { inline: [inlineFinding], unmapped: [unmappedFinding] });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ created: 2, updated: 0, resolved: 0, summaryCommentId: 500 });
+    expect(mockCreateComment).toHaveBeenCalledWith(
+      'test/repo',
+      '1',
+      expect.stringContaining('<!-- happyfriday:finding:'),
+      { path: 'src/app.ts', to: 11 },
+      {}
+    );
+    const summaryBody = mockCreateComment.mock.calls[1][2];
+    expect(summaryBody).toContain('Missing test');
+    expect(summaryBody).toContain(ReviewCommentPublisherService.SUMMARY_MARKER);
+  });
+
+  it('should_update_comments_from_a_previous_run_instead_of_duplicating', async () => {
+    const key = service.getLocationKey(inlineFinding);
+    mockFetchComments.mockResolvedValue({
+      success: true,
+      data: [
+        { id: 10, content: { raw: `old\n\n<!-- happyfriday:finding:${key} -->` }, inline: { path: 'src/app.ts', to: 11 }, user: BOT },
+        { id: 11, content: { raw: `old summary\n${ReviewCommentPublisherService.SUMMARY_MARKER}` }, user: BOT },
+        { id: 12, content: { raw: 'A human comment' }, user: HUMAN }
+      ]
+    });
+
+    const result = await service.publish('test/repo', '1', { inline: [inlineFinding], unmapped: [] });
+
+    expect(result.data).toEqual({ created: 0, updated: 2, resolved: 0, summaryCommentId: 11 });
+    expect(mockCreateComment).not.toHaveBeenCalled();
+    expect(mockUpdateComment).toHaveBeenCalledWith('test/repo', '1', 10, expect.stringContaining('Binds all interfaces'), {});
+  });
+
+  it('should_ignore_markers_in_comments_by_other_accounts', async () => {
+    const key = service.getLocationKey(inlineFinding);
+    mockFetchComments.mockResolvedValue({
+      success: true,
+      data: [
+        { id: 10, content: { raw: `quoted\n\n<!-- happyfriday:finding:${key} -->` }, inline: { path: 'src/app.ts', to: 11 }, user: HUMAN },
+        { id: 11, content: { raw: `quoted\n${ReviewCommentPublisherService.SUMMARY_MARKER}` }, user: HUMAN }
+      ]
+    });
+
+    const result = await service.publish('test/repo', '1', { inline: [inlineFinding], unmapped: [] });
+
+    expect(result.data).toEqual({ created: 2, updated: 0, resolved: 0, summaryCommentId: 500 });
+    expect(mockUpdateComment).not.toHaveBeenCalled();
+    expect(mockResolveComment).not.toHaveBeenCalled();
+  });
+
+  it('should_resolve_comments_whose_finding_is_gone', async () => {
+    const staleKey = service.getLocationKey({ ...inlineFinding, line: 40 });
+    const resolvedKey = service.getLocationKey({ ...inlineFinding, line: 50 });
+    mockFetchComments.mockResolvedValue({
+      success: true,
+      data: [
+        { id: 20, content: { raw: `fixed\n\n<!-- happyfriday:finding:${staleKey} -->` }, inline: { path: 'src/app.ts', to: 40 }, user: BOT },
+        { id: 21, content: { raw: `done\n\n<!-- happyfriday:finding:${resolvedKey} -->` }, user: BOT, resolution: { type: 'resolved' } }
+      ]
+    });
+
+    const result = await service.publish('test/repo', '1', { inline: [inlineFinding], unmapped: [] });
+
+    expect(result.data).toEqual({ created: 2, updated: 0, resolved: 1, summaryCommentId: 500 });
+    expect(mockResolveComment).toHaveBeenCalledTimes(1);
+    expect(mockResolveComment).toHaveBeenCalledWith('test/repo', '1', 20, {});
+  });
+
+  it('should_post_new_comments_when_the_account_cannot_be_identified', async () => {
+    const key = service.getLocationKey(inlineFinding);
+    mockFetchCurrentUser.mockResolvedValue({ success: false, error: 'Forbidden' });
+    mockFetchComments.mockResolvedValue({
+      success: true,
+      data: [{ id: 10, content: { raw: `old\n\n<!-- happyfriday:finding:${key} -->` }, user: BOT }]
+    });
+
+    const result = await service.publish('test/repo', '1', { inline: [inlineFinding], unmapped: [] });
+
+    expect(result.data?.created).toBe(2);
+    expect(mockUpdateComment).not.toHaveBeenCalled();
+  });
+
+  it('should_group_findings_on_the_same_line_into_one_comment', async () => {
+    mockFetchComments.mockResolvedValue({ success: true, data: [] });
+    const second = { ...inlineFinding, title: 'Hard-coded host', severity: 'info' as const };
+
+    await service.publish('test/repo', '1', { inline: [inlineFinding, second], unmapped: [] });
+
+    expect(mockCreateComment).toHaveBeenCalledTimes(2);
+    expect(mockCreateComment.mock.calls[0][2]).toContain('Hard-coded host');
+  });
+
+  it('should_stop_when_bitbucket_rejects_a_comment', async () => {
+    mockFetchComments.mockResolvedValue({ success: true, data: [] });
+    mockCreateComment.mockResolvedValue({ success: false, error: 'Bitbucket API rate limit exceeded.' });
+
+    const result = await service.publish('test/repo', '1', { inline: [inlineFinding], unmapped: [] });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Bitbucket API rate limit exceeded.');
+  });
+});
@@ -0,0 +1,94 @@
+// Tests for ReviewFindingsService
+import { ReviewFindingsService } from '../../../src/server/services/review-findings-service';
+
+describe('ReviewFindingsService', () => {
+  let service: ReviewFindingsService;
+
+  const diff = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -10,4 +10,5 @@ export function start() {
+   const port = 3000;
+-  listen(port);
++  const host = '0.0.0.0';
++  listen(port, host);
+   return true;
+diff --git a/src/util.ts b/src/util.ts
+index 3333333..4444444 100644
+--- a/src/util.ts
++++ b/src/util.ts
+@@ -1,2 +1,3 @@
++import fs from 'fs';
+ export const a = 1;
+ export const b = 2;`;
+
+  beforeEach(() => {
+    service = new ReviewFindingsService();
+  });
+
+  describe('parseFindings', () => {
+    it('should_parse_findings_from_fenced_json_block', () => {
+      const output = 'Review:\n```json\n[{"file": "src/app.ts", "line": 11, "severity": "major", ' +
+        '"title": "Binds all interfaces", "message": "Listening on 0.0.0.0 exposes the server."}]\n```';
+
+      const findings = service.parseFindings(output);
+
+      expect(findings).toEqual([{
+        file: 'src/app.ts',
+        line: 11,
+        severity: 'major',
+        title: 'Binds all interfaces',
+        message: 'Listening on 0.0.0.0 exposes the server.'
+      }]);
+    });
+
+    it('should_collect_arrays_from_every_chunk_of_a_chunked_response', () => {
+      const output = '• ```json\n[{"file": "b/src/app.ts", "line": "12", "message": "First"}]\n```\n' +
+        '• ```json\n[{"file": "src/util.ts", "line": 1, "severity": "HIGH", "message": "Second"}]\n```';
+
+      const findings = service.parseFindings(output);
+
+      expect(findings).toHaveLength(2);
+      expect(findings[0]).toMatchObject({ file: 'src/app.ts', line: 12, severity: 'minor', title: 'First' });
+      expect(findings[1]).toMatchObject({ file: 'src/util.ts', severity: 'minor' });
+    });
+
+    it('should_skip_entries_without_file_line_or_message', () => {
+      const output = '[{"file": "a.ts", "line": 0, "message": "x"}, {"line": 3, "message": "y"}, ' +
+        '{"file": "a.ts", "line": 2, "message": "valid [with brackets]"}]';
+
+      const findings = service.parseFindings(output);
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].message).toBe('valid [with brackets]');
+    });
+
+    it('should_report_missing_payload_separately_from_empty_findings', () => {
+      expect(service.hasFindingsPayload('```json\n[]\n```')).toBe(true);
+      expect(service.hasFindingsPayload('Looks good to me!')).toBe(false);
+    });
+  });
+
+  describe('mapFindingsToDiff', () => {
+    it('should_compute_new_side_line_numbers_per_file', () => {
+      const lines = service.getCommentableLines(diff);
+
+      expect([...lines.get('src/app.ts')!]).toEqual([10, 11, 12, 13]);
+      expect([...lines.get('src/util.ts')!]).toEqual([1, 2, 3]);
+    });
+
+    it('should_split_findings_into_inline_and_unmapped', () => {
+      const findings = [
+        { file: 'src/app.ts', line: 12, severity: 'major' as const, title: 'a', message: 'a' },
+        { file: 'src/app.ts', line: 40, severity: 'minor' as const, title: 'b', message: 'b' },
+        { file: 'src/other.ts', line: 1, severity: 'info' as const, title: 'c', message: 'c' }
+      ];
+
+      const mapped = service.mapFindingsToDiff(findings, diff);
+
+      expect(mapped.inline.map(f => f.title)).toEqual(['a']);
+      expect(mapped.unmapped.map(f => f.title)).toEqual(['b', 'c']);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+// Tests for suggesting reviewers from CODEOWNERS and file history
+import { ReviewerSuggestionService } from '../../../src/server/services/reviewer-suggestion-service';
+import {
+  fetchFileCommits,
+  fetchFileContent,
+  fetchWorkspaceMembers,
+  updatePullRequestReviewers,
+} from '../../../src/server/services/bitbucket-service';
+import { TPullRequest } from '../../../src/types/bitbucket-types';
+
+jest.mock('../../../src/server/services/bitbucket-service');
+
+const mockFetchFileContent = fetchFileContent as jest.MockedFunction<typeof fetchFileContent>;
+const mockFetchFileCommits = fetchFileCommits as jest.MockedFunction<typeof fetchFileCommits>;
+const mockFetchMembers = fetchWorkspaceMembers as jest.MockedFunction<typeof fetchWorkspaceMembers>;
+const mockUpdateReviewers = updatePullRequestReviewers as jest.MockedFunction<typeof updatePullRequestReviewers>;
+
+const CODEOWNERS = [
+  '# Default owners',
+  '*                 @lead',
+  'src/api/          @backend @"Jane Doe"',
+  '*.md              @docs-team # docs',
+  '/src/api/legacy/',
+].join('\n');
+
+function fileDiff(file: string, changedLines: number): string {
+  const body = Array.from({ length: changedLines }, (_, i) => `+line ${i}`).join('\n');
+  return `diff --git a/${file} b/${file}\n--- a/${file}\n+++ b/${file}\n@@ -1,0 +1,${changedLines} @@\n${body}\n`;
+}
+
+const pr: TPullRequest = {
+  id: 5,
+  title: 'Add feature',
+  description: '',
+  state: 'OPEN',
+  author: { display_name: 'Pat Author', uuid: '{author}' },
+  created_on: '2024-01-01T00:00:00Z',
+  updated_on: '2024-01-01T00:00:00Z',
+  source: { branch: { name: 'feature' }, repository: { full_name: 'test/repo' }, commit: { hash: 'aaa111' } },
+  destination: { branch: { name: 'main' }, repository: { full_name: 'test/repo' }, commit: { hash: 'bbb222' } },
+  links: { html: { href: 'https://bitbucket.org/test/repo/pull-requests/5' } },
+  reviewers: [{ display_name: 'Existing', uuid: '{existing}' }]
+};
+
+describe('ReviewerSuggestionService', () => {
+  let service: ReviewerSuggestionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ReviewerSuggestionService();
+    mockFetchFileContent.mockImplementation(async (repo, commit, path) =>
+      path === 'CODEOWNERS' ? { success: true, data: CODEOWNERS } : { success: false, error: 'Not found' }
+    );
+    mockFetchFileCommits.mockResolvedValue({ success: true, data: [] });
+  });
+
+  it('should_match_codeowners_rules_with_the_last_match_winning', () => {
+    const rules = service.parseCodeOwners(CODEOWNERS);
+
+    expect(rules[1]).toEqual({ pattern: 'src/api/', owners: ['@backend', '@"Jane Doe"'] });
+    expect(service.findOwners(rules, 'src/api/routes.ts')).toEqual(['@backend', '@"Jane Doe"']);
+    expect(service.findOwners(rules, 'docs/guide.md')).toEqual(['@docs-team']);
+    expect(service.findOwners(rules, 'src/index.ts')).toEqual(['@lead']);
+    // The ownerless rule un-assigns the legacy directory
+    expect(service.findOwners(rules, 'src/api/legacy/old.ts')).toEqual([]);
+  });
+
+  it('should_rank_owners_by_diff_coverage', async () => {
+    const diff = fileDiff('src/api/routes.ts', 30) + fileDiff('README.md', 10);
+
+    const result = await service.suggest('test/repo', pr, diff, {});
+
+    expect(mockFetchFileContent).toHaveBeenCalledWith('test/repo', 'bbb222', '.bitbucket/CODEOWNERS', {});
+    expect(result.codeOwnersPath).toBe('CODEOWNERS');
+    expect(result.suggestions.map(s => [s.owner, s.coverage])).toEqual([
+      ['@"Jane Doe"', 0.75],
+      ['@backend', 0.75],
+      ['@docs-team', 0.25]
+    ]);
+    expect(mockFetchFileCommits).not.toHaveBeenCalled();
+  });
+
+  it('should_fall_back_to_recent_committers_for_unowned_files', async () => {
+    mockFetchFileCommits.mockResolvedValue({
+      success: true,
+      data: [
+        { hash: 'c1', message: 'Fix', date: '', author: { raw: 'Sam <sam@example.com>', user: { display_name: 'Sam', uuid: '{sam}' } } },
+        { hash: 'c2', message: 'Own work', date: '', author: { raw: 'Pat', user: { display_name: 'Pat Author', uuid: '{author}' } } }
+      ]
+    });
+
+    const result = await service.suggest('test/repo', pr, fileDiff('src/api/legacy/old.ts', 4), {});
+
+    expect(mockFetchFileCommits).toHaveBeenCalledWith('test/repo', 'bbb222', 'src/api/legacy/old.ts', 10, {});
+    // The PR author is never suggested
+    expect(result.suggestions).toEqual([
+      { owner: 'Sam', source: 'history', uuid: '{sam}', files: ['src/api/legacy/old.ts'], changedLines: 4, coverage: 1 }
+    ]);
+  });
+
+  it('should_add_resolvable_suggestions_alongside_existing_reviewers', async () => {
+    mockFetchMembers.mockResolvedValue({
+      success: true,
+      data: [
+        { display_name: 'Jane Doe', uuid: '{jane}' },
+        { display_name: 'Bea Backend', uuid: '{bea}', nickname: 'backend' }
+      ]
+    });
+    mockUpdateReviewers.mockResolvedValue({ success: true, data: pr });
+
+    const result = await service.addReviewers('test/repo', '5', pr, [
+      { owner: '@backend', source: 'codeowners', files: [], changedLines: 3, coverage: 0.5 },
+      { owner: '@"Jane Doe"', source: 'codeowners', files: [], changedLines: 3, coverage: 0.5 },
+      { owner: '@test/platform-team', source: 'codeowners', files: [], changedLines: 1, coverage: 0.2 }
+    ], {});
+
+    expect(mockFetchMembers).toHaveBeenCalledWith('test', {});
+    expect(mockUpdateReviewers).toHaveBeenCalledWith('test/repo', '5', ['{existing}', '{bea}', '{jane}'], {});
+    expect(result).toEqual({ added: ['@backend', '@"Jane Doe"'], unresolved: ['@test/platform-team'] });
+  });
+});
@@ -249,6 +249,48 @@ Author: {{author}}`;
     });
   });
 
+  describe('Commit Formatting', () => {
+    const commits = [
+      { hash: 'aaaaaaa1111', message: 'Add parser\n\nSplits input on commas.', author: 'Joe' },
+      { hash: 'bbbbbbb2222', message: 'Handle empty input', author: 'Jane' },
+      { hash: 'ccccccc3333', message: 'Fix lint' }
+    ];
+
+    test('should render commits with bodies when within budget', () => {
+      const result = TemplateService.formatCommits(commits, 1000);
+
+      expect(result).toBe([
+        '  - aaaaaaa Add parser (Joe)',
+        '    Splits input on commas.',
+        '  - bbbbbbb Handle empty input (Jane)',
+        '  - ccccccc Fix lint'
+      ].join('\n'));
+    });
+
+    test('should fall back to subject lines when bodies exceed budget', () => {
+      const result = TemplateService.formatCommits(commits, 90);
+
+      expect(result).not.toContain('Splits input');
+      expect(result).toContain('ccccccc Fix lint');
+    });
+
+    test('should keep earliest commits and note omitted ones when still too long', () => {
+      const result = TemplateService.formatCommits(commits, 70);
+
+      expect(result).toContain('aaaaaaa Add parser');
+      expect(result).not.toContain('Fix lint');
+      expect(result).toMatch(/\d more commits omitted/);
+      expect(result.length).toBeLessThanOrEqual(70);
+    });
+
+    test('should expose commits as a template variable', () => {
+      const variables = TemplateService.buildTemplateVariables({ ...mockPRData, commits });
+
+      expect(variables.commits).toContain('bbbbbbb Handle empty input');
+      expect(TemplateService.buildTemplateVariables(mockPRData).commits).toBe('');
+    });
+  });
+
   describe('LangChain Integration', () => {
     beforeEach(() => {
       (mockFs.readFileSync as any).mockReturnValue(mockTemplateContent);
@@ -0,0 +1,103 @@
+// Tests for token accounting and cost estimation
+import { AIMessage } from '@langchain/core/messages';
+import { PromptTemplate } from '@langchain/core/prompts';
+import {
+  TokenUsageCollector,
+  estimateCost,
+  estimateTokens,
+  getPriceTable,
+  sumUsage,
+} from '../../../src/server/services/token-usage-tracker';
+import { LLMService } from '../../../src/server/services/llm-service';
+import { DiffChunk, ILLMService, TLLMProvider, TLLMRequest } from '../../../src/types/llm-types';
+
+describe('token usage tracking', () => {
+  const originalPriceTable = process.env.LLM_PRICE_TABLE;
+
+  afterEach(() => {
+    if (originalPriceTable === undefined) {
+      delete process.env.LLM_PRICE_TABLE;
+    } else {
+      process.env.LLM_PRICE_TABLE = originalPriceTable;
+    }
+  });
+
+  it('should_estimate_tokens_per_provider_and_count_cjk_characters_individually', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('a'.repeat(40), TLLMProvider.OPENAI)).toBe(10);
+    expect(estimateTokens('a'.repeat(35), TLLMProvider.CLAUDE)).toBe(10);
+    expect(estimateTokens('變更說明 abcd', TLLMProvider.OPENAI)).toBe(4 + 2);
+  });
+
+  it('should_price_usage_by_the_longest_matching_model_prefix', () => {
+    const usage = { promptTokens: 1_000_000, completionTokens: 500_000, totalTokens: 1_500_000 };
+
+    expect(estimateCost(usage, TLLMProvider.OPENAI, 'gpt-4o-mini-2024-07-18')).toEqual({
+      currency: 'USD', promptCost: 0.15, completionCost: 0.3, totalCost: 0.45
+    });
+    expect(estimateCost(usage, TLLMProvider.OPENAI, 'gpt-4o')?.totalCost).toBe(7.5);
+    expect(estimateCost(usage, TLLMProvider.OPENAI, 'my-fine-tune')).toBeUndefined();
+    expect(estimateCost(usage, TLLMProvider.OLLAMA, 'llama2')?.totalCost).toBe(0);
+
+    process.env.LLM_PRICE_TABLE = JSON.stringify({ 'my-fine-tune': { input: 1, output: 2 } });
+    expect(getPriceTable()['gpt-4o']).toEqual({ input: 2.5, output: 10 });
+    expect(estimateCost(usage, TLLMProvider.OPENAI, 'my-fine-tune')?.totalCost).toBe(2);
+  });
+
+  it('should_prefer_reported_usage_over_estimates', async () => {
+    const template = new PromptTemplate({ template: 'Describe {diff}', inputVariables: ['diff'] });
+    const reported = new TokenUsageCollector(TLLMProvider.OPENAI);
+    await reported.estimatePrompt(template, { diff: 'x'.repeat(32) });
+    reported.handler.handleLLMEnd({
+      generations: [[{
+        text: 'Done',
+        message: new AIMessage({ content: 'Done', usage_metadata: { input_tokens: 12, output_tokens: 3, total_tokens: 15 } })
+      } as any]]
+    });
+
+    expect(reported.getUsage('Done')).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15, estimatedPromptTokens: 11 });
+
+    const unreported = new TokenUsageCollector(TLLMProvider.OPENAI);
+    await unreported.estimatePrompt(template, { diff: 'x'.repeat(32) });
+    expect(unreported.getUsage('a'.repeat(8))).toEqual({
+      promptTokens: 11, completionTokens: 2, totalTokens: 13, estimatedPromptTokens: 11, estimated: true
+    });
+  });
+
+  it('should_sum_usage_and_cost_across_chunks', async () => {
+    const usage = { promptTokens: 400_000, completionTokens: 100_000, totalTokens: 500_000 };
+    const service: ILLMService = {
+      generateDescription: jest.fn().mockResolvedValue({
+        success: true,
+        data: { description: 'Part', provider: TLLMProvider.CLAUDE, model: 'claude-3-5-sonnet-20241022', usage }
+      }),
+      isAvailable: jest.fn().mockResolvedValue(true),
+      getProviderName: () => TLLMProvider.CLAUDE
+    };
+    const llmService = new LLMService([]);
+    llmService.registerService(TLLMProvider.CLAUDE, service);
+    const chunks: DiffChunk[] = [0, 1].map(index => ({
+      content: `chunk ${index}`,
+      index,
+      totalChunks: 2,
+      context: { files: [`file${index}.ts`], changeType: 'modify' },
+      hasOverlap: false
+    }));
+    const request: TLLMRequest = {
+      provider: TLLMProvider.CLAUDE,
+      prData: {
+        title: 'PR', description: '', diff: '', author: 'a', sourceBranch: 'f', destinationBranch: 'main', repository: 'r',
+        chunks, requiresChunking: true
+      }
+    };
+
+    const response = await llmService.generateDescriptionChunked(request);
+
+    // Two chunks and the synthesis that merges them
+    expect(response.data?.usage).toEqual({ promptTokens: 1_200_000, completionTokens: 300_000, totalTokens: 1_500_000 });
+    expect(response.data?.cost).toEqual({ currency: 'USD', promptCost: 3.6, completionCost: 4.5, totalCost: 8.1 });
+    expect(response.data?.parts?.[0].usage).toEqual(usage);
+    expect(response.data?.synthesis?.[0].usage).toEqual(usage);
+    expect(sumUsage([usage, undefined, { ...usage, estimated: true }])?.estimated).toBe(true);
+  });
+});
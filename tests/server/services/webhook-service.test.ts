@@ -0,0 +1,167 @@
+// Tests for webhook-triggered generation
+import axios from 'axios';
+import crypto from 'crypto';
+import { WebhookService } from '../../../src/server/services/webhook-service';
+import { fetchPullRequest, fetchPullRequestDiff } from '../../../src/server/services/bitbucket-service';
+import { fetchPromptCommits } from '../../../src/server/services/commit-history-service';
+import { DescriptionPublisherService } from '../../../src/server/services/description-publisher-service';
+import { getLLMService } from '../../../src/server/services/llm-service-registry';
+import { TBitbucketWebhookPayload, TWebhookConfig } from '../../../src/types/webhook-types';
+import { TLLMProvider } from '../../../src/types/llm-types';
+
+jest.mock('axios');
+jest.mock('../../../src/server/services/bitbucket-service');
+jest.mock('../../../src/server/services/commit-history-service');
+jest.mock('../../../src/server/services/description-publisher-service');
+jest.mock('../../../src/server/services/llm-service-registry');
+
+const mockAxios = axios as jest.Mocked<typeof axios>;
+const mockFetchPullRequest = fetchPullRequest as jest.MockedFunction<typeof fetchPullRequest>;
+const mockFetchPullRequestDiff = fetchPullRequestDiff as jest.MockedFunction<typeof fetchPullRequestDiff>;
+const mockFetchPromptCommits = fetchPromptCommits as jest.MockedFunction<typeof fetchPromptCommits>;
+const mockPublish = jest.fn();
+const mockLLMService = {
+  generateDescription: jest.fn(),
+  getAvailableProviders: jest.fn()
+};
+
+function buildPayload(commit: string, state: string = 'OPEN'): TBitbucketWebhookPayload {
+  return {
+    pullrequest: {
+      id: 7,
+      title: 'Add feature',
+      state,
+      updated_on: '2024-01-01T00:00:00Z',
+      source: { branch: { name: 'feature' }, commit: { hash: commit } }
+    },
+    repository: { full_name: 'workspace/repo' }
+  };
+}
+
+const config: TWebhookConfig = {
+  defaults: { enabled: true, target: 'pr', publishMode: 'section' },
+  repositories: {
+    'workspace/repo': { template: 'pr-description-template-en.txt', provider: TLLMProvider.CLAUDE },
+    'workspace/sink-repo': { target: 'sink', sinkUrl: 'https://hooks.example.com/descriptions' },
+    'workspace/disabled': { enabled: false }
+  }
+};
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new WebhookService(config);
+
+    (DescriptionPublisherService as unknown as jest.Mock).mockImplementation(() => ({ publish: mockPublish }));
+    (getLLMService as jest.Mock).mockReturnValue(mockLLMService);
+    mockFetchPullRequest.mockImplementation(async (repository: string) => ({
+      success: true,
+      data: {
+        id: 7,
+        title: 'Add feature',
+        description: '',
+        state: 'OPEN',
+        author: { display_name: 'Jane', uuid: '{1}' },
+        created_on: '2024-01-01T00:00:00Z',
+        updated_on: '2024-01-01T00:00:00Z',
+        source: { branch: { name: 'feature' }, repository: { full_name: repository } },
+        destination: { branch: { name: 'main' }, repository: { full_name: repository } },
+        links: { html: { href: `https://bitbucket.org/${repository}/pull-requests/7` } }
+      }
+    }));
+    mockFetchPullRequestDiff.mockResolvedValue({ success: true, data: { diff: 'diff --git a/x b/x\n+line' } });
+    mockFetchPromptCommits.mockResolvedValue([]);
+    mockLLMService.generateDescription.mockResolvedValue({
+      success: true,
+      data: { description: 'Generated', provider: TLLMProvider.CLAUDE, model: 'claude' }
+    });
+    mockLLMService.getAvailableProviders.mockResolvedValue([TLLMProvider.OPENAI]);
+    mockPublish.mockResolvedValue({ success: true, data: { mode: 'section', updatedOn: 'x', url: 'y' } });
+  });
+
+  describe('verifySignature', () => {
+    const body = Buffer.from('{"a":1}');
+    const signature = (secret: string) =>
+      `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+    it('should_accept_matching_signature', () => {
+      expect(WebhookService.verifySignature(body, signature('secret'), 'secret')).toBe(true);
+    });
+
+    it('should_reject_wrong_or_malformed_signatures', () => {
+      expect(WebhookService.verifySignature(body, signature('other'), 'secret')).toBe(false);
+      expect(WebhookService.verifySignature(body, 'sha256=zz', 'secret')).toBe(false);
+      expect(WebhookService.verifySignature(body, undefined, 'secret')).toBe(false);
+    });
+  });
+
+  it('should_generate_with_repository_defaults_and_publish_to_pr', async () => {
+    const result = service.enqueue('pullrequest:created', buildPayload('abc'));
+    await service.whenIdle();
+
+    expect(result.queued).toBe(true);
+    expect(mockLLMService.generateDescription).toHaveBeenCalledWith(expect.objectContaining({
+      provider: TLLMProvider.CLAUDE,
+      template: 'pr-description-template-en.txt'
+    }));
+    expect(mockPublish).toHaveBeenCalledWith('workspace/repo', '7', 'Generated', {
+      mode: 'section',
+      expectedUpdatedOn: '2024-01-01T00:00:00Z'
+    });
+  });
+
+  it('should_ignore_update_events_for_an_already_processed_commit', async () => {
+    service.enqueue('pullrequest:created', buildPayload('abc'));
+    await service.whenIdle();
+
+    // Publishing the description triggers pullrequest:updated with the same source commit
+    const result = service.enqueue('pullrequest:updated', buildPayload('abc'));
+
+    expect(result.queued).toBe(false);
+    expect(result.reason).toContain('already generated');
+    expect(mockLLMService.generateDescription).toHaveBeenCalledTimes(1);
+  });
+
+  it('should_replace_pending_job_when_newer_commit_arrives', async () => {
+    service.enqueue('pullrequest:created', buildPayload('abc'));
+    service.enqueue('pullrequest:updated', buildPayload('def'));
+
+    expect(service.getQueueLength()).toBe(1);
+    await service.whenIdle();
+    expect(mockLLMService.generateDescription).toHaveBeenCalledTimes(1);
+  });
+
+  it('should_not_queue_closed_or_disabled_pull_requests', () => {
+    expect(service.enqueue('pullrequest:updated', buildPayload('abc', 'MERGED')).queued).toBe(false);
+
+    const disabled = { ...buildPayload('abc'), repository: { full_name: 'workspace/disabled' } };
+    expect(service.enqueue('pullrequest:created', disabled).reason).toContain('disabled');
+  });
+
+  it('should_deliver_to_sink_when_configured', async () => {
+    mockAxios.post.mockResolvedValue({ status: 200 } as any);
+    const payload = { ...buildPayload('abc'), repository: { full_name: 'workspace/sink-repo' } };
+
+    service.enqueue('pullrequest:created', payload);
+    await service.whenIdle();
+
+    expect(mockPublish).not.toHaveBeenCalled();
+    expect(mockAxios.post).toHaveBeenCalledWith(
+      'https://hooks.example.com/descriptions',
+      expect.objectContaining({ repository: 'workspace/sink-repo', prNumber: '7', description: 'Generated' }),
+      expect.any(Object)
+    );
+  });
+
+  it('should_allow_retry_of_a_commit_after_failure', async () => {
+    mockLLMService.generateDescription.mockResolvedValueOnce({ success: false, error: 'Provider down' });
+
+    service.enqueue('pullrequest:created', buildPayload('abc'));
+    await service.whenIdle();
+
+    expect(service.enqueue('pullrequest:updated', buildPayload('abc')).queued).toBe(true);
+    await service.whenIdle();
+  });
+});
@@ -1,5 +1,5 @@
 // Tests for URL parsing utility
-import { BitbucketUrlParser, ParsedPRUrl } from '../../../src/server/utils/url-parser';
+import { BitbucketUrlParser, GitHubUrlParser, GitLabUrlParser, ParsedPRUrl } from '../../../src/server/utils/url-parser';
 
 describe('BitbucketUrlParser', () => {
   describe('parsePRUrl', () => {
@@ -193,6 +193,55 @@ describe('BitbucketUrlParser', () => {
     });
   });
 
+  describe('Bitbucket Data Center URLs', () => {
+    test('should parse project repository PR URL on a self-hosted instance', () => {
+      const url = 'https://git.example.com/projects/PROJ/repos/my-repo/pull-requests/42/overview';
+      const result = BitbucketUrlParser.parsePRUrl(url);
+
+      expect(result.isValid).toBe(true);
+      expect(result.platform).toBe('server');
+      expect(result.baseUrl).toBe('https://git.example.com');
+      expect(result.workspace).toBe('PROJ');
+      expect(result.repository).toBe('my-repo');
+      expect(result.prNumber).toBe('42');
+    });
+
+    test('should keep the context path in the base URL', () => {
+      const url = 'https://example.com/bitbucket/projects/PROJ/repos/my-repo/pull-requests/7';
+      const result = BitbucketUrlParser.parsePRUrl(url);
+
+      expect(result.isValid).toBe(true);
+      expect(result.baseUrl).toBe('https://example.com/bitbucket');
+    });
+
+    test('should map personal repositories to a ~user project key', () => {
+      const url = 'https://git.example.com/users/jdoe/repos/scratch/pull-requests/3';
+      const result = BitbucketUrlParser.parsePRUrl(url);
+
+      expect(result.isValid).toBe(true);
+      expect(result.workspace).toBe('~jdoe');
+    });
+
+    test('should report cloud platform for bitbucket.org URLs', () => {
+      const result = BitbucketUrlParser.parsePRUrl('https://bitbucket.org/workspace/repo/pull-requests/1');
+
+      expect(result.platform).toBe('cloud');
+      expect(result.baseUrl).toBeUndefined();
+    });
+
+    test('should reject Data Center URLs with invalid PR numbers', () => {
+      const result = BitbucketUrlParser.parsePRUrl('https://git.example.com/projects/PROJ/repos/r/pull-requests/abc');
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Invalid PR number');
+    });
+
+    test('should recognise Data Center URLs as Bitbucket PR URLs', () => {
+      const url = 'https://git.example.com/projects/PROJ/repos/my-repo/pull-requests/42';
+      expect(BitbucketUrlParser.isBitbucketPRUrl(url)).toBe(true);
+    });
+  });
+
   describe('formatRepositoryString', () => {
     test('should format repository string correctly', () => {
       const result = BitbucketUrlParser.formatRepositoryString('myworkspace', 'myrepo');
@@ -234,4 +283,59 @@ describe('BitbucketUrlParser', () => {
       });
     });
   });
+});
+
+describe('GitHubUrlParser', () => {
+  test('should parse pull request URLs with and without sub-pages', () => {
+    ['https://github.com/octo/hello-world/pull/42', 'https://www.github.com/octo/hello-world/pull/42/files?w=1'].forEach(url => {
+      expect(GitHubUrlParser.parsePRUrl(url)).toEqual({
+        workspace: 'octo',
+        repository: 'hello-world',
+        prNumber: '42',
+        isValid: true,
+        platform: 'github'
+      });
+    });
+  });
+
+  test('should reject GitHub URLs that are not pull requests', () => {
+    const result = GitHubUrlParser.parsePRUrl('https://github.com/octo/hello-world/issues/42');
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain('Invalid GitHub PR URL format');
+  });
+
+  test('should only claim github.com URLs', () => {
+    expect(GitHubUrlParser.isGitHubUrl('https://github.com/octo/repo/pull/1')).toBe(true);
+    expect(GitHubUrlParser.isGitHubUrl('https://bitbucket.org/workspace/repo/pull-requests/1')).toBe(false);
+    expect(GitHubUrlParser.isGitHubUrl('https://github.com.evil.example/octo/repo/pull/1')).toBe(false);
+  });
+});
+
+describe('GitLabUrlParser', () => {
+  test('should parse merge request URLs with subgroups on any host', () => {
+    expect(GitLabUrlParser.parsePRUrl('https://gitlab.example.com/platform/infra/deployer/-/merge_requests/42/diffs')).toEqual({
+      workspace: 'platform/infra',
+      repository: 'deployer',
+      prNumber: '42',
+      isValid: true,
+      platform: 'gitlab',
+      baseUrl: 'https://gitlab.example.com'
+    });
+  });
+
+  test('should strip the context path of a configured instance', () => {
+    const result = GitLabUrlParser.parsePRUrl(
+      'https://git.example.com/gitlab/group/project/-/merge_requests/7',
+      ['https://gitlab.com', 'https://git.example.com/gitlab/']
+    );
+
+    expect(result.workspace).toBe('group');
+    expect(result.repository).toBe('project');
+    expect(result.baseUrl).toBe('https://git.example.com/gitlab');
+  });
+
+  test('should reject URLs without a namespace or merge request number', () => {
+    expect(GitLabUrlParser.parsePRUrl('https://gitlab.com/project/-/merge_requests/1').isValid).toBe(false);
+    expect(GitLabUrlParser.parsePRUrl('https://gitlab.com/group/project/-/merge_requests/abc').isValid).toBe(false);
+  });
 });
\ No newline at end of file
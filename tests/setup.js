@@ -5,3 +5,6 @@ process.env.NODE_ENV = 'test';
 process.env.OPENAI_API_KEY = 'test-key';
 process.env.CLAUDE_API_KEY = 'test-key';
 process.env.OLLAMA_API_URL = 'http://localhost:11434';
+
+// Keep incremental-mode generation history out of the working tree
+process.env.GENERATION_HISTORY_PATH = require('path').join(require('os').tmpdir(), `happyfriday-generation-history-${process.pid}.json`);